@@ -2,6 +2,10 @@
 import { QuotaService } from "./services/quota-service";
 import { HistoryService } from "./services/history-service";
 import { renderQuotaTable } from "./ui/quota-table";
+import { isDisplayMode } from "./utils/validation";
+import { runHistoryCommand } from "./commands/history";
+import { PollerLock } from "./poller-lock";
+import { POLLER_LOCK_FILE, SNAPSHOT_FILE } from "./utils/paths";
 
 async function main() {
     if (process.argv.includes("--no-color")) {
@@ -9,12 +13,40 @@ async function main() {
     }
 
     const historyService = new HistoryService();
-    await historyService.init();
-
     const quotaService = new QuotaService();
     await quotaService.init(process.cwd(), historyService);
 
+    for (const error of quotaService.getProviderErrors()) {
+        console.error(`Warning: failed to load ${error.type} provider "${error.source}": ${error.message}`);
+    }
+
     const config = quotaService.getConfig();
+    const lock = new PollerLock(POLLER_LOCK_FILE(), { staleMs: 3 * (config.pollingInterval ?? 60_000) });
+
+    // Repairs and migrations rewrite the log, so they need the poller lock; while a
+    // running plugin holds it, the log is only read
+    if (await lock.acquire()) {
+        try {
+            await historyService.init();
+        } finally {
+            await lock.release();
+        }
+    } else {
+        await historyService.reload();
+    }
+
+    if (process.argv[2] === "history") {
+        process.exitCode = await runHistoryCommand(process.argv.slice(3), {
+            historyService,
+            lock,
+            predictionWindowMinutes: config.predictionWindowMinutes,
+            predictionShortWindowMinutes: config.predictionShortWindowMinutes,
+            predictionEngine: config.predictionEngine,
+            historyResetThreshold: config.historyResetThreshold,
+            snapshotPath: SNAPSHOT_FILE(),
+        });
+        return;
+    }
     
     // Parse arguments for provider and model filtering
     let providerId: string | undefined;
@@ -30,6 +62,34 @@ async function main() {
         modelId = process.argv[modelIdx + 1];
     }
 
+    if (process.argv.includes("--recommend")) {
+        const recommendations = await quotaService.getRecommendations({ providerId, modelId });
+        if (recommendations.length === 0) {
+            console.log("No recommendation available: quotas from at least two accounts are needed.");
+            return;
+        }
+        for (const rec of recommendations) {
+            console.log(`${rec.name}: ${rec.account} (${Math.round(rec.remainingPercent)}% left)`);
+        }
+        return;
+    }
+
+    let displayMode = config.displayMode;
+    const modeIdx = process.argv.indexOf("--mode");
+    if (modeIdx !== -1 && modeIdx + 1 < process.argv.length) {
+        const requested = process.argv[modeIdx + 1];
+        if (!isDisplayMode(requested)) {
+            console.error(`Invalid --mode "${requested}". Expected one of: simple, detailed, hidden.`);
+            process.exitCode = 1;
+            return;
+        }
+        displayMode = requested;
+    }
+
+    if (displayMode === "hidden") {
+        return;
+    }
+
     const filteredResults = await quotaService.getQuotas({ providerId, modelId });
 
     if (filteredResults.length === 0) {
@@ -44,6 +104,7 @@ async function main() {
     renderQuotaTable(filteredResults, {
         progressBarConfig: config.progressBar,
         tableConfig: config.table,
+        displayMode,
     }).forEach((row) => {
         console.log(row.line);
     });
@@ -0,0 +1,431 @@
+import { readFile } from "node:fs/promises";
+import { type HistoryService } from "../services/history-service";
+import { type PollerLock } from "../poller-lock";
+import { readSnapshotQuotas } from "../quota-cache";
+import { type HistoryPoint, type PredictionContext, type PredictionEngineType, type QuotaHistoryPoint } from "../interfaces";
+import { createPredictionEngine, LinearRegressionPredictionEngine, predictionContextOf } from "../services/prediction-engine";
+import { backtestHistory, type BacktestConfig, type BacktestResult } from "../services/backtest";
+import { renderHistoryChart, trendCrossing, type ChartTrend } from "../ui/history-chart";
+import { formatHistory, historyFormatFromPath, isHistoryFormat, parseHistory, type HistoryFormat } from "../utils/history-format";
+import { formatDurationMs, parseDuration } from "../utils/time";
+import { isPredictionEngineType } from "../utils/validation";
+
+export const HISTORY_USAGE = `Usage:
+  opencode-quotas history chart [--quota <id>]... [--since 6h] [--width 60] [--height 10] [--ascii]
+  opencode-quotas history export [--format csv|json|ndjson] [--since 7d] [--quota <id>]
+  opencode-quotas history import <file> [--format csv|json|ndjson]
+  opencode-quotas history backtest [<file>] [--format csv|json|ndjson] [--quota <id>]... [--since 7d]
+                                   [--engine linear|ewma|holt]... [--window <minutes>]... [--short-window <minutes>]...`;
+
+export type HistoryCommandOptions = {
+    historyService: HistoryService;
+    /**
+     * Held while importing so a running poller cannot compact the imported points away.
+     */
+    lock?: PollerLock;
+    /**
+     * Prediction windows used for the chart's trend line and ETTL. Default to 60 and 5 minutes.
+     */
+    predictionWindowMinutes?: number;
+    predictionShortWindowMinutes?: number;
+    /**
+     * Engine behind the chart header's ETTL. The trend line is always the linear regression.
+     */
+    predictionEngine?: PredictionEngineType;
+    /**
+     * Usage drop, in percent of the limit, that backtests treat as a reset. Defaults to 20.
+     */
+    historyResetThreshold?: number;
+    /**
+     * Snapshot persisted by the polling process (see `QuotaCache`). Its quotas give the
+     * chart header's ETTL the same window and reset time as the footer, and backtests
+     * their window length. Quotas missing from it fall back to their recorded resets.
+     */
+    snapshotPath?: string;
+};
+
+const OPTIONS_WITH_VALUE = new Set([
+    "--format", "--since", "--quota", "--width", "--height", "--engine", "--window", "--short-window",
+]);
+
+const BACKTEST_ENGINES: PredictionEngineType[] = ["linear", "ewma", "holt"];
+
+const DEFAULT_CHART_WINDOW = "6h";
+
+function getOption(args: string[], name: string): string | undefined {
+    const idx = args.indexOf(name);
+    return idx !== -1 && idx + 1 < args.length ? args[idx + 1] : undefined;
+}
+
+function getOptions(args: string[], name: string): string[] {
+    return args.flatMap((arg, i) => (arg === name && i + 1 < args.length ? [args[i + 1]] : []));
+}
+
+function getPositional(args: string[]): string | undefined {
+    for (let i = 0; i < args.length; i++) {
+        if (OPTIONS_WITH_VALUE.has(args[i])) {
+            i++;
+            continue;
+        }
+        if (!args[i].startsWith("--")) return args[i];
+    }
+    return undefined;
+}
+
+function resolveFormat(args: string[], fallback: HistoryFormat | null): HistoryFormat | null {
+    const requested = getOption(args, "--format");
+    if (requested === undefined) return fallback;
+    return isHistoryFormat(requested) ? requested : null;
+}
+
+/**
+ * Runs `opencode-quotas history <chart|export|import|backtest>`. Returns the process exit code.
+ */
+export async function runHistoryCommand(args: string[], options: HistoryCommandOptions): Promise<number> {
+    const [subcommand, ...rest] = args;
+    switch (subcommand) {
+        case "chart":
+            return chartHistory(rest, options);
+        case "export":
+            return exportHistory(rest, options.historyService);
+        case "import":
+            return importHistory(rest, options);
+        case "backtest":
+            return backtestPredictions(rest, options);
+        default:
+            console.error(HISTORY_USAGE);
+            return 1;
+    }
+}
+
+function parseSince(args: string[], fallback?: string): number | null | undefined {
+    const since = getOption(args, "--since") ?? fallback;
+    if (since === undefined) return undefined;
+    const parsed = parseDuration(since);
+    if (parsed === null) {
+        console.error(`Invalid --since "${since}". Expected a duration like 30m, 12h, 7d or 2w.`);
+    }
+    return parsed;
+}
+
+function parseSize(args: string[], name: string): number | null | undefined {
+    const value = getOption(args, name);
+    if (value === undefined) return undefined;
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed <= 0) {
+        console.error(`Invalid ${name} "${value}". Expected a positive integer.`);
+        return null;
+    }
+    return parsed;
+}
+
+function formatValue(value: number): string {
+    return Number.isInteger(value) ? `${value}` : value.toFixed(1);
+}
+
+/**
+ * Moves a reset time that has passed forward by whole windows.
+ */
+function nextResetAt(resetAt: number | undefined, windowMs: number | undefined, now: number): number | undefined {
+    if (resetAt === undefined || resetAt > now || !windowMs) return resetAt;
+    return resetAt + (Math.floor((now - resetAt) / windowMs) + 1) * windowMs;
+}
+
+/**
+ * Window and reset time of each quota, without polling the providers: from the poller's
+ * snapshot, or else inferred from the interval between the last two recorded resets.
+ */
+async function loadPredictionContexts(options: HistoryCommandOptions): Promise<Map<string, PredictionContext>> {
+    const { historyService } = options;
+    const now = Date.now();
+    const contexts = new Map<string, PredictionContext>();
+
+    const quotas = options.snapshotPath ? await readSnapshotQuotas(options.snapshotPath) : [];
+    for (const quota of quotas) {
+        const context = predictionContextOf(quota);
+        contexts.set(quota.id, { ...context, resetAt: nextResetAt(context.resetAt, context.windowMs, now) });
+    }
+
+    for (const quotaId of historyService.getQuotaIds()) {
+        const resets = historyService.getResetEvents(quotaId);
+        if (contexts.has(quotaId) || resets.length < 2) continue;
+        const lastReset = resets[resets.length - 1].timestamp;
+        const windowMs = lastReset - resets[resets.length - 2].timestamp;
+        contexts.set(quotaId, { windowMs, resetAt: nextResetAt(lastReset, windowMs, now) });
+    }
+    return contexts;
+}
+
+async function chartHistory(args: string[], options: HistoryCommandOptions): Promise<number> {
+    const { historyService } = options;
+    const windowMs = parseSince(args, DEFAULT_CHART_WINDOW);
+    const width = parseSize(args, "--width");
+    const height = parseSize(args, "--height");
+    if (windowMs === null || width === null || height === null) return 1;
+
+    const windowMinutes = options.predictionWindowMinutes ?? 60;
+    const shortWindowMinutes = options.predictionShortWindowMinutes ?? 5;
+    const engine = new LinearRegressionPredictionEngine(historyService, { predictionShortWindowMinutes: shortWindowMinutes });
+    const ettlEngine = options.predictionEngine && options.predictionEngine !== "linear"
+        ? createPredictionEngine(options.predictionEngine, historyService, { predictionShortWindowMinutes: shortWindowMinutes })
+        : engine;
+    const ascii = args.includes("--ascii");
+    const contexts = await loadPredictionContexts(options);
+    const now = Date.now();
+
+    let quotaIds = getOptions(args, "--quota");
+    if (quotaIds.length === 0) {
+        quotaIds = historyService.getQuotaIds().filter(id => historyService.getHistory(id, windowMs!).length > 0);
+        if (quotaIds.length === 0) {
+            console.log("No usage history recorded in this period.");
+            return 0;
+        }
+    }
+
+    quotaIds.forEach((quotaId, i) => {
+        if (i > 0) console.log("");
+        const points = historyService.getHistory(quotaId, windowMs!);
+        if (points.length === 0) {
+            console.log(`${quotaId}: no usage history recorded in this period.`);
+            return;
+        }
+
+        const last = points[points.length - 1];
+        const trendPoints = historyService.getHistory(quotaId, windowMinutes * 60 * 1000);
+        const trend = buildTrend(engine, trendPoints);
+        const crossing = trend ? trendCrossing(trend, last.limit) : null;
+        // Extend the time axis to show the crossing, up to one more chart window into the future
+        const to = crossing !== null && crossing > now && crossing - now <= windowMs! ? crossing : now;
+
+        const ettl = ettlEngine.predictTimeToLimit(quotaId, windowMinutes, shortWindowMinutes, contexts.get(quotaId));
+        const usage = last.limit !== null && last.limit > 0
+            ? `${formatValue(last.used)}/${formatValue(last.limit)} (${Math.round((last.used / last.limit) * 100)}%)`
+            : `${formatValue(last.used)} (unlimited)`;
+        const slopePerHour = trend ? `${trend.slope >= 0 ? "+" : ""}${formatValue(trend.slope * 60 * 60 * 1000)}/h` : "n/a";
+        console.log(`${quotaId}: ${usage}, trend ${slopePerHour}, ETTL ${ettl === Infinity ? "none" : formatDurationMs(ettl)}`);
+
+        renderHistoryChart(points, {
+            from: now - windowMs!,
+            to,
+            now,
+            limit: last.limit,
+            trend: trend ?? undefined,
+            width,
+            height,
+            ascii,
+        }).forEach(line => console.log(line));
+
+        let crossingText = "trend never reaches the limit";
+        if (crossing !== null) {
+            crossingText = crossing <= now
+                ? "trend is at the limit"
+                : `trend reaches the limit in ${formatDurationMs(crossing - now)}${crossing > to ? " (beyond chart)" : ""}`;
+        }
+        const legend = ascii ? ["*", ".", "X"] : ["●", "·", "✕"];
+        console.log(`${legend[0]} usage  ${legend[1]} ${windowMinutes}m trend  ${legend[2]} ${crossingText}`);
+    });
+    return 0;
+}
+
+/**
+ * The regression line the prediction engine fits over its long window, anchored at the
+ * centroid of the points (where a least-squares line always passes).
+ */
+function buildTrend(engine: LinearRegressionPredictionEngine, points: HistoryPoint[]): ChartTrend | null {
+    if (points.length < 2) return null;
+    const anchor = {
+        timestamp: points.reduce((sum, p) => sum + p.timestamp, 0) / points.length,
+        used: points.reduce((sum, p) => sum + p.used, 0) / points.length,
+    };
+    return { slope: engine.calculateSlope(points), anchor, from: points[0].timestamp };
+}
+
+function exportHistory(args: string[], historyService: HistoryService): number {
+    const format = resolveFormat(args, "csv");
+    if (!format) {
+        console.error(`Invalid --format "${getOption(args, "--format")}". Expected one of: csv, json, ndjson.`);
+        return 1;
+    }
+
+    const windowMs = parseSince(args);
+    if (windowMs === null) return 1;
+
+    const points = historyService.exportPoints({ quotaId: getOption(args, "--quota"), windowMs });
+    process.stdout.write(formatHistory(points, format));
+    return 0;
+}
+
+async function importHistory(args: string[], options: HistoryCommandOptions): Promise<number> {
+    const file = getPositional(args);
+    if (!file) {
+        console.error(HISTORY_USAGE);
+        return 1;
+    }
+
+    const format = resolveFormat(args, historyFormatFromPath(file));
+    if (!format) {
+        console.error(`Cannot tell the format of "${file}". Pass --format csv, json or ndjson.`);
+        return 1;
+    }
+
+    let points;
+    try {
+        points = parseHistory(await readFile(file, "utf-8"), format);
+    } catch (e) {
+        console.error(`Failed to read ${file}: ${e instanceof Error ? e.message : String(e)}`);
+        return 1;
+    }
+
+    const { historyService, lock } = options;
+    if (lock && !(await lock.acquire())) {
+        console.error("Another OpenCode process is polling quotas and writing history. Close it before importing.");
+        return 1;
+    }
+
+    try {
+        // Pick up anything the last poller appended before we took the lock
+        await historyService.init();
+        const added = await historyService.importPoints(points);
+        console.log(`Imported ${added} of ${points.length} points from ${file} (duplicates and points past retention are skipped).`);
+        return 0;
+    } finally {
+        await lock?.release();
+    }
+}
+
+/**
+ * Parses repeated positive integer options such as `--window 30 --window 60`.
+ */
+function parseMinutesList(args: string[], name: string, fallback: number): number[] | null {
+    const values = getOptions(args, name);
+    if (values.length === 0) return [fallback];
+    const parsed = values.map(Number);
+    const invalid = values.find((_, i) => !Number.isInteger(parsed[i]) || parsed[i] <= 0);
+    if (invalid !== undefined) {
+        console.error(`Invalid ${name} "${invalid}". Expected a positive number of minutes.`);
+        return null;
+    }
+    return parsed;
+}
+
+/**
+ * Formats an error in time, e.g. "9m", "<1m" or, signed, "-9m" and "+1h 5m".
+ */
+function formatErrorMs(ms: number | null, signed: boolean): string {
+    if (ms === null) return "-";
+    if (Math.abs(ms) < 60 * 1000) return "<1m";
+    const sign = signed ? (ms < 0 ? "-" : "+") : "";
+    return `${sign}${formatDurationMs(Math.abs(ms))}`;
+}
+
+/**
+ * Aligns rows into columns separated by three spaces, like the quota table.
+ */
+function formatColumns(rows: string[][]): string[] {
+    const widths = rows[0].map((_, col) => Math.max(...rows.map(row => row[col].length)));
+    return rows.map(row => row.map((cell, col) => cell.padEnd(widths[col])).join("   ").trimEnd());
+}
+
+function formatBacktestResults(results: BacktestResult[]): string[] {
+    const header = ["ENGINE", "WINDOW", "SHORT", "SCORED", "HITS", "MAE", "BIAS", "REL ERR", "MISSED", "FALSE ALARMS"];
+    return formatColumns([
+        header,
+        ...results.map(({ config, metrics }) => [
+            config.engine,
+            `${config.windowMinutes}m`,
+            `${config.shortWindowMinutes}m`,
+            String(metrics.scored),
+            String(metrics.hits),
+            formatErrorMs(metrics.meanAbsoluteErrorMs, false),
+            formatErrorMs(metrics.biasMs, true),
+            metrics.meanRelativeError === null ? "-" : `${Math.round(metrics.meanRelativeError * 100)}%`,
+            String(metrics.missed),
+            String(metrics.falseAlarms),
+        ]),
+    ]);
+}
+
+/**
+ * Quota window the backtest predicted with, e.g. "5h window" or "window unknown". Without
+ * one, weekly and monthly quotas are predicted like short ones.
+ */
+function describeQuotaWindow(context: PredictionContext | undefined): string {
+    if (context?.windowMs) return `${formatDurationMs(context.windowMs).replace(/ 0[mh]$/, "")} window`;
+    if (context?.windowInfo) return `${context.windowInfo} window`;
+    return "window unknown";
+}
+
+async function loadBacktestPoints(args: string[], options: HistoryCommandOptions): Promise<QuotaHistoryPoint[] | null> {
+    const windowMs = parseSince(args);
+    if (windowMs === null) return null;
+    const quotaIds = getOptions(args, "--quota");
+
+    const file = getPositional(args);
+    if (!file) {
+        return options.historyService.exportPoints({ windowMs })
+            .filter(p => quotaIds.length === 0 || quotaIds.includes(p.quotaId));
+    }
+
+    const format = resolveFormat(args, historyFormatFromPath(file));
+    if (!format) {
+        console.error(`Cannot tell the format of "${file}". Pass --format csv, json or ndjson.`);
+        return null;
+    }
+    try {
+        const cutoff = windowMs === undefined ? -Infinity : Date.now() - windowMs;
+        return parseHistory(await readFile(file, "utf-8"), format)
+            .filter(p => p.timestamp >= cutoff && (quotaIds.length === 0 || quotaIds.includes(p.quotaId)));
+    } catch (e) {
+        console.error(`Failed to read ${file}: ${e instanceof Error ? e.message : String(e)}`);
+        return null;
+    }
+}
+
+async function backtestPredictions(args: string[], options: HistoryCommandOptions): Promise<number> {
+    const engineArgs = getOptions(args, "--engine");
+    const invalidEngine = engineArgs.find(e => !isPredictionEngineType(e));
+    if (invalidEngine !== undefined) {
+        console.error(`Invalid --engine "${invalidEngine}". Expected one of: ${BACKTEST_ENGINES.join(", ")}.`);
+        return 1;
+    }
+    const engines = engineArgs.length > 0 ? engineArgs as PredictionEngineType[] : BACKTEST_ENGINES;
+    const windows = parseMinutesList(args, "--window", options.predictionWindowMinutes ?? 60);
+    const shortWindows = parseMinutesList(args, "--short-window", options.predictionShortWindowMinutes ?? 5);
+    if (!windows || !shortWindows) return 1;
+
+    const points = await loadBacktestPoints(args, options);
+    if (!points) return 1;
+    if (points.length === 0) {
+        console.log("No usage history recorded in this period.");
+        return 0;
+    }
+
+    const configs: BacktestConfig[] = engines.flatMap(engine =>
+        windows.flatMap(windowMinutes => shortWindows.map(shortWindowMinutes => ({ engine, windowMinutes, shortWindowMinutes })))
+    );
+    const contexts = await loadPredictionContexts(options);
+    // Recorded reset events only describe the stored history, not an exported file
+    const report = backtestHistory(points, configs, {
+        resetEvents: getPositional(args) ? undefined : options.historyService.getResetEvents(),
+        resetThresholdPercent: options.historyResetThreshold,
+        contexts,
+    });
+
+    for (const quota of report.quotas) {
+        const window = describeQuotaWindow(contexts.get(quota.quotaId));
+        console.log(`${quota.quotaId} (${window}): ${quota.points} points, ${quota.windows} window(s), limit reached in ${quota.exhaustions}`);
+        formatBacktestResults(quota.results).forEach(line => console.log(line));
+        if (quota.results.every(r => r.metrics.scored === 0)) {
+            console.log("Nothing scored: no window reached its limit or reset, and no predicted limit fell within the history.");
+        }
+        console.log("");
+    }
+    if (report.quotas.length > 1) {
+        console.log("All quotas:");
+        formatBacktestResults(report.overall).forEach(line => console.log(line));
+        console.log("");
+    }
+    console.log("MAE: mean absolute error of the ETTL where the limit was reached. BIAS < 0: predictions came too early.");
+    console.log("MISSED: the limit was reached but no ETTL was predicted. FALSE ALARMS: a predicted limit was not reached.");
+    return 0;
+}
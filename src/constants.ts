@@ -7,6 +7,14 @@ export const REASONING_PATTERNS = [
     /^(Thinking|Reasoning|Analysis):\s*(\n|$)/i
 ];
 
+// Slash command that renders the full quota table on demand.
+// OpenCode expands the command into this template as a user message, which is
+// how the plugin recognises the request in the chat.message hook.
+export const QUOTAS_COMMAND_NAME = "quotas";
+export const QUOTAS_COMMAND_DESCRIPTION = "Show the full quota table";
+export const QUOTAS_COMMAND_TEMPLATE =
+    "Show my current AI quota usage. Reply with one short sentence only; the full quota table is appended automatically.";
+
 // File paths
 export const DEBUG_LOG_FILENAME = "quotas-debug.log";
 
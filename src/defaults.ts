@@ -17,11 +17,14 @@ export const DEFAULT_CONFIG: QuotaConfig = {
     },
     table: {
         header: true,
+        trendWindowMinutes: 60,
+        trendWidth: 10,
     },
     filterByCurrentModel: false,
     showUnaggregated: false,
     predictionShortWindowMinutes: 5,
     predictionWindowMinutes: 60,
+    predictionEngine: "linear",
     aggregatedGroups: [
         {
             id: "ag-flash",
@@ -52,6 +55,11 @@ export const DEFAULT_CONFIG: QuotaConfig = {
         },
     ],
     historyMaxAgeHours: 24,
+    historyTiers: [
+        { resolutionMinutes: 5, maxAgeDays: 7 },
+        { resolutionMinutes: 60, maxAgeDays: 60 },
+    ],
     historyResetThreshold: 20,
     pollingInterval: 60_000,
+    staleAfterMinutes: 10,
 };
@@ -6,12 +6,18 @@ import { renderQuotaTable } from "./ui/quota-table";
 import { renderQuotaFooter } from "./ui/footer";
 import { type QuotaData } from "./interfaces";
 import { QuotaCache } from "./quota-cache";
+import { PollerLock } from "./poller-lock";
+import { POLLER_LOCK_FILE, SNAPSHOT_FILE } from "./utils/paths";
 import {
     PLUGIN_FOOTER_SIGNATURE,
+    QUOTAS_COMMAND_DESCRIPTION,
+    QUOTAS_COMMAND_NAME,
+    QUOTAS_COMMAND_TEMPLATE,
     SKIP_REASONS,
 } from "./constants";
 import { logger } from "./logger";
 import { getPluginState } from "./plugin-state";
+import { CHECK_QUOTAS_TOOL_NAME, createCheckQuotasTool } from "./tools/check-quotas";
 
 /**
  * Extended message type with additional fields that may be present at runtime.
@@ -48,6 +54,14 @@ type TextPart = {
     metadata?: Record<string, unknown>;
 };
 
+// Types for third-party provider modules
+export type {
+    IQuotaProvider,
+    ModuleProviderConfig,
+    QuotaData,
+    QuotaProviderFactory,
+} from "./interfaces";
+
 /**
  * QuotaHub Plugin for OpenCode.ai
  */
@@ -75,7 +89,8 @@ export const QuotaHubPlugin: Plugin = async ({
             let lastError: unknown;
             for (let attempt = 1; attempt <= MAX_INIT_RETRIES; attempt++) {
                 try {
-                    await historyService.init();
+                    // Read-only until the cache takes the poller lock; see QuotaCacheOptions.lock
+                    await historyService.reload();
                     await quotaService.init(directory, historyService);
 
                     const config = quotaService.getConfig();
@@ -84,12 +99,17 @@ export const QuotaHubPlugin: Plugin = async ({
                         ids: providers.map((p) => p.id),
                         count: providers.length,
                     });
+                    const refreshIntervalMs = config.pollingInterval ?? 60_000;
                     quotaCache = new QuotaCache(providers, {
-                        refreshIntervalMs: config.pollingInterval ?? 60_000,
+                        refreshIntervalMs,
+                        providerIntervals: quotaService.getRefreshIntervals(),
+                        snapshotPath: SNAPSHOT_FILE(),
+                        // One OpenCode process polls; the others read its snapshot
+                        lock: new PollerLock(POLLER_LOCK_FILE(), { staleMs: 3 * refreshIntervalMs }),
                         historyService,
                         debug: !!config.debug,
                     });
-                    quotaCache.start();
+                    await quotaCache.start();
                     logger.debug("init:complete");
                     return; // Success
                 } catch (e) {
@@ -138,6 +158,7 @@ export const QuotaHubPlugin: Plugin = async ({
         config: ReturnType<typeof quotaService.getConfig>,
         cache: QuotaCache,
         debugLog: (msg: string, data?: any) => void,
+        options: { showAll?: boolean } = {},
     ): { text: string; lineCount: number } | null => {
         const snapshot = cache.getSnapshot();
         const rawResults: QuotaData[] = snapshot.data;
@@ -157,6 +178,7 @@ export const QuotaHubPlugin: Plugin = async ({
         const filteredResults = quotaService.processQuotas(rawResults, {
             providerId: assistantMsg.providerID,
             modelId: assistantMsg.modelID,
+            showAll: options.showAll,
         });
 
         debugLog("quotas:processed", {
@@ -174,9 +196,18 @@ export const QuotaHubPlugin: Plugin = async ({
             return null;
         }
 
+        // Providers that never succeeded are usually just not set up, so the footer
+        // only reports failures of providers that used to work (or everything on /quotas)
+        const providerStatuses = options.showAll
+            ? snapshot.providers
+            : snapshot.providers.filter((s) => s.lastSuccessAt !== undefined);
+
         const lines = renderQuotaTable(filteredResults, {
             progressBarConfig: config.progressBar,
             tableConfig: config.table,
+            displayMode: options.showAll ? "detailed" : config.displayMode,
+            providerStatuses,
+            staleAfterMs: (config.staleAfterMinutes ?? 10) * 60_000,
         }).map((l) => l.line);
 
         const showMode = config.progressBar?.show ?? "used";
@@ -192,6 +223,50 @@ export const QuotaHubPlugin: Plugin = async ({
     };
 
     const hooks: Hooks = {
+        /**
+         * Tools exposed to the agent so it can inspect quota state on its own.
+         */
+        tool: {
+            [CHECK_QUOTAS_TOOL_NAME]: createCheckQuotasTool({
+                quotaService,
+                getCache: async () => {
+                    await ensureInit().catch((e) => {
+                        logger.error("init:error", { error: e });
+                    });
+                    return quotaCache;
+                },
+            }),
+        },
+
+        /**
+         * Registers the /quotas slash command.
+         */
+        config: async (input) => {
+            input.command = input.command ?? {};
+            if (!input.command[QUOTAS_COMMAND_NAME]) {
+                input.command[QUOTAS_COMMAND_NAME] = {
+                    template: QUOTAS_COMMAND_TEMPLATE,
+                    description: QUOTAS_COMMAND_DESCRIPTION,
+                };
+            }
+        },
+
+        /**
+         * Detects the expanded /quotas template and flags the session so the
+         * next final response carries the full quota table.
+         */
+        "chat.message": async (input, output) => {
+            const isQuotasCommand = output.parts.some(
+                (p) => p.type === "text" && p.text.trim() === QUOTAS_COMMAND_TEMPLATE,
+            );
+            if (!isQuotasCommand) return;
+
+            state.requestFullTable(input.sessionID);
+            logger.debug("command:quotas_requested", {
+                sessionID: input.sessionID,
+            });
+        },
+
         /**
          * The platform calls this hook after a text generation is complete.
          * We inject the quota footer directly into output.text for final assistant messages.
@@ -223,73 +298,94 @@ export const QuotaHubPlugin: Plugin = async ({
             const config = quotaService.getConfig();
             const debugLog = makeDebugLog(config);
 
-            if (config.footer === false) {
+            // A pending /quotas request renders the full table even when the
+            // footer is disabled or hidden, and bypasses the once-per-message guards.
+            const fullTableRequested = state.hasFullTableRequest(input.sessionID);
+
+            if (!fullTableRequested && config.footer === false) {
                 debugLog("skip:footer_disabled", {
                     messageID: input.messageID,
                 });
                 return;
             }
 
+            // Hidden mode only suppresses rendering; QuotaCache keeps polling
+            // and feeding history in the background.
+            if (!fullTableRequested && config.displayMode === "hidden") {
+                debugLog("skip:display_hidden", {
+                    messageID: input.messageID,
+                });
+                return;
+            }
+
             // Log hook invocation
             debugLog("hook:experimental.text.complete", {
                 input,
                 processed: state.isProcessed(input.messageID),
                 pending: state.isPending(input.messageID),
+                fullTableRequested,
             });
 
-            // Fast path check
-            if (state.isProcessed(input.messageID)) {
-                debugLog("skip:already_processed", {
-                    messageID: input.messageID,
-                });
-                return;
-            }
-
-            if (state.isPending(input.messageID)) {
-                debugLog("skip:already_pending", {
-                    messageID: input.messageID,
-                });
-                return;
-            }
-
-            // Secondary safeguard: check if footer already present
-            if (output.text.includes(PLUGIN_FOOTER_SIGNATURE)) {
-                debugLog(SKIP_REASONS.FOOTER_PRESENT, {
-                    messageID: input.messageID,
-                });
-                state.markProcessed(input.messageID);
-                return;
-            }
-
-            debugLog("lock:acquire_start", { messageID: input.messageID });
-            // Acquire lock for this message
-            const release = await state.acquireLock(input.messageID);
-            debugLog("lock:acquired", { messageID: input.messageID });
-
-            try {
-                // After acquiring lock, re-check if processed
+            if (!fullTableRequested) {
+                // Fast path check
                 if (state.isProcessed(input.messageID)) {
-                    debugLog("skip:already_processed_after_lock", {
+                    debugLog("skip:already_processed", {
                         messageID: input.messageID,
                     });
                     return;
                 }
 
                 if (state.isPending(input.messageID)) {
-                    debugLog("skip:already_pending_after_lock", {
+                    debugLog("skip:already_pending", {
                         messageID: input.messageID,
                     });
                     return;
                 }
 
-                // Double-check text content in case another process injected it while we waited for lock
+                // Secondary safeguard: check if footer already present
                 if (output.text.includes(PLUGIN_FOOTER_SIGNATURE)) {
-                    debugLog("skip:footer_present_after_lock", {
+                    debugLog(SKIP_REASONS.FOOTER_PRESENT, {
                         messageID: input.messageID,
                     });
                     state.markProcessed(input.messageID);
                     return;
                 }
+            }
+
+            debugLog("lock:acquire_start", { messageID: input.messageID });
+            // Acquire lock for this message
+            const release = await state.acquireLock(input.messageID);
+            debugLog("lock:acquired", { messageID: input.messageID });
+
+            try {
+                // A concurrent call may have consumed the /quotas request while we waited
+                const showAll = state.hasFullTableRequest(input.sessionID);
+
+                if (!showAll) {
+                    // After acquiring lock, re-check if processed
+                    if (state.isProcessed(input.messageID)) {
+                        debugLog("skip:already_processed_after_lock", {
+                            messageID: input.messageID,
+                        });
+                        return;
+                    }
+
+                    if (state.isPending(input.messageID)) {
+                        debugLog("skip:already_pending_after_lock", {
+                            messageID: input.messageID,
+                        });
+                        return;
+                    }
+
+                    // Double-check text content in case another process injected it while we waited for lock
+                    if (output.text.includes(PLUGIN_FOOTER_SIGNATURE)) {
+                        debugLog("skip:footer_present_after_lock", {
+                            messageID: input.messageID,
+                        });
+                        state.markProcessed(input.messageID);
+                        return;
+                    }
+                }
 
                 // Fetch message to verify role and parts
                 const { data: result } = await client.session.message({
@@ -373,8 +469,13 @@ export const QuotaHubPlugin: Plugin = async ({
                     config,
                     cache,
                     debugLog,
+                    { showAll },
                 );
 
+                if (showAll) {
+                    state.clearFullTableRequest(input.sessionID);
+                }
+
                 if (!footer) {
                     state.markProcessed(input.messageID);
                     return;
@@ -386,6 +487,7 @@ export const QuotaHubPlugin: Plugin = async ({
                 debugLog("inject:footer_inline", {
                     messageID: input.messageID,
                     lines: footer.lineCount,
+                    showAll,
                 });
             } finally {
                 debugLog("lock:release", { messageID: input.messageID });
@@ -5,8 +5,16 @@ export interface QuotaData {
     limit: number | null;
     unit: string;
 
+    /**
+     * Absolute reset instant (epoch ms). Preferred over `reset` because the
+     * relative text is computed at render time and never goes stale.
+     */
+    resetAt?: number;
+
     /**
      * Reset time description (e.g. "in 2h 41m" or "at 12:00").
+     * Legacy pre-formatted form, still honored for third-party providers
+     * that do not supply `resetAt`.
      */
     reset?: string;
 
@@ -15,11 +23,40 @@ export interface QuotaData {
      */
     predictedReset?: string;
 
+    /**
+     * Predicted milliseconds until the limit is reached, measured when the
+     * quota was processed. Absent when usage is stable or unpredictable.
+     */
+    timeToLimitMs?: number;
+
+    /**
+     * Range and confidence of the prediction behind `timeToLimitMs`.
+     */
+    prediction?: TimeToLimitPrediction;
+
+    /**
+     * Usage per hour behind the prediction (set by QuotaService). Absent when
+     * there is not enough history.
+     */
+    burnRate?: BurnRate;
+
+    /**
+     * Recent usage sampled into equal time buckets, oldest first, for the
+     * trend column (set by QuotaService from history). `null` marks buckets
+     * before the first recorded sample.
+     */
+    usageTrend?: (number | null)[];
+
     /**
      * Window or period description (e.g. "5h window" or "Monthly").
      */
     window?: string;
 
+    /**
+     * Length of the rate-limit window in milliseconds (e.g. 5h = 18_000_000).
+     */
+    windowMs?: number;
+
     /**
      * Extra information or alerts (e.g. "!!" or "unlimited").
      */
@@ -29,6 +66,48 @@ export interface QuotaData {
      * @deprecated Use reset, window, info instead.
      */
     details?: string;
+
+    /**
+     * Source quotas an aggregated group was built from (set by QuotaService).
+     */
+    sources?: QuotaData[];
+
+    /**
+     * Account label (e.g. an email) for providers that report several accounts.
+     * Such quotas carry an `@<account>` suffix on their ID.
+     */
+    account?: string;
+
+    /**
+     * Account with the most remaining capacity for the same quota. Set by
+     * QuotaService when this account's quota is exhausted.
+     */
+    recommendation?: AccountRecommendation;
+
+    /**
+     * True when the provider's last refresh failed and this is its last good value
+     * (set by QuotaCache).
+     */
+    stale?: boolean;
+
+    /**
+     * When the provider last returned this value (epoch ms, set by QuotaCache).
+     */
+    fetchedAt?: number;
+}
+
+export interface AccountRecommendation {
+    /**
+     * Quota ID without account suffix, shared by every account (e.g. "ag-flash").
+     */
+    familyId: string;
+    /**
+     * Display name of the recommended quota.
+     */
+    name: string;
+    account: string;
+    quotaId: string;
+    remainingPercent: number;
 }
 
 export type QuotaColumn =
@@ -40,21 +119,38 @@ export type QuotaColumn =
     | "window"
     | "info"
     | "status"
-    | "ettl";
+    | "ettl"
+    | "trend"
+    | "rate"
+    | "pace";
 
 export interface QuotaConfig {
+    /**
+     * "simple" renders a compact table, "detailed" renders every column plus
+     * the source quotas behind each aggregated group, and "hidden" suppresses
+     * the footer while polling and history keep running. Defaults to "simple".
+     */
     displayMode: QuotaDisplayMode;
     progressBar?: ProgressBarConfig;
     table?: {
         /**
-         * Columns to display in the quota table.
-         * Defaults to a smart selection based on data.
+         * Columns to display in the quota table in simple mode.
+         * Defaults to a smart selection based on data. Detailed mode always shows every column.
          */
         columns?: QuotaColumn[];
         /**
          * Whether to render the table header row (column labels)
          */
         header?: boolean;
+        /**
+         * How much recent history the trend column covers, in minutes.
+         * Defaults to 60.
+         */
+        trendWindowMinutes?: number;
+        /**
+         * Number of characters in the trend column's sparkline. Defaults to 10.
+         */
+        trendWidth?: number;
     };
     /**
      * Whether to show quotas in the chat footer automatically.
@@ -79,6 +175,11 @@ export interface QuotaConfig {
      */
     debug?: boolean;
     enableExperimentalGithub?: boolean;
+    /**
+     * Fetch Antigravity quotas for every account in antigravity-accounts.json
+     * instead of only the active one. Defaults to false.
+     */
+    antigravityAllAccounts?: boolean;
     /**
      * Optional aggregation groups.
      */
@@ -87,10 +188,25 @@ export interface QuotaConfig {
      * Max history age in hours. Defaults to 24.
      */
     historyMaxAgeHours?: number;
+    /**
+     * Downsampled history kept beyond `historyMaxAgeHours`, e.g. 5-minute buckets for 7 days
+     * and hourly buckets for 60 days (the default).
+     */
+    historyTiers?: HistoryTier[];
     /**
      * Polling interval in milliseconds. Defaults to 60000 (1 minute).
      */
     pollingInterval?: number;
+    /**
+     * Refresh intervals in milliseconds keyed by provider ID (e.g. "codex").
+     * Providers without an entry use `pollingInterval`.
+     */
+    refreshIntervals?: Record<string, number>;
+    /**
+     * Footer rows whose data is older than this many minutes are marked with their age.
+     * Defaults to 10.
+     */
+    staleAfterMinutes?: number;
     /**
      * Short time window for regression to capture spikes (minutes). Defaults to 5.
      */
@@ -99,6 +215,11 @@ export interface QuotaConfig {
      * Time window for regression analysis (minutes). Defaults to 60.
      */
     predictionWindowMinutes?: number;
+    /**
+     * How ETTL and burn rates are estimated from history. Defaults to "linear".
+     * Can be overridden per aggregated group.
+     */
+    predictionEngine?: PredictionEngineType;
     /**
      * Whether to show quotas that did not match any aggregation group.
      * Defaults to false.
@@ -109,8 +230,149 @@ export interface QuotaConfig {
      * Defaults to 20.
      */
     historyResetThreshold?: number;
+    /**
+     * Additional providers configured entirely from quotas.json.
+     */
+    providers?: ProviderConfig[];
+}
+
+/**
+ * A value that is either a literal or a JSONPath-style selector (starting with `$`)
+ * evaluated against the provider response.
+ */
+export type FieldSelector = string | number;
+
+/**
+ * Maps a JSON response onto QuotaData fields.
+ */
+export interface HttpQuotaFields {
+    /**
+     * Quota ID suffix; the final ID is `<provider id>-<value>`.
+     * Defaults to the provider ID (or `<provider id>-<index>` for multiple items).
+     */
+    id?: FieldSelector;
+    /**
+     * Display name. Defaults to the provider name followed by the raw ID value.
+     */
+    name?: FieldSelector;
+    used: FieldSelector;
+    limit?: FieldSelector;
+    unit?: FieldSelector;
+    /**
+     * Reset instant as epoch seconds, epoch milliseconds or an ISO date string.
+     */
+    resetAt?: FieldSelector;
+    /**
+     * Window length in seconds, or a window description such as "Monthly".
+     */
+    window?: FieldSelector;
+}
+
+export interface HttpProviderConfig {
+    type: "http";
+    /**
+     * Provider ID, also used as the quota ID prefix.
+     */
+    id: string;
+    /**
+     * Display name. Defaults to the ID.
+     */
+    name?: string;
+    /**
+     * Request URL. Supports `{env:VAR}` and `{auth:providerID}` interpolation.
+     */
+    url: string;
+    method?: string;
+    /**
+     * Request headers. Values support `{env:VAR}` and `{auth:providerID}` interpolation.
+     */
+    headers?: Record<string, string>;
+    /**
+     * Optional request body; objects are sent as JSON.
+     */
+    body?: string | Record<string, unknown>;
+    /**
+     * Request timeout in milliseconds. Defaults to 15000.
+     */
+    timeoutMs?: number;
+    /**
+     * Selector for an array of quota items. When omitted, the whole response is one quota.
+     */
+    items?: string;
+    fields: HttpQuotaFields;
+    /**
+     * Refresh interval for this provider in milliseconds. Defaults to `pollingInterval`.
+     */
+    refreshIntervalMs?: number;
+}
+
+export interface CommandProviderConfig {
+    type: "command";
+    /**
+     * Provider ID, also the default quota ID.
+     */
+    id: string;
+    /**
+     * Default display name. Defaults to the ID.
+     */
+    name?: string;
+    /**
+     * Executable to run. It is not passed through a shell.
+     */
+    command: string;
+    /**
+     * Arguments. Support `{env:VAR}` and `{auth:providerID}` interpolation.
+     */
+    args?: string[];
+    /**
+     * Extra environment variables. Values support `{env:VAR}` and `{auth:providerID}` interpolation.
+     */
+    env?: Record<string, string>;
+    cwd?: string;
+    /**
+     * Kill the command after this many milliseconds. Defaults to 15000.
+     */
+    timeoutMs?: number;
+    /**
+     * Refresh interval for this provider in milliseconds. Defaults to `pollingInterval`.
+     */
+    refreshIntervalMs?: number;
+}
+
+/**
+ * A third-party provider loaded from an npm package or a file.
+ * In quotas.json a plain string entry is shorthand for `{ "module": "<specifier>" }`.
+ */
+export interface ModuleProviderConfig {
+    type: "module";
+    /**
+     * npm package name, or a path relative to the quotas.json that lists it.
+     */
+    module: string;
+    /**
+     * Optional label used in logs and error reports.
+     */
+    id?: string;
+    /**
+     * Refresh interval for the module's providers in milliseconds. Defaults to `pollingInterval`.
+     */
+    refreshIntervalMs?: number;
+    /**
+     * Any other keys are passed through to the module's factory.
+     */
+    [key: string]: unknown;
 }
 
+export type ProviderConfig = HttpProviderConfig | CommandProviderConfig | ModuleProviderConfig;
+
+/**
+ * Factory exported by a provider module (as the default export or as `createProvider`).
+ * It receives the module's own entry from `providers`.
+ */
+export type QuotaProviderFactory = (
+    config: ModuleProviderConfig,
+) => IQuotaProvider | IQuotaProvider[] | Promise<IQuotaProvider | IQuotaProvider[]>;
+
 export type AggregationStrategy =
     | "most_critical" // Predicted time-to-limit (requires history)
     | "min" // Lowest percentage used
@@ -155,6 +417,11 @@ export interface AggregatedGroup {
      * Short time window for spikes (default: 5 minutes).
      */
     predictionShortWindowMinutes?: number;
+    /**
+     * Prediction engine for the ETTL and burn rate of this group and its sources.
+     * Defaults to the global `predictionEngine`.
+     */
+    predictionEngine?: PredictionEngineType;
 }
 
 export interface HistoryPoint {
@@ -163,25 +430,198 @@ export interface HistoryPoint {
     limit: number | null;
 }
 
+/**
+ * A history point together with the quota it belongs to, as exported and imported by the CLI.
+ */
+export interface QuotaHistoryPoint extends HistoryPoint {
+    quotaId: string;
+}
+
+/**
+ * A detected quota reset: usage dropped sharply, so the history of the previous window was cleared.
+ */
+export interface ResetEvent {
+    quotaId: string;
+    /**
+     * When the reset was detected (epoch ms).
+     */
+    timestamp: number;
+    /**
+     * Last recorded usage before the reset.
+     */
+    usedBefore: number;
+    /**
+     * First usage recorded after the reset.
+     */
+    usedAfter: number;
+    /**
+     * Highest usage recorded in the window that ended with the reset.
+     */
+    peakUsed: number;
+    limit: number | null;
+}
+
+/**
+ * A downsampled history tier: one point (the last sample) per bucket of
+ * `resolutionMinutes`, kept for `maxAgeDays`.
+ */
+export interface HistoryTier {
+    resolutionMinutes: number;
+    maxAgeDays: number;
+}
+
 export interface IHistoryService {
     init(): Promise<void>;
+    /**
+     * Re-reads history written by another process (the one holding the poller lock).
+     */
+    reload(): Promise<void>;
     append(snapshot: QuotaData[]): Promise<void>;
+    /**
+     * Returns the points within `windowMs`: raw points when the window fits the raw retention,
+     * otherwise the finest downsampled tier covering the window.
+     */
     getHistory(quotaId: string, windowMs: number): HistoryPoint[];
+    /**
+     * Returns detected resets, oldest first, optionally for one quota and within `windowMs`.
+     */
+    getResetEvents(quotaId?: string, windowMs?: number): ResetEvent[];
     setMaxAge(hours: number): void;
+    setTiers(tiers: HistoryTier[]): void;
     setResetThreshold(percent: number): void;
     pruneAll(): Promise<void>;
 }
 
 export interface IQuotaProvider {
     id: string;
+    /**
+     * Display name used for provider-level messages (e.g. "Codex"). Defaults to the ID.
+     */
+    name?: string;
+    /**
+     * What to do when authentication fails, e.g. "run opencode auth login".
+     * Providers without one get a generic message.
+     */
+    authHint?: string;
     fetchQuota(): Promise<QuotaData[]>;
 }
 
+/**
+ * Outcome of a provider's latest refresh:
+ * - `ok`: the last refresh succeeded
+ * - `stale`: the last refresh failed transiently; last good quotas are still served
+ * - `auth_error`: credentials are missing, expired or rejected and need user action
+ * - `network_error`: the provider could not be reached and no quotas are available
+ * - `parse_error`: the provider answered with data that could not be read
+ */
+export type ProviderStatusKind = "ok" | "stale" | "auth_error" | "network_error" | "parse_error";
+
+export interface ProviderStatus {
+    providerId: string;
+    providerName: string;
+    status: ProviderStatusKind;
+    /**
+     * Error message of the last failed refresh.
+     */
+    message?: string;
+    /**
+     * Epoch ms of the last successful refresh.
+     */
+    lastSuccessAt?: number;
+    /**
+     * The provider's `authHint`, for `auth_error` statuses.
+     */
+    authHint?: string;
+}
+
 export interface IQuotaRegistry {
     register(provider: IQuotaProvider): void;
     getAll(): IQuotaProvider[];
 }
 
+/**
+ * Quota metadata passed to prediction engines alongside the quota ID.
+ */
+export interface PredictionContext {
+    /**
+     * Legacy window description, used when `windowMs` is not available.
+     */
+    windowInfo?: string;
+    /**
+     * Length of the quota window in milliseconds.
+     */
+    windowMs?: number;
+    /**
+     * Instant the quota resets (epoch ms). Predictions past it do not hit the limit.
+     */
+    resetAt?: number;
+}
+
+/**
+ * Time-to-limit prediction with the range implied by the uncertainty of the fitted rate.
+ */
+export interface TimeToLimitPrediction {
+    /**
+     * Most likely milliseconds until the limit, whether or not the quota resets first.
+     */
+    expectedMs: number;
+    /**
+     * Milliseconds until the limit at the low end of the rate's 95% interval.
+     * Infinity when usage might not be growing at all.
+     */
+    optimisticMs: number;
+    /**
+     * Milliseconds until the limit at the high end of the rate's 95% interval.
+     */
+    pessimisticMs: number;
+    /**
+     * How far the prediction can be trusted, from 0 to 1. Derived from the
+     * regression's residuals and the number of points it was fitted on.
+     */
+    confidence: number;
+    /**
+     * The quota resets before `expectedMs`, so the limit is not reached in this window.
+     */
+    resetsFirst?: boolean;
+    /**
+     * Milliseconds between the expected exhaustion and the reset, i.e. how long the
+     * quota stays blocked. Only set when the reset instant is known and comes later.
+     */
+    blockedMs?: number;
+}
+
+/**
+ * Usage rate of a quota in its own unit per hour (e.g. 12 for "+12%/h").
+ */
+export interface BurnRate {
+    /**
+     * Slope of the long regression window.
+     */
+    perHour: number;
+    /**
+     * Slope of the short spike-detection window. Absent for long-term quotas,
+     * which skip spike detection.
+     */
+    shortPerHour?: number;
+    shortWindowMinutes?: number;
+}
+
+/**
+ * Usage of a windowed quota compared with spending it evenly over the window.
+ */
+export interface QuotaPace {
+    /**
+     * Fraction of the window that has elapsed, from 0 to 1. Usage on pace is at
+     * this fraction of the limit.
+     */
+    elapsedRatio: number;
+    /**
+     * Used fraction minus elapsed fraction, e.g. 0.18 when usage is 18 points
+     * ahead of pace and -0.1 when it is 10 points under.
+     */
+    delta: number;
+}
+
 /**
  * Interface for prediction engines that calculate time-to-limit.
  */
@@ -192,13 +632,37 @@ export interface IPredictionEngine {
      * @param windowMinutes - The long time window for regression (default: 60)
      * @param shortWindowMinutes - The short time window for capturing spikes
      * @returns Time to limit in milliseconds, or Infinity if usage is stable/decreasing
+     * or the quota resets first (`context.resetAt`)
      */
     predictTimeToLimit(
         quotaId: string,
         windowMinutes?: number,
         shortWindowMinutes?: number,
-        context?: { windowInfo?: string }
+        context?: PredictionContext
     ): number;
+
+    /**
+     * Same prediction as `predictTimeToLimit`, with its optimistic and pessimistic
+     * bounds, a confidence score and how it relates to the reset.
+     * @returns The prediction, or null when usage is stable, decreasing, idle or unpredictable
+     */
+    predictTimeToLimitRange(
+        quotaId: string,
+        windowMinutes?: number,
+        shortWindowMinutes?: number,
+        context?: PredictionContext
+    ): TimeToLimitPrediction | null;
+
+    /**
+     * Current usage rate from the same regressions that drive `predictTimeToLimit`.
+     * @returns Usage per hour, or null when there is not enough history
+     */
+    predictBurnRate(
+        quotaId: string,
+        windowMinutes?: number,
+        shortWindowMinutes?: number,
+        context?: PredictionContext
+    ): BurnRate | null;
 }
 
 /**
@@ -219,6 +683,11 @@ export interface IAggregationService {
      */
     aggregateMax(quotas: QuotaData[]): QuotaData;
 
+    /**
+     * For every quota shared by several accounts, picks the account with the most remaining capacity.
+     */
+    recommendAccounts(quotas: QuotaData[]): AccountRecommendation[];
+
     /**
      * Aggregates quotas by selecting the one with lowest usage ratio.
      */
@@ -237,6 +706,13 @@ export interface IAggregationService {
 
 export type QuotaDisplayMode = "simple" | "detailed" | "hidden";
 
+/**
+ * "linear" fits dual-window linear regressions and uses the steeper slope,
+ * "ewma" exponentially smooths the usage rate, and "holt" smooths both the
+ * usage level and its trend (double exponential smoothing).
+ */
+export type PredictionEngineType = "linear" | "ewma" | "holt";
+
 export type AnsiColor =
     | "red"
     | "green"
@@ -259,6 +735,11 @@ export interface ProgressBarConfig {
     width?: number;
     filledChar?: string;
     emptyChar?: string;
+    /**
+     * Character marking where usage would be on pace, for quotas with a known
+     * window and reset. Defaults to "│"; an empty string hides the marker.
+     */
+    paceChar?: string;
     show?: "used" | "available";
     /**
      * Enable ANSI colors. Defaults to false.
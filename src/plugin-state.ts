@@ -21,6 +21,7 @@ export class PluginState {
     private processedSet = new Set<string>();
     private locks = new Map<string, Promise<void>>();
     private pendingInjections = new Map<string, PendingInjection>();
+    private fullTableRequests = new Map<string, number>();
 
     isProcessed(messageId: string): boolean {
         return this.processedSet.has(messageId);
@@ -57,6 +58,22 @@ export class PluginState {
         }
     }
 
+    /**
+     * Records that the next final response in this session should carry the
+     * full quota table (via the /quotas command), regardless of footer guards.
+     */
+    requestFullTable(sessionID: string): void {
+        this.fullTableRequests.set(sessionID, Date.now());
+    }
+
+    hasFullTableRequest(sessionID: string): boolean {
+        return this.fullTableRequests.has(sessionID);
+    }
+
+    clearFullTableRequest(sessionID: string): void {
+        this.fullTableRequests.delete(sessionID);
+    }
+
     markProcessed(messageId: string): void {
         if (this.processedSet.has(messageId)) return;
 
@@ -0,0 +1,141 @@
+import { mkdir, readFile, stat, unlink, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { randomUUID } from "node:crypto";
+
+import { logger } from "./logger";
+
+type LockInfo = {
+    pid: number;
+    token: string;
+    heartbeatAt: number;
+};
+
+type PollerLockOptions = {
+    /**
+     * A lock whose heartbeat is older than this is considered abandoned. Defaults to 3 minutes.
+     */
+    staleMs: number;
+};
+
+const DEFAULT_OPTIONS: PollerLockOptions = {
+    staleMs: 3 * 60_000,
+};
+
+function isProcessAlive(pid: number): boolean {
+    try {
+        process.kill(pid, 0);
+        return true;
+    } catch (e) {
+        // EPERM means the process exists but belongs to another user
+        return (e as NodeJS.ErrnoException).code === "EPERM";
+    }
+}
+
+/**
+ * Lockfile-based leader election between OpenCode processes sharing a data directory.
+ * The holder renews its heartbeat on every acquire(); others take the lock over once
+ * the holder's process is gone or its heartbeat is older than `staleMs`.
+ *
+ * Takeover is not fully atomic: if two processes take over an abandoned lock at the same
+ * time, the one whose token is no longer in the file steps down on its next acquire().
+ */
+export class PollerLock {
+    private readonly path: string;
+    private readonly options: PollerLockOptions;
+    private readonly token: string;
+    private held: boolean;
+
+    public constructor(path: string, options?: Partial<PollerLockOptions>) {
+        this.path = path;
+        this.options = { ...DEFAULT_OPTIONS, ...(options ?? {}) };
+        this.token = randomUUID();
+        this.held = false;
+    }
+
+    public isHeld(): boolean {
+        return this.held;
+    }
+
+    /**
+     * Acquires the lock, or renews it if already held. Returns whether this instance is the leader.
+     */
+    public async acquire(): Promise<boolean> {
+        if (this.held) {
+            const current = await this.read();
+            if (current?.token === this.token) {
+                await this.write("w");
+                return true;
+            }
+            logger.debug("poller-lock:lost", { path: this.path, holder: current?.pid });
+            this.held = false;
+            return false;
+        }
+
+        if (await this.tryCreate()) return true;
+
+        const current = await this.read();
+        if (current && isProcessAlive(current.pid) && Date.now() - current.heartbeatAt <= this.options.staleMs) {
+            return false;
+        }
+        // An unreadable lock may just be mid-write by its holder; only recently modified ones get that benefit
+        if (!current && await this.modifiedWithin(this.options.staleMs)) {
+            return false;
+        }
+
+        logger.debug("poller-lock:takeover", { path: this.path, previous: current?.pid });
+        await unlink(this.path).catch(() => undefined);
+        return this.tryCreate();
+    }
+
+    /**
+     * Releases the lock if this instance holds it.
+     */
+    public async release(): Promise<void> {
+        if (!this.held) return;
+        this.held = false;
+
+        const current = await this.read();
+        if (current?.token !== this.token) return;
+        await unlink(this.path).catch((e) => {
+            logger.error("poller-lock:release_failed", { path: this.path, error: e });
+        });
+    }
+
+    private async tryCreate(): Promise<boolean> {
+        try {
+            await mkdir(dirname(this.path), { recursive: true });
+            await this.write("wx");
+            this.held = true;
+            logger.debug("poller-lock:acquired", { path: this.path, pid: process.pid });
+            return true;
+        } catch (e) {
+            if ((e as NodeJS.ErrnoException).code !== "EEXIST") {
+                logger.error("poller-lock:acquire_failed", { path: this.path, error: e });
+            }
+            return false;
+        }
+    }
+
+    private async write(flag: "w" | "wx"): Promise<void> {
+        const info: LockInfo = { pid: process.pid, token: this.token, heartbeatAt: Date.now() };
+        await writeFile(this.path, JSON.stringify(info), { encoding: "utf-8", flag });
+    }
+
+    private async modifiedWithin(ms: number): Promise<boolean> {
+        try {
+            return Date.now() - (await stat(this.path)).mtimeMs <= ms;
+        } catch {
+            return false;
+        }
+    }
+
+    private async read(): Promise<LockInfo | null> {
+        try {
+            const parsed = JSON.parse(await readFile(this.path, "utf-8")) as Partial<LockInfo>;
+            if (typeof parsed.pid !== "number" || typeof parsed.token !== "string") return null;
+            return { pid: parsed.pid, token: parsed.token, heartbeatAt: Number(parsed.heartbeatAt) || 0 };
+        } catch {
+            return null;
+        }
+    }
+}
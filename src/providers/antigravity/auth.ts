@@ -47,7 +47,8 @@ interface CachedCredential extends CloudAuthCredentials {
   expiresAt: number;
 }
 
-let cachedCredential: CachedCredential | null = null;
+// Keyed by account email so each stored account keeps its own token
+const cachedCredentials = new Map<string, CachedCredential>();
 
 function getAccountsFilePath(): string {
   return ANTIGRAVITY_ACCOUNTS_FILE();
@@ -116,48 +117,73 @@ async function refreshAccessToken(refreshToken: string): Promise<{ accessToken:
   };
 }
 
-export async function getCloudCredentials(): Promise<CloudAuthCredentials> {
-  const accountsFile = await loadAccounts();
-  const activeAccount =
-    accountsFile.accounts[accountsFile.activeIndex] ?? accountsFile.accounts[0];
-
-  if (!activeAccount) {
-    throw new Error("No active account found in antigravity-accounts.json");
-  }
-
+async function getAccountCredentials(account: StoredAccount): Promise<CloudAuthCredentials> {
   // Check cache (5 min buffer)
   const fiveMinutesInMs = 5 * 60 * 1000;
-  if (
-    cachedCredential &&
-    cachedCredential.email === activeAccount.email &&
-    cachedCredential.expiresAt > Date.now() + fiveMinutesInMs
-  ) {
+  const cached = cachedCredentials.get(account.email);
+  if (cached && cached.expiresAt > Date.now() + fiveMinutesInMs) {
     return {
-      accessToken: cachedCredential.accessToken,
-      projectId: cachedCredential.projectId,
-      email: cachedCredential.email,
+      accessToken: cached.accessToken,
+      projectId: cached.projectId,
+      email: cached.email,
     };
   }
 
-  const { accessToken, expiresAt } = await refreshAccessToken(activeAccount.refreshToken);
-  
-  cachedCredential = {
+  const { accessToken, expiresAt } = await refreshAccessToken(account.refreshToken);
+
+  cachedCredentials.set(account.email, {
     accessToken,
-    projectId: activeAccount.projectId,
-    email: activeAccount.email,
+    projectId: account.projectId,
+    email: account.email,
     expiresAt,
-  };
+  });
 
   return {
     accessToken,
-    projectId: activeAccount.projectId,
-    email: activeAccount.email,
+    projectId: account.projectId,
+    email: account.email,
   };
 }
 
+export async function getCloudCredentials(): Promise<CloudAuthCredentials> {
+  const accountsFile = await loadAccounts();
+  const activeAccount =
+    accountsFile.accounts[accountsFile.activeIndex] ?? accountsFile.accounts[0];
+
+  if (!activeAccount) {
+    throw new Error("No active account found in antigravity-accounts.json");
+  }
+
+  return getAccountCredentials(activeAccount);
+}
+
+export interface AccountCredentialsResult {
+  email: string;
+  credentials?: CloudAuthCredentials;
+  error?: unknown;
+}
+
+/**
+ * Returns credentials for every stored account, refreshed in parallel.
+ * A failed refresh is reported per account so the other accounts still work.
+ */
+export async function getAllCloudCredentials(): Promise<AccountCredentialsResult[]> {
+  const accountsFile = await loadAccounts();
+
+  return Promise.all(
+    accountsFile.accounts.map(async (account): Promise<AccountCredentialsResult> => {
+      try {
+        return { email: account.email, credentials: await getAccountCredentials(account) };
+      } catch (error) {
+        return { email: account.email, error };
+      }
+    }),
+  );
+}
+
 /**
  * Reset the credential cache. Internal use only (primarily for tests).
  */
 export function resetCredentialCache(): void {
-    cachedCredential = null;
+    cachedCredentials.clear();
 }
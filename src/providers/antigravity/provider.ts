@@ -1,6 +1,6 @@
-import { formatRelativeTime } from "../../utils/time";
-import { getCloudCredentials } from "./auth";
+import { getAllCloudCredentials, getCloudCredentials } from "./auth";
 import { type IQuotaProvider, type QuotaData } from "../../interfaces";
+import { accountIdSuffix } from "../../utils/accounts";
 import { logger } from "../../logger";
 
 const CLOUDCODE_ENDPOINTS = [
@@ -25,6 +25,10 @@ export interface QuotaIndicator {
 export interface AntigravityConfig {
     indicators?: QuotaIndicator[];
     debug?: boolean;
+    /**
+     * Fetch quotas for every stored Google account instead of only the active one.
+     */
+    allAccounts?: boolean;
 }
 
 interface CloudQuotaInfo {
@@ -240,6 +244,106 @@ export async function fetchCloudQuota(
     };
 }
 
+/**
+ * Converts the models of a cloud quota result into flat, raw quota entries.
+ * When `account` is given, IDs get an account suffix and entries carry the account label.
+ */
+export function mapCloudModels(
+    models: ModelConfig[],
+    config: AntigravityConfig = {},
+    account?: string,
+): QuotaData[] {
+    const entries: QuotaData[] = [];
+
+    for (const model of models) {
+        if (
+            !model.quotaInfo ||
+            typeof model.quotaInfo.remainingFraction !== "number"
+        ) {
+            continue;
+        }
+
+        const label = model.label || model.modelName || "";
+
+        // Filter out internal/miscellaneous quotas (e.g. "chat 12345", "rev123")
+        const lowerLabel = label.toLowerCase();
+        if (/^chat \d+/.test(lowerLabel) || lowerLabel.startsWith("rev")) {
+            continue;
+        }
+
+        const remainingFraction = model.quotaInfo.remainingFraction;
+        const usedPercent = Math.max(
+            0,
+            Math.min(100, (1 - remainingFraction) * 100),
+        );
+
+        // Generate stable raw ID from model name
+        const rawId = `ag-raw-${label
+            .toLowerCase()
+            .replace(/[^a-z0-9]+/g, "-")
+            .replace(/^-|-$/g, "")}`;
+
+        const indicator = getIndicatorSymbol(
+            remainingFraction,
+            config.indicators,
+        );
+
+        let resetAt: number | undefined;
+        if (model.quotaInfo.resetTime) {
+            const parsed = Date.parse(model.quotaInfo.resetTime);
+            if (Number.isFinite(parsed)) resetAt = parsed;
+        }
+
+        entries.push({
+            id: account ? `${rawId}${accountIdSuffix(account)}` : rawId,
+            providerName: `Antigravity ${label}`,
+            used: usedPercent,
+            limit: 100,
+            unit: "%",
+            resetAt,
+            info: indicator.trim() || undefined,
+            account,
+        });
+    }
+
+    return entries;
+}
+
+async function fetchAllAccountsQuota(config: AntigravityConfig): Promise<QuotaData[]> {
+    const debugEnabled = !!config.debug;
+    const accounts = await getAllCloudCredentials();
+
+    const results = await Promise.all(
+        accounts.map(async ({ email, credentials, error }) => {
+            try {
+                if (!credentials) throw error;
+                const cloudResult = await fetchCloudQuota(
+                    credentials.accessToken,
+                    credentials.projectId,
+                    debugEnabled,
+                );
+                return mapCloudModels(cloudResult.models, config, email);
+            } catch (e) {
+                logger.error("provider:antigravity:account_failed", { email, error: e });
+                return null;
+            }
+        }),
+    );
+
+    const succeeded = results.filter((r): r is QuotaData[] => r !== null);
+    if (succeeded.length === 0) {
+        throw new Error(`All ${accounts.length} Antigravity accounts failed to fetch quotas`);
+    }
+
+    if (debugEnabled) {
+        logger.debug("provider:antigravity:accounts_ok", {
+            accounts: accounts.length,
+            succeeded: succeeded.length,
+        });
+    }
+    return succeeded.flat();
+}
+
 /**
  * Creates the Antigravity provider that returns flat, raw quota data.
  * Grouping and aggregation is handled by the service layer via AggregatedGroups.
@@ -249,12 +353,19 @@ export function createAntigravityProvider(
 ): IQuotaProvider {
     return {
         id: "antigravity",
+        name: "Antigravity",
+        authHint: "sign in with Google via opencode auth login",
         async fetchQuota(): Promise<QuotaData[]> {
             const debugEnabled = !!config.debug;
             logger.debug("provider:antigravity:fetch_start", {
                 configDebug: config.debug,
+                allAccounts: !!config.allAccounts,
             });
 
+            if (config.allAccounts) {
+                return fetchAllAccountsQuota(config);
+            }
+
             // Fetch cloud credentials (Google OAuth)
             let credentials;
             try {
@@ -282,56 +393,7 @@ export function createAntigravityProvider(
             }
 
             // Return flat list of all models with quota info
-            const entries: QuotaData[] = [];
-
-            for (const model of cloudResult.models) {
-                if (
-                    !model.quotaInfo ||
-                    typeof model.quotaInfo.remainingFraction !== "number"
-                ) {
-                    continue;
-                }
-
-                const label = model.label || model.modelName || "";
-
-                // Filter out internal/miscellaneous quotas (e.g. "chat 12345", "rev123")
-                const lowerLabel = label.toLowerCase();
-                if (/^chat \d+/.test(lowerLabel) || lowerLabel.startsWith("rev")) {
-                    continue;
-                }
-
-                const remainingFraction = model.quotaInfo.remainingFraction;
-                const usedPercent = Math.max(
-                    0,
-                    Math.min(100, (1 - remainingFraction) * 100),
-                );
-
-                // Generate stable raw ID from model name
-                const rawId = `ag-raw-${label
-                    .toLowerCase()
-                    .replace(/[^a-z0-9]+/g, "-")
-                    .replace(/^-|-$/g, "")}`;
-
-                const indicator = getIndicatorSymbol(
-                    remainingFraction,
-                    config.indicators,
-                );
-
-                let reset: string | undefined;
-                if (model.quotaInfo.resetTime) {
-                    reset = `resets in ${formatRelativeTime(new Date(model.quotaInfo.resetTime))}`;
-                }
-
-                entries.push({
-                    id: rawId,
-                    providerName: `Antigravity ${label}`,
-                    used: usedPercent,
-                    limit: 100,
-                    unit: "%",
-                    reset,
-                    info: indicator.trim() || undefined,
-                });
-            }
+            const entries = mapCloudModels(cloudResult.models, config);
 
             if (debugEnabled) {
                 logger.debug("provider:antigravity:fetch_ok", {
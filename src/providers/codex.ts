@@ -169,39 +169,33 @@ function describeWindow(windowSeconds: number | null): string | null {
   return `${minutes}m window`;
 }
 
-function formatRelativeSeconds(seconds: number): string {
-  if (seconds <= 0) return "now";
-  const minutes = Math.floor(seconds / 60);
-  const hours = Math.floor(minutes / 60);
-  const remainingMinutes = minutes % 60;
-  if (hours > 0) {
-    return `${hours}h ${remainingMinutes}m`;
-  }
-  return `${minutes}m`;
-}
-
 function parseRateLimitWindow(
   id: string,
   label: string,
   snapshot: RateLimitWindowSnapshot,
+  now: number,
 ): QuotaData | null {
   const usedPercent = toNumber(snapshot.used_percent);
   if (usedPercent === null) return null;
 
   // Window info
   let window: string | undefined;
+  let windowMs: number | undefined;
   const windowSeconds = toNumber(snapshot.limit_window_seconds);
   const windowLabel = describeWindow(windowSeconds);
-  if (windowLabel) window = windowLabel;
-
-  // Reset info
-  let reset: string | undefined;
-  const resetAfter = toNumber(snapshot.reset_after_seconds);
-  const resetAt = toNumber(snapshot.reset_at);
-  if (resetAfter !== null) {
-    reset = `resets in ${formatRelativeSeconds(resetAfter)}`;
-  } else if (resetAt !== null) {
-    reset = `resets at ${new Date(resetAt * 1000).toLocaleTimeString()}`;
+  if (windowLabel) {
+    window = windowLabel;
+    windowMs = windowSeconds! * 1000;
+  }
+
+  // Reset info (absolute instant; relative text is rendered at display time)
+  let resetAt: number | undefined;
+  const resetAfterSeconds = toNumber(snapshot.reset_after_seconds);
+  const resetAtSeconds = toNumber(snapshot.reset_at);
+  if (resetAfterSeconds !== null) {
+    resetAt = now + Math.max(0, resetAfterSeconds) * 1000;
+  } else if (resetAtSeconds !== null) {
+    resetAt = resetAtSeconds * 1000;
   }
 
   return {
@@ -211,7 +205,8 @@ function parseRateLimitWindow(
     limit: 100,
     unit: "%",
     window,
-    reset,
+    windowMs,
+    resetAt,
   };
 }
 
@@ -242,7 +237,7 @@ function parseCredits(credits: CreditStatusDetails): QuotaData | null {
   };
 }
 
-export function extractCodexQuota(payload: unknown): QuotaData[] {
+export function extractCodexQuota(payload: unknown, now: number = Date.now()): QuotaData[] {
   if (!isObject(payload)) return [];
 
   const rateLimitCandidate = (payload as Record<string, unknown>)["rate_limit"];
@@ -259,12 +254,12 @@ export function extractCodexQuota(payload: unknown): QuotaData[] {
       : null;
 
     if (primary) {
-      const entry = parseRateLimitWindow("primary", "Primary", primary);
+      const entry = parseRateLimitWindow("primary", "Primary", primary, now);
       if (entry) entries.push(entry);
     }
 
     if (secondary) {
-      const entry = parseRateLimitWindow("secondary", "Secondary", secondary);
+      const entry = parseRateLimitWindow("secondary", "Secondary", secondary, now);
       if (entry) entries.push(entry);
     }
   }
@@ -283,6 +278,8 @@ export function extractCodexQuota(payload: unknown): QuotaData[] {
 export function createCodexProvider(): IQuotaProvider {
   return {
     id: "codex",
+    name: "Codex",
+    authHint: "run opencode auth login",
     async fetchQuota(): Promise<QuotaData[]> {
       logger.debug("provider:codex:fetch_start", { authPath: AUTH_FILE() });
 
@@ -0,0 +1,180 @@
+import { execFile } from "node:child_process";
+import {
+    type CommandProviderConfig,
+    type IQuotaProvider,
+    type QuotaData,
+} from "../interfaces";
+import { interpolate } from "../utils/interpolate";
+import { parseNumber, parseResetAt } from "../utils/validation";
+import { logger } from "../logger";
+
+const DEFAULT_TIMEOUT_MS = 15_000;
+const MAX_OUTPUT_BYTES = 1024 * 1024;
+const MAX_ERROR_OUTPUT_CHARS = 2_000;
+
+/**
+ * Fills in the ID and display name of entries that do not provide their own.
+ */
+function withDefaults(config: CommandProviderConfig, entries: Partial<QuotaData>[]): QuotaData[] {
+    const baseName = config.name ?? config.id;
+    return entries.map((entry, index) => {
+        const multiple = entries.length > 1;
+        return {
+            ...entry,
+            id: entry.id || (multiple ? `${config.id}-${index}` : config.id),
+            providerName: entry.providerName || (multiple ? `${baseName} ${index}` : baseName),
+        } as QuotaData;
+    });
+}
+
+/**
+ * Parses `key=value` lines. Blank lines separate quotas; `#` starts a comment.
+ */
+function parseKeyValueOutput(output: string): Partial<QuotaData>[] {
+    const entries: Partial<QuotaData>[] = [];
+    let current: Partial<QuotaData> | null = null;
+
+    for (const rawLine of output.split(/\r?\n/)) {
+        const line = rawLine.trim();
+        if (line === "") {
+            current = null;
+            continue;
+        }
+        if (line.startsWith("#")) continue;
+
+        const separator = line.indexOf("=");
+        if (separator <= 0) {
+            throw new Error(`Unrecognized output line: ${line}`);
+        }
+        const key = line.slice(0, separator).trim();
+        const value = line.slice(separator + 1).trim();
+
+        if (!current) {
+            current = {};
+            entries.push(current);
+        }
+
+        switch (key) {
+            case "id":
+            case "unit":
+            case "window":
+            case "reset":
+            case "info":
+                current[key] = value;
+                break;
+            case "name":
+            case "providerName":
+                current.providerName = value;
+                break;
+            case "used":
+                current.used = parseNumber(value) ?? undefined;
+                break;
+            case "limit":
+                current.limit = parseNumber(value);
+                break;
+            case "resetAt":
+                current.resetAt = parseResetAt(value);
+                break;
+            case "windowMs":
+                current.windowMs = parseNumber(value) ?? undefined;
+                break;
+            default:
+                logger.debug("provider:command:unknown_key", { key });
+        }
+    }
+
+    return entries;
+}
+
+/**
+ * Parses command output: JSON (a QuotaData object or array) or `key=value` lines.
+ */
+export function parseCommandOutput(config: CommandProviderConfig, output: string): QuotaData[] {
+    const trimmed = output.trim();
+    if (trimmed === "") return [];
+
+    let entries: Partial<QuotaData>[];
+    if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(trimmed);
+        } catch {
+            throw new Error(`${config.id} command output is not valid JSON`);
+        }
+        entries = (Array.isArray(parsed) ? parsed : [parsed]).filter(
+            (e): e is Partial<QuotaData> => typeof e === "object" && e !== null,
+        );
+    } else {
+        entries = parseKeyValueOutput(trimmed);
+    }
+
+    return withDefaults(config, entries);
+}
+
+async function runCommand(config: CommandProviderConfig): Promise<string> {
+    const args: string[] = [];
+    for (const arg of config.args ?? []) {
+        args.push(await interpolate(arg));
+    }
+
+    const env: NodeJS.ProcessEnv = { ...process.env };
+    for (const [name, value] of Object.entries(config.env ?? {})) {
+        env[name] = await interpolate(value);
+    }
+
+    const timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+    return new Promise((resolve, reject) => {
+        execFile(
+            config.command,
+            args,
+            {
+                cwd: config.cwd,
+                env,
+                timeout: timeoutMs,
+                maxBuffer: MAX_OUTPUT_BYTES,
+                windowsHide: true,
+            },
+            (error, stdout, stderr) => {
+                if (!error) {
+                    resolve(stdout);
+                    return;
+                }
+
+                const reason = error.killed
+                    ? `timed out after ${timeoutMs}ms`
+                    : `failed (${error.code ?? error.message})`;
+                const wrapped = new Error(`${config.id} command ${reason}`);
+                wrapped.cause = {
+                    error,
+                    stderr: String(stderr).slice(0, MAX_ERROR_OUTPUT_CHARS),
+                };
+                reject(wrapped);
+            },
+        );
+    });
+}
+
+/**
+ * Creates a provider that runs a local executable and reads quotas from its stdout.
+ */
+export function createCommandProvider(config: CommandProviderConfig): IQuotaProvider {
+    return {
+        id: config.id,
+        name: config.name ?? config.id,
+        async fetchQuota(): Promise<QuotaData[]> {
+            logger.debug("provider:command:run_start", { id: config.id, command: config.command });
+
+            const output = await runCommand(config);
+            const entries = parseCommandOutput(config, output);
+
+            logger.debug("provider:command:parse", { id: config.id, count: entries.length });
+
+            if (entries.length === 0) {
+                throw new Error(`${config.id} command produced no quota data`);
+            }
+
+            return entries;
+        },
+    };
+}
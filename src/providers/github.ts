@@ -44,15 +44,9 @@ function getNextMonthStart(): Date {
     return nextMonth;
 }
 
-function formatTimeUntil(target: Date): string {
-    const diff = target.getTime() - Date.now();
-    if (diff <= 0) return "soon";
-    
-    const days = Math.floor(diff / (1000 * 60 * 60 * 24));
-    const hours = Math.floor((diff % (1000 * 60 * 60 * 24)) / (1000 * 60 * 60));
-    
-    if (days > 0) return `${days}d ${hours}h`;
-    return `${hours}h`;
+function getCurrentMonthStart(): Date {
+    const now = new Date();
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1, 0, 0, 0));
 }
 
 export function parseGithubUsage(data: unknown, sku: string | null, apiWarning?: string | null): QuotaData[] {
@@ -61,7 +55,7 @@ export function parseGithubUsage(data: unknown, sku: string | null, apiWarning?:
     
     const now = new Date();
     const resetTime = getNextMonthStart();
-    const resetStr = `resets in ${formatTimeUntil(resetTime)}`;
+    const windowMs = resetTime.getTime() - getCurrentMonthStart().getTime();
 
     let usedSuggestions = 0;
     let limit = isFreeLimited ? 2000 : null;
@@ -102,8 +96,9 @@ export function parseGithubUsage(data: unknown, sku: string | null, apiWarning?:
             used: usedSuggestions,
             limit: limit,
             unit: unit,
-            reset: resetStr,
+            resetAt: resetTime.getTime(),
             window: "Monthly",
+            windowMs,
             info: infoParts.join(" | "),
         }
     ];
@@ -112,6 +107,8 @@ export function parseGithubUsage(data: unknown, sku: string | null, apiWarning?:
 export function createGithubProvider(): IQuotaProvider {
     return {
         id: "github-copilot",
+        name: "GitHub Copilot",
+        authHint: "run opencode auth login",
         async fetchQuota(): Promise<QuotaData[]> {
             const auth = await readAuthFile();
             if (!auth) {
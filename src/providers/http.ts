@@ -0,0 +1,185 @@
+import {
+    type FieldSelector,
+    type HttpProviderConfig,
+    type IQuotaProvider,
+    type QuotaData,
+} from "../interfaces";
+import { interpolate } from "../utils/interpolate";
+import { isSelector, selectAll, selectOne } from "../utils/json-path";
+import { parseNumber, parseResetAt } from "../utils/validation";
+import { logger } from "../logger";
+
+const DEFAULT_TIMEOUT_MS = 15_000;
+const MAX_ERROR_BODY_CHARS = 2_000;
+
+function resolveField(item: unknown, field: FieldSelector | undefined): unknown {
+    if (field === undefined) return undefined;
+    return isSelector(field) ? selectOne(item, field) : field;
+}
+
+function slugify(value: string): string {
+    return value
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, "-")
+        .replace(/^-|-$/g, "");
+}
+
+function describeWindowSeconds(seconds: number): string {
+    if (seconds % 86400 === 0) return `${seconds / 86400}d window`;
+    if (seconds % 3600 === 0) return `${seconds / 3600}h window`;
+    return `${Math.round(seconds / 60)}m window`;
+}
+
+/**
+ * Maps a JSON response onto QuotaData entries using the configured selectors.
+ */
+export function extractHttpQuota(config: HttpProviderConfig, payload: unknown): QuotaData[] {
+    let items: unknown[] = [payload];
+    if (config.items) {
+        const matched = selectAll(payload, config.items);
+        items = matched.length === 1 && Array.isArray(matched[0]) ? matched[0] : matched;
+    }
+
+    const baseName = config.name ?? config.id;
+    const entries: QuotaData[] = [];
+
+    items.forEach((item, index) => {
+        const used = parseNumber(resolveField(item, config.fields.used));
+        if (used === null) {
+            logger.debug("provider:http:missing_used", { id: config.id, index });
+            return;
+        }
+
+        const rawId = resolveField(item, config.fields.id);
+        let id = config.id;
+        let suffix: string | undefined;
+        if (rawId !== undefined && rawId !== null && String(rawId) !== "") {
+            suffix = String(rawId);
+            id = `${config.id}-${slugify(suffix)}`;
+        } else if (items.length > 1) {
+            suffix = String(index);
+            id = `${config.id}-${index}`;
+        }
+
+        const rawName = resolveField(item, config.fields.name);
+        let providerName = suffix !== undefined ? `${baseName} ${suffix}` : baseName;
+        if (typeof rawName === "string" && rawName !== "") {
+            providerName = rawName;
+        }
+
+        const limit = parseNumber(resolveField(item, config.fields.limit));
+        const unit = resolveField(item, config.fields.unit);
+
+        let window: string | undefined;
+        let windowMs: number | undefined;
+        const rawWindow = resolveField(item, config.fields.window);
+        const windowSeconds = parseNumber(rawWindow);
+        if (windowSeconds !== null && windowSeconds > 0) {
+            windowMs = windowSeconds * 1000;
+            window = describeWindowSeconds(windowSeconds);
+        } else if (typeof rawWindow === "string" && rawWindow !== "") {
+            window = rawWindow;
+        }
+
+        entries.push({
+            id,
+            providerName,
+            used,
+            limit: limit !== null && limit > 0 ? limit : null,
+            unit: unit !== undefined && unit !== null ? String(unit) : "",
+            resetAt: parseResetAt(resolveField(item, config.fields.resetAt)),
+            window,
+            windowMs,
+        });
+    });
+
+    return entries;
+}
+
+/**
+ * Interpolates the strings nested in a JSON body, so substituted values are escaped
+ * when the body is serialized.
+ */
+async function interpolateJson(value: unknown): Promise<unknown> {
+    if (typeof value === "string") return interpolate(value);
+    if (Array.isArray(value)) return Promise.all(value.map(interpolateJson));
+    if (value !== null && typeof value === "object") {
+        const result: Record<string, unknown> = {};
+        for (const [key, nested] of Object.entries(value)) {
+            result[key] = await interpolateJson(nested);
+        }
+        return result;
+    }
+    return value;
+}
+
+async function fetchHttpPayload(config: HttpProviderConfig): Promise<unknown> {
+    const url = await interpolate(config.url);
+
+    const headers: Record<string, string> = {};
+    for (const [name, value] of Object.entries(config.headers ?? {})) {
+        headers[name] = await interpolate(value);
+    }
+
+    let body: string | undefined;
+    if (typeof config.body === "string") {
+        body = await interpolate(config.body);
+    } else if (config.body !== undefined) {
+        body = JSON.stringify(await interpolateJson(config.body));
+        headers["Content-Type"] = headers["Content-Type"] ?? "application/json";
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), config.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+    try {
+        const response = await fetch(url, {
+            method: config.method ?? (body !== undefined ? "POST" : "GET"),
+            headers,
+            body,
+            signal: controller.signal,
+        });
+
+        const bodyText = await response.text();
+        if (!response.ok) {
+            const error = new Error(`${config.id} quota request failed (${response.status})`);
+            error.cause = {
+                status: response.status,
+                bodyText: bodyText.slice(0, MAX_ERROR_BODY_CHARS),
+            };
+            throw error;
+        }
+
+        try {
+            return JSON.parse(bodyText);
+        } catch {
+            throw new Error(`${config.id} quota response is not valid JSON`);
+        }
+    } finally {
+        clearTimeout(timeout);
+    }
+}
+
+/**
+ * Creates a provider that fetches quota data from an arbitrary HTTP/JSON endpoint,
+ * configured entirely from quotas.json.
+ */
+export function createHttpProvider(config: HttpProviderConfig): IQuotaProvider {
+    return {
+        id: config.id,
+        name: config.name ?? config.id,
+        async fetchQuota(): Promise<QuotaData[]> {
+            logger.debug("provider:http:fetch_start", { id: config.id });
+
+            const payload = await fetchHttpPayload(config);
+            const entries = extractHttpQuota(config, payload);
+
+            logger.debug("provider:http:parse", { id: config.id, count: entries.length });
+
+            if (entries.length === 0) {
+                throw new Error(`${config.id} quota response did not match the configured selectors`);
+            }
+
+            return entries;
+        },
+    };
+}
@@ -0,0 +1,62 @@
+import { createRequire } from "node:module";
+import { isAbsolute, join } from "node:path";
+import { pathToFileURL } from "node:url";
+import {
+    type IQuotaProvider,
+    type ModuleProviderConfig,
+    type QuotaProviderFactory,
+} from "../interfaces";
+import { logger } from "../logger";
+
+/**
+ * Resolves a bare package name from the project first, so packages installed next to
+ * the project's quotas.json are found. Falls back to the plugin's own resolution.
+ */
+function resolveSpecifier(specifier: string, directory: string): string {
+    if (isAbsolute(specifier)) {
+        return pathToFileURL(specifier).href;
+    }
+    try {
+        const projectRequire = createRequire(join(directory, "package.json"));
+        return pathToFileURL(projectRequire.resolve(specifier)).href;
+    } catch {
+        return specifier;
+    }
+}
+
+function isQuotaProvider(value: unknown): value is IQuotaProvider {
+    if (typeof value !== "object" || value === null) return false;
+    const p = value as Partial<IQuotaProvider>;
+    return typeof p.id === "string" && p.id !== "" && typeof p.fetchQuota === "function";
+}
+
+/**
+ * Imports a provider module and calls its factory with the module's config block.
+ * Throws if the module cannot be imported, exports no factory, or the factory
+ * does not return valid providers.
+ */
+export async function loadModuleProviders(
+    config: ModuleProviderConfig,
+    directory: string,
+): Promise<IQuotaProvider[]> {
+    const specifier = resolveSpecifier(config.module, directory);
+    logger.debug("provider:module:import", { module: config.module, specifier });
+
+    const mod = await import(specifier);
+    const factory: unknown = typeof mod.default === "function" ? mod.default : mod.createProvider;
+    if (typeof factory !== "function") {
+        throw new Error(
+            `Provider module "${config.module}" must export a factory function as default or "createProvider"`,
+        );
+    }
+
+    const result = await (factory as QuotaProviderFactory)(config);
+    const providers = Array.isArray(result) ? result : [result];
+    if (providers.length === 0 || !providers.every(isQuotaProvider)) {
+        throw new Error(
+            `Provider module "${config.module}" factory must return providers with an "id" and "fetchQuota()"`,
+        );
+    }
+
+    return providers;
+}
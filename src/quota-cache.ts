@@ -1,70 +1,225 @@
-import { type IQuotaProvider, type QuotaData, type IHistoryService } from "./interfaces";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import { type IQuotaProvider, type QuotaData, type IHistoryService, type ProviderStatus } from "./interfaces";
 import { validateQuotaData } from "./utils/validation";
+import { classifyProviderError } from "./utils/provider-status";
+import { type PollerLock } from "./poller-lock";
 
 import { logger } from "./logger";
 
 type CachedQuotas = {
     data: QuotaData[];
+    /**
+     * Time of the last refresh in this process. Null while only persisted data is served.
+     */
     fetchedAt: Date | null;
     lastError: unknown;
+    /**
+     * Status of every provider that has been refreshed at least once.
+     */
+    providers: ProviderStatus[];
 };
 
 type QuotaCacheOptions = {
     refreshIntervalMs: number;
+    /**
+     * Per-provider refresh intervals keyed by provider ID. Providers without an
+     * entry use `refreshIntervalMs`.
+     */
+    providerIntervals?: Record<string, number>;
+    /**
+     * Upper bound for the retry delay of a failing provider.
+     */
+    maxBackoffMs: number;
+    /**
+     * File the last good data of every provider is persisted to, and restored from on start().
+     */
+    snapshotPath?: string;
+    /**
+     * Lock shared with other processes. Only the holder polls providers and appends
+     * history; the others serve the holder's snapshot from `snapshotPath`. On taking
+     * the lock, the history is re-initialized, which may repair or migrate its log.
+     */
+    lock?: PollerLock;
     historyService?: IHistoryService;
     debug?: boolean;
 };
 
+/**
+ * Refresh bookkeeping for a single provider.
+ */
+type ProviderState = {
+    /**
+     * Last successfully fetched (validated) data.
+     */
+    data: QuotaData[];
+    lastSuccessAt: Date | null;
+    /**
+     * Whether `data` was fetched by this process rather than restored from disk.
+     */
+    fresh: boolean;
+    /**
+     * Consecutive failures since the last success.
+     */
+    failures: number;
+    lastError: unknown;
+    /**
+     * Epoch ms at which the provider is due for its next refresh.
+     */
+    nextRefreshAt: number;
+};
+
+/**
+ * On-disk format of the persisted snapshot.
+ */
+type PersistedSnapshot = {
+    version: number;
+    savedAt: number;
+    /**
+     * Last good data per provider, restored on start().
+     */
+    providers: Record<string, { lastSuccessAt: number; data: QuotaData[] }>;
+    /**
+     * The complete snapshot as the polling process served it, read by the other processes.
+     */
+    data?: QuotaData[];
+    statuses?: ProviderStatus[];
+};
+
+const SNAPSHOT_VERSION = 1;
+
+/**
+ * Reads a persisted snapshot. A missing or unreadable file yields null.
+ */
+async function readSnapshot(path: string): Promise<PersistedSnapshot | null> {
+    let persisted: PersistedSnapshot;
+    try {
+        persisted = JSON.parse(await readFile(path, "utf-8")) as PersistedSnapshot;
+    } catch (e) {
+        if ((e as NodeJS.ErrnoException).code !== "ENOENT") {
+            logger.error("cache:snapshot_load_failed", { path, error: e });
+        }
+        return null;
+    }
+    if (persisted?.version !== SNAPSHOT_VERSION || typeof persisted.providers !== "object") {
+        logger.error("cache:snapshot_unsupported", { path, version: persisted?.version });
+        return null;
+    }
+    return persisted;
+}
+
+/**
+ * Last good quotas of every provider in a persisted snapshot, for processes that read
+ * the poller's data without running a cache. Empty without a readable snapshot.
+ */
+export async function readSnapshotQuotas(path: string): Promise<QuotaData[]> {
+    const persisted = await readSnapshot(path);
+    if (!persisted) return [];
+    return Object.values(persisted.providers)
+        .flatMap(entry => (Array.isArray(entry.data) ? entry.data : []))
+        .map(d => validateQuotaData(d))
+        .filter((v): v is QuotaData => v !== null);
+}
+
 const DEFAULT_OPTIONS: QuotaCacheOptions = {
     refreshIntervalMs: 60_000,
+    maxBackoffMs: 30 * 60_000,
 };
 
+// Never schedule timers tighter than this, even if several providers are overdue
+const MIN_TIMER_DELAY_MS = 1_000;
+
 export class QuotaCache {
     private readonly providers: IQuotaProvider[];
     private readonly options: QuotaCacheOptions;
+    private readonly providerStates: Map<string, ProviderState>;
     private state: CachedQuotas;
-    private timer: ReturnType<typeof setInterval> | null;
+    private timer: ReturnType<typeof setTimeout> | null;
+    private running: boolean;
     private inFlight: Promise<void> | null;
+    private persistQueue: Promise<void>;
+    private leading: boolean;
 
     public constructor(providers: IQuotaProvider[], options?: Partial<QuotaCacheOptions>) {
         this.providers = providers;
         this.options = { ...DEFAULT_OPTIONS, ...(options ?? {}) };
-        this.state = { data: [], fetchedAt: null, lastError: null };
+        this.providerStates = new Map(
+            providers.map((p) => [
+                p.id,
+                { data: [], lastSuccessAt: null, fresh: false, failures: 0, lastError: null, nextRefreshAt: 0 },
+            ]),
+        );
+        this.state = { data: [], fetchedAt: null, lastError: null, providers: [] };
         this.timer = null;
+        this.running = false;
         this.inFlight = null;
+        this.persistQueue = Promise.resolve();
+        this.leading = false;
     }
 
-    public start(): void {
-        if (this.timer) return;
+    /**
+     * Restores the persisted snapshot (served as stale data) and starts polling.
+     * Resolves once the snapshot is loaded, without waiting for the first refresh.
+     */
+    public async start(): Promise<void> {
+        if (this.running) return;
+        this.running = true;
+
+        await this.loadPersisted();
 
         // Kick off an initial refresh without blocking startup.
+        // Each completed refresh schedules the next due provider.
         void this.refresh();
-
-        this.timer = setInterval(() => {
-            void this.refresh();
-        }, this.options.refreshIntervalMs);
-
-        // Avoid keeping the process alive just for quota polling.
-        this.timer.unref?.();
     }
 
     public stop(): void {
+        this.running = false;
         if (this.timer) {
-            clearInterval(this.timer);
+            clearTimeout(this.timer);
             this.timer = null;
         }
+        this.leading = false;
+        void this.options.lock?.release();
     }
 
     public getSnapshot(): CachedQuotas {
         return this.state;
     }
 
+    /**
+     * Returns the refresh interval of a provider.
+     */
+    public getProviderInterval(providerId: string): number {
+        return this.options.providerIntervals?.[providerId] ?? this.options.refreshIntervalMs;
+    }
+
+    /**
+     * Refreshes every provider immediately, regardless of schedule or backoff.
+     */
     public async refresh(): Promise<void> {
+        return this.runRefresh(this.providers);
+    }
+
+    /**
+     * Refreshes only the providers whose interval or backoff has elapsed.
+     * Called by the polling timer.
+     */
+    public async refreshDue(): Promise<void> {
+        const now = Date.now();
+        const due = this.providers.filter(
+            (p) => (this.providerStates.get(p.id)?.nextRefreshAt ?? 0) <= now,
+        );
+        // With a shared lock every tick runs, to renew the lock or to follow the leader
+        if (due.length === 0 && !this.options.lock) return;
+        return this.runRefresh(due);
+    }
+
+    private async runRefresh(providers: IQuotaProvider[]): Promise<void> {
         logger.debug(
             "cache:refresh_start",
             {
-                providerCount: this.providers.length,
-                refreshIntervalMs: this.options.refreshIntervalMs,
+                providerCount: providers.length,
+                ids: providers.map((p) => p.id),
                 inFlight: !!this.inFlight,
             },
         );
@@ -73,39 +228,267 @@ export class QuotaCache {
             return this.inFlight;
         }
 
-        const refreshPromise = this.doRefresh();
+        const refreshPromise = this.doRefresh(providers);
         this.inFlight = refreshPromise;
 
         return refreshPromise;
     }
 
+    private scheduleNext(): void {
+        if (!this.running) return;
+        if (this.timer) clearTimeout(this.timer);
+
+        let nextDue = Infinity;
+        for (const state of this.providerStates.values()) {
+            nextDue = Math.min(nextDue, state.nextRefreshAt);
+        }
+        if (nextDue === Infinity) return;
+
+        let delay = Math.max(MIN_TIMER_DELAY_MS, nextDue - Date.now());
+        if (this.options.lock) {
+            // Renew the lock (or check on the leader) at least once per base interval
+            delay = Math.min(delay, Math.max(MIN_TIMER_DELAY_MS, this.options.refreshIntervalMs));
+        }
+        this.timer = setTimeout(() => {
+            this.timer = null;
+            void this.refreshDue();
+        }, delay);
+
+        // Avoid keeping the process alive just for quota polling.
+        this.timer.unref?.();
+    }
+
+    /**
+     * Exponential backoff with jitter: the interval doubles per consecutive failure
+     * (capped at `maxBackoffMs`), then a random 50-100% of it is used so failing
+     * providers don't retry in lockstep. Never retries sooner than the regular interval.
+     */
+    private backoffDelay(intervalMs: number, failures: number): number {
+        const exponential = intervalMs * 2 ** Math.max(0, failures - 1);
+        const capped = Math.min(this.options.maxBackoffMs, exponential);
+        return Math.max(intervalMs, Math.round(capped * (0.5 + Math.random() * 0.5)));
+    }
+
+    /**
+     * Derives a provider's status from its refresh bookkeeping. Transient failures
+     * with last good data degrade to `stale`; auth errors are always reported since
+     * they need user action. Returns null for providers that were never refreshed.
+     */
+    private getProviderStatus(provider: IQuotaProvider): ProviderStatus | null {
+        const providerState = this.providerStates.get(provider.id)!;
+        const lastSuccessAt = providerState.lastSuccessAt?.getTime();
+        const base = { providerId: provider.id, providerName: provider.name ?? provider.id, lastSuccessAt };
+
+        if (providerState.failures === 0) {
+            if (lastSuccessAt === undefined) return null;
+            return { ...base, status: providerState.fresh ? "ok" : "stale" };
+        }
+
+        const error = providerState.lastError;
+        const message = error instanceof Error ? error.message : String(error);
+        const kind = classifyProviderError(error);
+        const status = kind !== "auth_error" && providerState.data.length > 0 ? "stale" : kind;
+        if (status === "auth_error" && provider.authHint) {
+            return { ...base, status, message, authHint: provider.authHint };
+        }
+        return { ...base, status, message };
+    }
+
+    /**
+     * Assembles the snapshot from every provider's last good data. Rows of failing
+     * or restored providers are flagged as stale; every row carries its `fetchedAt`.
+     */
+    private buildSnapshot(fetchedAt: Date | null): CachedQuotas {
+        const data = this.providers.flatMap((p) => {
+            const providerState = this.providerStates.get(p.id)!;
+            const rowFetchedAt = providerState.lastSuccessAt?.getTime();
+            const stale = providerState.failures > 0 || !providerState.fresh;
+            return providerState.data.map((q) => ({
+                ...q,
+                fetchedAt: rowFetchedAt,
+                ...(stale ? { stale: true } : {}),
+            }));
+        });
+
+        return {
+            data,
+            fetchedAt,
+            lastError: null,
+            providers: this.providers
+                .map((p) => this.getProviderStatus(p))
+                .filter((status): status is ProviderStatus => status !== null),
+        };
+    }
+
+    private async readPersisted(): Promise<PersistedSnapshot | null> {
+        return this.options.snapshotPath ? readSnapshot(this.options.snapshotPath) : null;
+    }
+
+    /**
+     * Copies persisted per-provider data into the provider states.
+     * Unless `overwrite` is set, providers that already have data keep it.
+     */
+    private restoreProviders(persisted: PersistedSnapshot, overwrite: boolean): number {
+        let restored = 0;
+        for (const [id, entry] of Object.entries(persisted.providers)) {
+            const providerState = this.providerStates.get(id);
+            if (!providerState || (providerState.lastSuccessAt && !overwrite)) continue;
+            if (!Array.isArray(entry?.data) || typeof entry.lastSuccessAt !== "number") continue;
+
+            providerState.data = entry.data
+                .map(d => validateQuotaData(d))
+                .filter((v): v is QuotaData => v !== null);
+            providerState.lastSuccessAt = new Date(entry.lastSuccessAt);
+            providerState.fresh = false;
+            restored += providerState.data.length;
+        }
+        return restored;
+    }
+
+    /**
+     * Loads the persisted snapshot for providers that have no data yet.
+     */
+    private async loadPersisted(): Promise<void> {
+        const persisted = await this.readPersisted();
+        if (!persisted) return;
+
+        const restored = this.restoreProviders(persisted, false);
+        this.state = this.buildSnapshot(this.state.fetchedAt);
+        logger.debug("cache:snapshot_loaded", { path: this.options.snapshotPath, restored, savedAt: persisted.savedAt });
+    }
+
+    /**
+     * Serves the snapshot written by the process holding the lock instead of polling,
+     * and reloads the history it appended to.
+     */
+    private async followLeader(): Promise<void> {
+        const persisted = await this.readPersisted();
+        if (persisted) {
+            this.restoreProviders(persisted, true);
+            this.state = Array.isArray(persisted.data) && Array.isArray(persisted.statuses)
+                ? {
+                    data: persisted.data
+                        .map(d => validateQuotaData(d))
+                        .filter((v): v is QuotaData => v !== null),
+                    fetchedAt: new Date(persisted.savedAt),
+                    lastError: null,
+                    providers: persisted.statuses,
+                }
+                : this.buildSnapshot(this.state.fetchedAt);
+        }
+        await this.options.historyService?.reload();
+
+        // If the leader goes away, every provider is due once this process takes over
+        const nextCheckAt = Date.now() + this.options.refreshIntervalMs;
+        for (const providerState of this.providerStates.values()) {
+            providerState.nextRefreshAt = nextCheckAt;
+        }
+        logger.debug("cache:follow_leader", { savedAt: persisted?.savedAt, count: this.state.data.length });
+    }
+
+    /**
+     * Writes the last good data of every provider to `snapshotPath`. Writes are queued
+     * behind each other, so an older snapshot is never renamed over a newer one.
+     */
+    private persist(): Promise<void> {
+        const path = this.options.snapshotPath;
+        if (!path) return this.persistQueue;
 
-    private async doRefresh(): Promise<void> {
+        const payload: PersistedSnapshot = {
+            version: SNAPSHOT_VERSION,
+            savedAt: Date.now(),
+            providers: {},
+            data: this.state.data,
+            statuses: this.state.providers,
+        };
+        for (const [id, providerState] of this.providerStates) {
+            if (!providerState.lastSuccessAt) continue;
+            payload.providers[id] = {
+                lastSuccessAt: providerState.lastSuccessAt.getTime(),
+                data: providerState.data,
+            };
+        }
+        if (Object.keys(payload.providers).length === 0) return this.persistQueue;
+
+        this.persistQueue = this.persistQueue.then(() => this.writeSnapshot(path, payload));
+        return this.persistQueue;
+    }
+
+    private async writeSnapshot(path: string, payload: PersistedSnapshot): Promise<void> {
         try {
-            const results = await Promise.all(
-                this.providers.map(async (p: IQuotaProvider) => {
+            await mkdir(dirname(path), { recursive: true });
+            // Write to a temp file and rename, so other processes never read a partial snapshot
+            const tempPath = `${path}.${process.pid}.tmp`;
+            await writeFile(tempPath, JSON.stringify(payload), "utf-8");
+            await rename(tempPath, path);
+            logger.debug("cache:snapshot_saved", { path, providers: Object.keys(payload.providers).length });
+        } catch (e) {
+            logger.error("cache:snapshot_save_failed", { path, error: e });
+        }
+    }
+
+    private async doRefresh(providers: IQuotaProvider[]): Promise<void> {
+        try {
+            if (this.options.lock) {
+                if (!(await this.options.lock.acquire())) {
+                    this.leading = false;
+                    await this.followLeader();
+                    return;
+                }
+                if (!this.leading) {
+                    this.leading = true;
+                    // Only the lock holder may rewrite the history log to repair or migrate it
+                    await this.options.historyService?.init();
+                }
+            }
+
+            const fresh = await Promise.all(
+                providers.map(async (p: IQuotaProvider) => {
                     const startedAt = Date.now();
+                    const providerState = this.providerStates.get(p.id)!;
+                    const intervalMs = this.getProviderInterval(p.id);
                     try {
                         logger.debug(
                             "cache:provider_fetch_start",
                             { id: p.id },
                         );
                         const result = await p.fetchQuota();
+
+                        // Validate and normalize provider responses before storing
+                        const validated = result
+                            .map(d => validateQuotaData(d))
+                            .filter((v): v is QuotaData => v !== null);
+
+                        providerState.data = validated;
+                        providerState.lastSuccessAt = new Date();
+                        providerState.fresh = true;
+                        providerState.failures = 0;
+                        providerState.lastError = null;
+                        providerState.nextRefreshAt = Date.now() + intervalMs;
+
                         logger.debug(
                             "cache:provider_fetch_ok",
                             {
                                 id: p.id,
-                                count: result.length,
+                                count: validated.length,
                                 durationMs: Date.now() - startedAt,
                             },
                         );
-                        return result;
+                        return validated;
                     } catch (e) {
+                        providerState.failures += 1;
+                        providerState.lastError = e;
+                        const retryInMs = this.backoffDelay(intervalMs, providerState.failures);
+                        providerState.nextRefreshAt = Date.now() + retryInMs;
+
                         logger.error(
                             "cache:provider_fetch_error",
                             {
                                 id: p.id,
                                 durationMs: Date.now() - startedAt,
+                                failures: providerState.failures,
+                                retryInMs,
+                                staleCount: providerState.data.length,
                                 error: e,
                             },
                         );
@@ -114,28 +497,22 @@ export class QuotaCache {
                 }),
             );
 
-            // Validate and normalize provider responses before storing
-            const flattened = results.flat();
-            const validatedData = flattened
-                .map(d => validateQuotaData(d))
-                .filter((v): v is QuotaData => v !== null);
-
-            this.state = {
-                data: validatedData,
-                fetchedAt: new Date(),
-                lastError: null,
-            };
+            this.state = this.buildSnapshot(new Date());
+            void this.persist();
 
             logger.debug(
                 "cache:refresh_ok",
                 {
                     totalCount: this.state.data.length,
+                    freshCount: fresh.flat().length,
                     fetchedAt: this.state.fetchedAt?.toISOString(),
                 },
             );
 
-            if (this.options.historyService) {
-                void this.options.historyService.append(this.state.data);
+            // Only freshly fetched data goes into history; stale rows would duplicate points
+            const freshData = fresh.flat();
+            if (this.options.historyService && freshData.length > 0) {
+                void this.options.historyService.append(freshData);
             }
         } catch (e) {
             this.state = {
@@ -152,6 +529,7 @@ export class QuotaCache {
                 { inFlightCleared: true },
             );
             this.inFlight = null;
+            this.scheduleNext();
         }
     }
 }
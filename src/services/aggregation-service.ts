@@ -1,9 +1,11 @@
 import { 
     type QuotaData, 
     type IPredictionEngine, 
-    type IAggregationService 
+    type IAggregationService,
+    type AccountRecommendation
 } from "../interfaces";
 import { formatDurationMs } from "../utils/time";
+import { stripAccountSuffix } from "../utils/accounts";
 
 /**
  * Service for aggregating multiple quota sources into a single representative quota.
@@ -41,7 +43,7 @@ export class AggregationService implements IAggregationService {
                 q.id, 
                 windowMinutes, 
                 shortWindowMinutes,
-                { windowInfo: q.window }
+                { windowInfo: q.window, windowMs: q.windowMs, resetAt: q.resetAt }
             );
             if (time < minTime) {
                 minTime = time;
@@ -55,9 +57,17 @@ export class AggregationService implements IAggregationService {
         } 
         
         if (minTime !== Infinity) {
+            const prediction = this.predictionEngine.predictTimeToLimitRange(
+                representative.id,
+                windowMinutes,
+                shortWindowMinutes,
+                { windowInfo: representative.window, windowMs: representative.windowMs, resetAt: representative.resetAt }
+            );
             return {
                 ...representative,
-                predictedReset: `in ${formatDurationMs(minTime)} (predicted)`
+                predictedReset: `in ${formatDurationMs(minTime)} (predicted)`,
+                timeToLimitMs: minTime,
+                prediction: prediction ?? undefined
             };
         }
         return representative;
@@ -74,6 +84,45 @@ export class AggregationService implements IAggregationService {
         });
     }
 
+    /**
+     * For every quota shared by several accounts (same ID apart from the account suffix),
+     * picks the account with the most remaining capacity. Ties go to the account
+     * predicted to hit its limit last, mirroring the most_critical strategy.
+     */
+    recommendAccounts(quotas: QuotaData[]): AccountRecommendation[] {
+        const families = new Map<string, QuotaData[]>();
+        for (const q of quotas) {
+            if (!q.account || q.limit === null || q.limit <= 0) continue;
+            const familyId = stripAccountSuffix(q.id);
+            const family = families.get(familyId);
+            if (family) family.push(q);
+            else families.set(familyId, [q]);
+        }
+
+        const remaining = (q: QuotaData) => Math.max(0, 1 - q.used / q.limit!);
+        const recommendations: AccountRecommendation[] = [];
+
+        for (const [familyId, candidates] of families) {
+            if (new Set(candidates.map(q => q.account)).size < 2) continue;
+
+            const best = candidates.reduce((a, b) => {
+                const diff = remaining(b) - remaining(a);
+                if (diff !== 0) return diff > 0 ? b : a;
+                return (b.timeToLimitMs ?? Infinity) > (a.timeToLimitMs ?? Infinity) ? b : a;
+            });
+
+            recommendations.push({
+                familyId,
+                name: best.providerName,
+                account: best.account!,
+                quotaId: best.id,
+                remainingPercent: remaining(best) * 100,
+            });
+        }
+
+        return recommendations;
+    }
+
     /**
      * Aggregates quotas by selecting the one with lowest usage ratio.
      */
@@ -105,12 +154,19 @@ export class AggregationService implements IAggregationService {
             avgRatio = ratios[Math.floor(ratios.length / 2)];
         }
         
+        // Carry the soonest reset across sources so the group still shows a countdown
+        const resetTimes = quotas
+            .map(q => q.resetAt)
+            .filter((t): t is number => t !== undefined);
+        const resetAt = resetTimes.length > 0 ? Math.min(...resetTimes) : undefined;
+
         return {
             id: id,
             providerName: name,
             used: Math.round(avgRatio * 100),
             limit: 100,
             unit: "%",
+            resetAt,
             info: "Aggregated"
         };
     }
@@ -0,0 +1,295 @@
+import {
+    type HistoryPoint,
+    type HistoryTier,
+    type IHistoryService,
+    type PredictionContext,
+    type PredictionEngineType,
+    type QuotaData,
+    type QuotaHistoryPoint,
+    type ResetEvent,
+} from "../interfaces";
+import { createPredictionEngine } from "./prediction-engine";
+
+/**
+ * Prediction settings compared by a backtest.
+ */
+export type BacktestConfig = {
+    engine: PredictionEngineType;
+    windowMinutes: number;
+    shortWindowMinutes: number;
+};
+
+/**
+ * How the predictions of one config compared with what actually happened.
+ */
+export type BacktestMetrics = {
+    /**
+     * Predictions whose outcome is known: the limit was reached, the quota reset first,
+     * or a predicted exhaustion did not happen before the history ended.
+     */
+    scored: number;
+    /**
+     * Predictions of a limit that was then reached, which the errors are measured on.
+     */
+    hits: number;
+    /**
+     * Mean absolute difference between predicted and actual time to limit, in ms.
+     */
+    meanAbsoluteErrorMs: number | null;
+    /**
+     * Mean of predicted minus actual time to limit, in ms. Negative means the
+     * predictions came too early.
+     */
+    biasMs: number | null;
+    /**
+     * Mean absolute error as a share of the actual time to limit.
+     */
+    meanRelativeError: number | null;
+    /**
+     * The limit was reached, but the prediction said it would not be.
+     */
+    missed: number;
+    /**
+     * A predicted exhaustion that did not happen before the reset or the end of the history.
+     */
+    falseAlarms: number;
+};
+
+export type BacktestResult = {
+    config: BacktestConfig;
+    metrics: BacktestMetrics;
+};
+
+export type QuotaBacktest = {
+    quotaId: string;
+    points: number;
+    /**
+     * Usage windows the history was split into at resets.
+     */
+    windows: number;
+    /**
+     * Windows in which the limit was reached.
+     */
+    exhaustions: number;
+    results: BacktestResult[];
+};
+
+export type BacktestReport = {
+    quotas: QuotaBacktest[];
+    /**
+     * Metrics of each config over all quotas.
+     */
+    overall: BacktestResult[];
+};
+
+export type BacktestOptions = {
+    /**
+     * Recorded resets (see `IHistoryService.getResetEvents`). Resets are also detected
+     * from usage drops, so exported files without events work as well.
+     */
+    resetEvents?: ResetEvent[];
+    /**
+     * Drop in usage, in percent of the limit, treated as a reset. Defaults to 20.
+     */
+    resetThresholdPercent?: number;
+    /**
+     * Window of each quota (`windowMs` or `windowInfo`), passed to the engines like
+     * `QuotaService` does. Their `resetAt` is ignored in favor of each window's reset.
+     */
+    contexts?: Map<string, PredictionContext>;
+};
+
+/**
+ * One quota window between two resets, and when it ended (unknown for the last one).
+ */
+type UsageWindow = {
+    points: HistoryPoint[];
+    resetAt?: number;
+    /**
+     * Whether the window ended at a recorded reset event. Only those resets are passed to
+     * the engines; a drop in usage is not something they could have known in advance.
+     */
+    recorded?: boolean;
+};
+
+type Tally = {
+    scored: number;
+    errors: number[];
+    relativeErrors: number[];
+    missed: number;
+    falseAlarms: number;
+};
+
+/**
+ * History of the window being replayed, up to the simulated now, so the engines never
+ * see earlier windows.
+ */
+class ReplayHistoryService implements IHistoryService {
+    points: HistoryPoint[] = [];
+    now = 0;
+
+    async init(): Promise<void> {}
+    async reload(): Promise<void> {}
+    async append(_snapshot: QuotaData[]): Promise<void> {}
+
+    getHistory(_quotaId: string, windowMs: number): HistoryPoint[] {
+        const cutoff = this.now - windowMs;
+        return this.points.filter(p => p.timestamp >= cutoff && p.timestamp <= this.now);
+    }
+
+    getResetEvents(): ResetEvent[] {
+        return [];
+    }
+
+    setMaxAge(_hours: number): void {}
+    setTiers(_tiers: HistoryTier[]): void {}
+    setResetThreshold(_percent: number): void {}
+    async pruneAll(): Promise<void> {}
+}
+
+/**
+ * Splits a quota's history into windows at recorded resets and at usage drops of at
+ * least `thresholdPercent` of the limit. A window ends at its reset event, or else at
+ * the first point after the drop.
+ */
+function splitWindows(points: HistoryPoint[], resetTimes: number[], thresholdPercent: number): UsageWindow[] {
+    const windows: UsageWindow[] = [];
+    let current: HistoryPoint[] = [];
+
+    for (const point of points) {
+        const last = current[current.length - 1];
+        if (last) {
+            const event = resetTimes.find(t => t > last.timestamp && t <= point.timestamp);
+            const dropped = last.limit !== null && last.limit > 0
+                && last.used - point.used >= (thresholdPercent / 100) * last.limit;
+            if (event !== undefined || dropped) {
+                windows.push({ points: current, resetAt: event ?? point.timestamp, recorded: event !== undefined });
+                current = [];
+            }
+        }
+        current.push(point);
+    }
+    if (current.length > 0) windows.push({ points: current });
+    return windows;
+}
+
+function exhaustionTime(points: HistoryPoint[]): number | undefined {
+    return points.find(p => p.limit !== null && p.limit > 0 && p.used >= p.limit)?.timestamp;
+}
+
+/**
+ * Replays one window through an engine, predicting at every point from the second one
+ * (no engine predicts from a single reading) until the limit was reached, and scores
+ * each prediction against the window's outcome.
+ */
+function replayWindow(
+    window: UsageWindow,
+    config: BacktestConfig,
+    context: PredictionContext | undefined,
+    tally: Tally
+): void {
+    const replay = new ReplayHistoryService();
+    replay.points = window.points;
+    const engine = createPredictionEngine(config.engine, replay, {
+        predictionShortWindowMinutes: config.shortWindowMinutes,
+        now: () => replay.now,
+    });
+    const exhaustedAt = exhaustionTime(window.points);
+    const endedAt = window.points[window.points.length - 1].timestamp;
+
+    for (const point of window.points.slice(1)) {
+        if (exhaustedAt !== undefined && point.timestamp >= exhaustedAt) break;
+        replay.now = point.timestamp;
+        const predicted = engine.predictTimeToLimit("replay", config.windowMinutes, config.shortWindowMinutes, {
+            ...context,
+            resetAt: window.recorded ? window.resetAt : undefined,
+        });
+
+        if (exhaustedAt !== undefined) {
+            tally.scored++;
+            if (predicted === Infinity) {
+                tally.missed++;
+                continue;
+            }
+            const actual = exhaustedAt - point.timestamp;
+            tally.errors.push(predicted - actual);
+            tally.relativeErrors.push(Math.abs(predicted - actual) / actual);
+        } else if (window.resetAt !== undefined) {
+            // The quota reset before the predicted exhaustion could happen, if there was one
+            tally.scored++;
+            if (predicted !== Infinity && point.timestamp + predicted <= window.resetAt) tally.falseAlarms++;
+        } else if (predicted !== Infinity && point.timestamp + predicted <= endedAt) {
+            // The history ends without a reset; only predictions that should have come true by then can be judged
+            tally.scored++;
+            tally.falseAlarms++;
+        }
+    }
+}
+
+function emptyTally(): Tally {
+    return { scored: 0, errors: [], relativeErrors: [], missed: 0, falseAlarms: 0 };
+}
+
+function mean(values: number[]): number | null {
+    return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+}
+
+function summarize(tally: Tally): BacktestMetrics {
+    return {
+        scored: tally.scored,
+        hits: tally.errors.length,
+        meanAbsoluteErrorMs: mean(tally.errors.map(Math.abs)),
+        biasMs: mean(tally.errors),
+        meanRelativeError: mean(tally.relativeErrors),
+        missed: tally.missed,
+        falseAlarms: tally.falseAlarms,
+    };
+}
+
+/**
+ * Replays recorded history through each prediction config at every recorded point in
+ * time, and compares the predicted exhaustion with the actual exhaustion or reset.
+ */
+export function backtestHistory(
+    points: QuotaHistoryPoint[],
+    configs: BacktestConfig[],
+    options: BacktestOptions = {}
+): BacktestReport {
+    const thresholdPercent = options.resetThresholdPercent ?? 20;
+    const byQuota = new Map<string, HistoryPoint[]>();
+    for (const { quotaId, ...point } of points) {
+        if (!byQuota.has(quotaId)) byQuota.set(quotaId, []);
+        byQuota.get(quotaId)!.push(point);
+    }
+
+    const overall = configs.map(() => emptyTally());
+    const quotas = [...byQuota.keys()].sort().map(quotaId => {
+        const series = byQuota.get(quotaId)!.sort((a, b) => a.timestamp - b.timestamp);
+        const resetTimes = (options.resetEvents ?? []).filter(e => e.quotaId === quotaId).map(e => e.timestamp);
+        const windows = splitWindows(series, resetTimes, thresholdPercent);
+
+        const results = configs.map((config, i) => {
+            const tally = emptyTally();
+            for (const window of windows) replayWindow(window, config, options.contexts?.get(quotaId), tally);
+            overall[i].scored += tally.scored;
+            overall[i].errors.push(...tally.errors);
+            overall[i].relativeErrors.push(...tally.relativeErrors);
+            overall[i].missed += tally.missed;
+            overall[i].falseAlarms += tally.falseAlarms;
+            return { config, metrics: summarize(tally) };
+        });
+
+        return {
+            quotaId,
+            points: series.length,
+            windows: windows.length,
+            exhaustions: windows.filter(w => exhaustionTime(w.points) !== undefined).length,
+            results,
+        };
+    });
+
+    return {
+        quotas,
+        overall: configs.map((config, i) => ({ config, metrics: summarize(overall[i]) })),
+    };
+}
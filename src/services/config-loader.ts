@@ -1,12 +1,12 @@
 import { readFile } from "node:fs/promises";
 import { existsSync } from "node:fs";
-import { join } from "node:path";
+import { dirname, join, resolve } from "node:path";
 import { homedir } from "node:os";
 import { DEFAULT_CONFIG } from "../defaults";
-import { type QuotaConfig } from "../interfaces";
+import { type QuotaConfig, type ProviderConfig } from "../interfaces";
 import { logger } from "../logger";
 
-import { validatePollingInterval } from "../utils/validation";
+import { validatePollingInterval, isDisplayMode, isPredictionEngineType, validateProviderConfig } from "../utils/validation";
 
 /**
  * Configuration loading and merging service.
@@ -81,7 +81,7 @@ export class ConfigLoader {
                 const rawConfig = await readFile(configPath, "utf-8");
                 const userConfig = JSON.parse(rawConfig);
                 
-                ConfigLoader.mergeUserConfig(result, userConfig);
+                ConfigLoader.mergeUserConfig(result, userConfig, dirname(configPath));
                 
                 logger.debug(
                     "init:config_loaded",
@@ -118,15 +118,26 @@ export class ConfigLoader {
 
     /**
      * Merges user configuration into the target config.
+     * Relative module provider paths are resolved against `configDir`.
      */
-    private static mergeUserConfig(target: QuotaConfig, userConfig: Partial<QuotaConfig>): void {
+    private static mergeUserConfig(
+        target: QuotaConfig,
+        userConfig: Partial<QuotaConfig>,
+        configDir: string
+    ): void {
         if (userConfig.debug !== undefined) {
             target.debug = userConfig.debug;
             logger.setDebug(!!target.debug);
         }
+        if (userConfig.displayMode !== undefined) {
+            target.displayMode = userConfig.displayMode;
+        }
         if (userConfig.enableExperimentalGithub !== undefined) {
             target.enableExperimentalGithub = userConfig.enableExperimentalGithub;
         }
+        if (userConfig.antigravityAllAccounts !== undefined) {
+            target.antigravityAllAccounts = userConfig.antigravityAllAccounts;
+        }
         if (userConfig.footer !== undefined) {
             target.footer = userConfig.footer;
         }
@@ -158,21 +169,61 @@ export class ConfigLoader {
         if (userConfig.historyMaxAgeHours !== undefined) {
             target.historyMaxAgeHours = userConfig.historyMaxAgeHours;
         }
+        if (userConfig.historyTiers !== undefined) {
+            target.historyTiers = Array.isArray(userConfig.historyTiers)
+                ? userConfig.historyTiers.map(t => ({ ...t }))
+                : userConfig.historyTiers;
+        }
         if (userConfig.historyResetThreshold !== undefined) {
             target.historyResetThreshold = userConfig.historyResetThreshold;
         }
         if (userConfig.predictionShortWindowMinutes !== undefined) {
             target.predictionShortWindowMinutes = userConfig.predictionShortWindowMinutes;
         }
+        if (userConfig.predictionEngine !== undefined) {
+            target.predictionEngine = userConfig.predictionEngine;
+        }
         if (userConfig.pollingInterval !== undefined) {
             target.pollingInterval = userConfig.pollingInterval;
         }
+        if (userConfig.staleAfterMinutes !== undefined) {
+            target.staleAfterMinutes = userConfig.staleAfterMinutes;
+        }
+        if (userConfig.refreshIntervals !== undefined) {
+            target.refreshIntervals = { ...userConfig.refreshIntervals };
+        }
+        if (Array.isArray(userConfig.providers)) {
+            target.providers = userConfig.providers.map(p => ConfigLoader.normalizeProviderEntry(p, configDir));
+        }
+    }
+
+    /**
+     * Expands module shorthands (`"my-provider"` or `{ "module": ... }` without a type)
+     * and makes relative module paths absolute.
+     */
+    private static normalizeProviderEntry(entry: unknown, configDir: string): ProviderConfig {
+        if (typeof entry === "string") {
+            entry = { type: "module", module: entry };
+        }
+        const provider = { ...(entry as ProviderConfig) };
+        if (provider.type === undefined && typeof (provider as { module?: unknown }).module === "string") {
+            (provider as { type: string }).type = "module";
+        }
+        if (provider.type === "module" && typeof provider.module === "string" && provider.module.startsWith(".")) {
+            provider.module = resolve(configDir, provider.module);
+        }
+        return provider;
     }
 
     /**
      * Validates and normalizes configuration values.
      */
     private static validateConfig(config: QuotaConfig): void {
+        if (!isDisplayMode(config.displayMode)) {
+            console.warn('[QuotaService] displayMode is invalid, using default');
+            config.displayMode = DEFAULT_CONFIG.displayMode;
+        }
+
         // Handle pollingInterval from user config
         const validated = validatePollingInterval(config.pollingInterval as unknown);
         if (validated === null) {
@@ -184,5 +235,72 @@ export class ConfigLoader {
         } else {
             config.pollingInterval = validated;
         }
+
+        if (config.staleAfterMinutes !== undefined
+            && (typeof config.staleAfterMinutes !== "number" || !(config.staleAfterMinutes > 0))) {
+            console.warn('[QuotaService] staleAfterMinutes is invalid, using default');
+            config.staleAfterMinutes = DEFAULT_CONFIG.staleAfterMinutes;
+        }
+
+        if (config.predictionEngine !== undefined && !isPredictionEngineType(config.predictionEngine)) {
+            console.warn('[QuotaService] predictionEngine is invalid, using default');
+            config.predictionEngine = DEFAULT_CONFIG.predictionEngine;
+        }
+
+        for (const group of config.aggregatedGroups ?? []) {
+            if (group.predictionEngine !== undefined && !isPredictionEngineType(group.predictionEngine)) {
+                console.warn(`[QuotaService] aggregatedGroups.${group.id}.predictionEngine is invalid, using predictionEngine`);
+                delete group.predictionEngine;
+            }
+        }
+
+        if (config.table?.trendWindowMinutes !== undefined
+            && (typeof config.table.trendWindowMinutes !== "number" || !(config.table.trendWindowMinutes > 0))) {
+            console.warn('[QuotaService] table.trendWindowMinutes is invalid, using default');
+            config.table.trendWindowMinutes = DEFAULT_CONFIG.table?.trendWindowMinutes;
+        }
+
+        if (config.table?.trendWidth !== undefined
+            && (!Number.isInteger(config.table.trendWidth) || !(config.table.trendWidth > 0))) {
+            console.warn('[QuotaService] table.trendWidth is invalid, using default');
+            config.table.trendWidth = DEFAULT_CONFIG.table?.trendWidth;
+        }
+
+        if (config.historyTiers !== undefined) {
+            const tiers = config.historyTiers as unknown;
+            const valid = Array.isArray(tiers) && tiers.every(t =>
+                t && typeof t === "object"
+                && typeof t.resolutionMinutes === "number" && t.resolutionMinutes > 0
+                && typeof t.maxAgeDays === "number" && t.maxAgeDays > 0);
+            if (!valid) {
+                console.warn('[QuotaService] historyTiers is invalid, using default');
+                config.historyTiers = DEFAULT_CONFIG.historyTiers?.map(t => ({ ...t }));
+            }
+        }
+
+        if (config.refreshIntervals !== undefined) {
+            const intervals: Record<string, number> = {};
+            for (const [id, value] of Object.entries(config.refreshIntervals ?? {})) {
+                const interval = validatePollingInterval(value);
+                if (interval === null) {
+                    console.warn(`[QuotaService] refreshIntervals.${id} is invalid, using pollingInterval`);
+                    continue;
+                }
+                intervals[id] = Math.max(interval, 1_000);
+            }
+            config.refreshIntervals = intervals;
+        }
+
+        if (config.providers) {
+            config.providers = config.providers.filter(p => {
+                const error = validateProviderConfig(p);
+                if (error) {
+                    logger.warn("init:provider_config_invalid", { error });
+                    console.warn(`[QuotaService] Ignoring invalid provider config: ${error}`);
+                    return false;
+                }
+                return true;
+            });
+        }
     }
 }
@@ -1,12 +1,51 @@
-import { writeFile, readFile } from "node:fs/promises";
+import { appendFile, readFile, rename, unlink, writeFile } from "node:fs/promises";
 import { existsSync, mkdirSync } from "node:fs";
 import { join } from "node:path";
-import { HISTORY_FILE } from "../utils/paths";
-import { type IHistoryService, type HistoryPoint, type QuotaData } from "../interfaces";
+import { HISTORY_FILE, LEGACY_HISTORY_FILE } from "../utils/paths";
+import { type IHistoryService, type HistoryPoint, type HistoryTier, type QuotaData, type QuotaHistoryPoint, type ResetEvent } from "../interfaces";
+import { DEFAULT_CONFIG } from "../defaults";
 import { logger } from "../logger";
 
+/**
+ * One line of the NDJSON history log: a raw usage point, a downsampled point of the tier
+ * with resolution `res` (minutes), or a reset event after which the quota's raw history
+ * is cleared.
+ */
+type HistoryRecord =
+    | ({ id: string; res?: number } & HistoryPoint)
+    | ({ id: string; reset: true } & Omit<ResetEvent, "quotaId">);
+
+/**
+ * Downsampled points keyed by tier resolution (minutes), then by quota ID.
+ */
+type TierSeries = Record<number, Record<string, HistoryPoint[]>>;
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/**
+ * History is stored as an append-only NDJSON log: a `{"version":2}` header followed by
+ * one record per line. Appends never rewrite the file; once it holds many more lines than
+ * live points, it is compacted by writing a temp file and renaming it over the log.
+ *
+ * Raw points are kept for `maxWindowMs`. Each history tier additionally keeps the last
+ * sample of every bucket for longer. Tier points are derived from raw points as they are
+ * appended and only written to the log on compaction.
+ *
+ * A reset clears only the raw points, which then hold the current quota window; the
+ * tiers keep earlier windows, and prediction engines skip points before the last reset.
+ */
 export class HistoryService implements IHistoryService {
-    private static readonly CURRENT_VERSION = 1;
+    private static readonly CURRENT_VERSION = 2;
+
+    /**
+     * Compact once the log has this many times more lines than live points...
+     */
+    private static readonly COMPACTION_RATIO = 2;
+    /**
+     * ...and at least this many lines.
+     */
+    private static readonly MIN_COMPACTION_LINES = 1000;
 
     /**
      * Threshold for detecting a quota reset.
@@ -19,16 +58,49 @@ export class HistoryService implements IHistoryService {
     private static readonly RESET_THRESHOLD_PERCENT = 20;
 
     private historyPath: string;
+    private legacyPath: string | null;
     private data: Record<string, HistoryPoint[]> = {};
+    private tiers: HistoryTier[] = [...(DEFAULT_CONFIG.historyTiers ?? [])];
+    private downsampled: TierSeries = {};
+    private resets: ResetEvent[] = [];
     private maxWindowMs: number = 24 * 60 * 60 * 1000; // Keep 24 hours of history
     private resetThresholdPercent: number = HistoryService.RESET_THRESHOLD_PERCENT;
-    private saveTimeout: ReturnType<typeof setTimeout> | null = null;
+    private lineCount: number = 0;
+    private writeQueue: Promise<void> = Promise.resolve();
 
-    constructor(customPath?: string) {
+    /**
+     * @param customPath NDJSON log path. Defaults to `quota-history.ndjson` in the data directory.
+     * @param legacyPath Version-1 JSON file migrated into the log on first init. Defaults to
+     *   `quota-history.json` in the data directory when no custom path is given.
+     */
+    constructor(customPath?: string, legacyPath?: string) {
         this.historyPath = customPath || HISTORY_FILE();
+        this.legacyPath = legacyPath ?? (customPath ? null : LEGACY_HISTORY_FILE());
     }
 
     async init(): Promise<void> {
+        await this.open(true);
+    }
+
+    /**
+     * Followers re-read the leader's log but must never write to it, so no repair here.
+     */
+    async reload(): Promise<void> {
+        const previous = { data: this.data, downsampled: this.downsampled, resets: this.resets };
+        await this.open(false);
+        // A read that raced with the writer's compaction comes back empty; keep what we had
+        if (Object.keys(this.data).length === 0) {
+            this.data = previous.data;
+            this.downsampled = previous.downsampled;
+            this.resets = previous.resets;
+        }
+    }
+
+    private async open(repair: boolean): Promise<void> {
+        this.data = {};
+        this.downsampled = {};
+        this.resets = [];
+        this.lineCount = 0;
         try {
             const dir = join(this.historyPath, "..");
             if (!existsSync(dir)) {
@@ -36,51 +108,145 @@ export class HistoryService implements IHistoryService {
             }
 
             if (existsSync(this.historyPath)) {
-                const raw = await readFile(this.historyPath, "utf-8");
-
-                let parsed: unknown;
-                try {
-                    parsed = JSON.parse(raw);
-                } catch (e) {
-                    logger.error("history-service:parse_failed", { path: this.historyPath, error: e });
-                    this.data = {};
-                    return;
-                }
+                await this.load(repair);
+            } else if (repair && this.legacyPath && existsSync(this.legacyPath)) {
+                await this.migrateLegacy(this.legacyPath);
+            }
+        } catch (e) {
+            logger.error("history-service:init_failed", { path: this.historyPath, error: e });
+            this.data = {};
+            this.downsampled = {};
+            this.resets = [];
+        }
+    }
+
+    /**
+     * Replays the log into memory. Lines that fail to parse (typically a partial last
+     * line left by a crash mid-append) are skipped; with `repair`, the log is then
+     * compacted so later appends start on a clean line.
+     */
+    private async load(repair: boolean): Promise<void> {
+        const raw = await readFile(this.historyPath, "utf-8");
+        const data: Record<string, HistoryPoint[]> = {};
+        const downsampled: TierSeries = {};
+        const resets: ResetEvent[] = [];
+        let lineCount = 0;
+        let skipped = 0;
 
-                if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
-                    const obj = parsed as Record<string, any>;
-                    const version = typeof obj.version === "number" ? obj.version : (typeof obj.v === "number" ? obj.v : undefined);
+        for (const line of raw.split("\n")) {
+            if (line.trim() === "") continue;
+            lineCount++;
 
-                    if (version !== undefined) {
-                        if (version === HistoryService.CURRENT_VERSION) {
-                            this.data = (obj.data ?? {}) as Record<string, HistoryPoint[]>;
-                        } else {
-                            logger.error("history-service:unsupported_version", { path: this.historyPath, version });
-                            this.data = (obj.data ?? {}) as Record<string, HistoryPoint[]>;
-                        }
-                    } else {
-                        this.data = parsed as Record<string, HistoryPoint[]>;
-                        logger.info("history-service:migrated", { path: this.historyPath, from: "legacy", to: HistoryService.CURRENT_VERSION });
+            let record: Record<string, unknown>;
+            try {
+                record = JSON.parse(line);
+            } catch {
+                skipped++;
+                continue;
+            }
 
-                        // Only persist migrated data if there's something to save
-                        if (Object.keys(this.data).length > 0) {
-                            await this.flushSave();
+            if (typeof record.version === "number") {
+                if (record.version !== HistoryService.CURRENT_VERSION) {
+                    logger.error("history-service:unsupported_version", { path: this.historyPath, version: record.version });
+                }
+                continue;
+            }
+            if (typeof record.id !== "string" || typeof record.timestamp !== "number") {
+                skipped++;
+                continue;
+            }
+
+            if (record.reset === true) {
+                // Markers without usage fields predate reset events and clear the tiers as well
+                if (typeof record.usedBefore === "number" && typeof record.usedAfter === "number") {
+                    // Raw points appended since the last compaction are not in the tiers yet
+                    for (const tier of this.tiers) {
+                        const target = ((downsampled[tier.resolutionMinutes] ??= {})[record.id] ??= []);
+                        for (const point of data[record.id] ?? []) {
+                            HistoryService.fold(target, point, tier.resolutionMinutes * MINUTE_MS);
                         }
                     }
+                    data[record.id] = [];
+                    resets.push({
+                        quotaId: record.id,
+                        timestamp: record.timestamp,
+                        usedBefore: record.usedBefore,
+                        usedAfter: record.usedAfter,
+                        peakUsed: typeof record.peakUsed === "number" ? record.peakUsed : record.usedBefore,
+                        limit: typeof record.limit === "number" ? record.limit : null,
+                    });
                 } else {
-                    logger.error("history-service:init_failed", { path: this.historyPath, error: new Error("invalid_history_format") });
-                    this.data = {};
+                    data[record.id] = [];
+                    for (const res in downsampled) delete downsampled[res][record.id];
                 }
+            } else if (typeof record.used === "number") {
+                const series = typeof record.res === "number" ? (downsampled[record.res] ??= {}) : data;
+                (series[record.id] ??= []).push({
+                    timestamp: record.timestamp,
+                    used: record.used,
+                    limit: typeof record.limit === "number" ? record.limit : null,
+                });
+            } else {
+                skipped++;
             }
+        }
+
+        this.data = data;
+        this.downsampled = downsampled;
+        this.resets = resets;
+        this.lineCount = lineCount;
+        this.syncTiers();
+
+        const partialLastLine = raw.length > 0 && !raw.endsWith("\n");
+        if (skipped > 0 || partialLastLine) {
+            logger.warn("history-service:recovered", { path: this.historyPath, skipped, partialLastLine });
+            if (repair) await this.compact();
+        }
+    }
+
+    /**
+     * Imports a version-1 (or unversioned) whole-file JSON history into the log,
+     * then removes the old file.
+     */
+    private async migrateLegacy(legacyPath: string): Promise<void> {
+        const raw = await readFile(legacyPath, "utf-8");
+
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(raw);
         } catch (e) {
-            logger.error("history-service:init_failed", { path: this.historyPath, error: e });
-            this.data = {};
+            logger.error("history-service:parse_failed", { path: legacyPath, error: e });
+            return;
+        }
+        if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+            logger.error("history-service:init_failed", { path: legacyPath, error: new Error("invalid_history_format") });
+            return;
+        }
+
+        const obj = parsed as Record<string, any>;
+        const version = typeof obj.version === "number" ? obj.version : (typeof obj.v === "number" ? obj.v : undefined);
+        const data = (version !== undefined ? obj.data ?? {} : obj) as Record<string, HistoryPoint[]>;
+
+        this.data = {};
+        for (const [id, points] of Object.entries(data)) {
+            if (Array.isArray(points)) this.data[id] = points;
         }
+        this.syncTiers();
+
+        await this.compact();
+        await unlink(legacyPath).catch((e) => {
+            logger.error("history-service:legacy_cleanup_failed", { path: legacyPath, error: e });
+        });
+        logger.info("history-service:migrated", {
+            path: this.historyPath,
+            from: version ?? "legacy",
+            to: HistoryService.CURRENT_VERSION,
+        });
     }
 
     async append(snapshot: QuotaData[]): Promise<void> {
         const timestamp = Date.now();
-        let changed = false;
+        const records: HistoryRecord[] = [];
         
         for (const quota of snapshot) {
             if (!this.data[quota.id]) {
@@ -101,30 +267,48 @@ export class HistoryService implements IHistoryService {
                         currentUsed: quota.used,
                         limit: quota.limit,
                     });
-                    // Clear history for this quota to start fresh
+                    const event: ResetEvent = {
+                        quotaId: quota.id,
+                        timestamp,
+                        usedBefore: lastPoint.used,
+                        usedAfter: quota.used,
+                        peakUsed: this.peakUsed(quota.id),
+                        limit: lastPoint.limit,
+                    };
+                    this.resets.push(event);
+
+                    // Start the new window's raw history; the tiers keep the old one
                     this.data[quota.id] = [];
-                    changed = true;
+                    records.push(HistoryService.resetRecord(event));
                 }
             }
             
-            this.data[quota.id].push({
+            const point: HistoryPoint = {
                 timestamp,
                 used: quota.used,
                 limit: quota.limit
-            });
+            };
+            this.addPoint(quota.id, point);
+            records.push({ id: quota.id, ...point });
 
-            // Prune old data for this quota
-            const cutoff = timestamp - this.maxWindowMs;
-            const originalLength = this.data[quota.id].length;
-            this.data[quota.id] = this.data[quota.id].filter(p => p.timestamp >= cutoff);
-            
-            if (this.data[quota.id].length !== originalLength || originalLength > 0) {
-                changed = true;
-            }
+            // Prune old data for this quota; pruned lines are dropped at the next compaction
+            this.prune(quota.id, timestamp);
         }
 
-        if (changed || snapshot.length > 0) {
-            this.save();
+        if (records.length === 0) return;
+
+        await this.enqueue(async () => {
+            if (!existsSync(this.historyPath)) {
+                await this.writeLog();
+                return;
+            }
+            await appendFile(this.historyPath, records.map(r => JSON.stringify(r) + "\n").join(""), "utf-8");
+            this.lineCount += records.length;
+            logger.debug("history-service:append_success", { path: this.historyPath, lines: records.length });
+        });
+
+        if (this.needsCompaction()) {
+            await this.compact();
         }
     }
 
@@ -162,14 +346,112 @@ export class HistoryService implements IHistoryService {
     getHistory(quotaId: string, windowMs: number): HistoryPoint[] {
         const now = Date.now();
         const cutoff = now - windowMs;
-        const history = this.data[quotaId] || [];
+        const history = this.seriesFor(windowMs)[quotaId] || [];
         return history.filter(p => p.timestamp >= cutoff);
     }
 
+    /**
+     * Raw points when the window fits the raw retention, otherwise the finest tier that
+     * keeps the whole window (or the longest-lived tier if none does).
+     */
+    private seriesFor(windowMs: number): Record<string, HistoryPoint[]> {
+        if (windowMs <= this.maxWindowMs || this.tiers.length === 0) {
+            return this.data;
+        }
+        const tier = this.tiers.find(t => t.maxAgeDays * DAY_MS >= windowMs)
+            ?? this.tiers.reduce((a, b) => (b.maxAgeDays > a.maxAgeDays ? b : a));
+        return this.downsampled[tier.resolutionMinutes] ?? {};
+    }
+
+    getResetEvents(quotaId?: string, windowMs?: number): ResetEvent[] {
+        const cutoff = windowMs === undefined ? -Infinity : Date.now() - windowMs;
+        return this.resets
+            .filter(e => (quotaId === undefined || e.quotaId === quotaId) && e.timestamp >= cutoff)
+            .map(e => ({ ...e }));
+    }
+
+    /**
+     * IDs of all quotas with raw or downsampled history.
+     */
+    getQuotaIds(): string[] {
+        const ids = new Set(Object.keys(this.data));
+        for (const series of Object.values(this.downsampled)) {
+            for (const id in series) ids.add(id);
+        }
+        return [...ids].filter(id => this.pointsOf(id).length > 0).sort();
+    }
+
+    /**
+     * Returns every stored point within `windowMs` (all of them if omitted), oldest first,
+     * at the finest resolution kept for each period: raw points, then the finer tiers for
+     * older periods, including quota windows that ended in a reset.
+     */
+    exportPoints(options: { quotaId?: string; windowMs?: number } = {}): QuotaHistoryPoint[] {
+        const cutoff = options.windowMs === undefined ? -Infinity : Date.now() - options.windowMs;
+        const ids = options.quotaId !== undefined ? [options.quotaId] : this.getQuotaIds();
+
+        return ids.flatMap(quotaId => {
+            let points = this.data[quotaId] ?? [];
+            for (const tier of this.tiers) {
+                const oldest = points[0]?.timestamp ?? Infinity;
+                const older = (this.downsampled[tier.resolutionMinutes]?.[quotaId] ?? []).filter(p => p.timestamp < oldest);
+                points = [...older, ...points];
+            }
+            return points.filter(p => p.timestamp >= cutoff).map(p => ({ quotaId, ...p }));
+        });
+    }
+
+    /**
+     * Merges points into the history, skipping any whose quota already has a point with the
+     * same timestamp. Points are kept at every resolution whose retention covers them.
+     * Returns the number of points added.
+     */
+    async importPoints(points: QuotaHistoryPoint[]): Promise<number> {
+        const now = Date.now();
+        const seen = new Map<string, Set<number>>();
+        let added = 0;
+
+        for (const { quotaId, timestamp, used, limit } of [...points].sort((a, b) => a.timestamp - b.timestamp)) {
+            let timestamps = seen.get(quotaId);
+            if (!timestamps) {
+                timestamps = new Set(this.pointsOf(quotaId).map(p => p.timestamp));
+                seen.set(quotaId, timestamps);
+            }
+            if (timestamps.has(timestamp)) continue;
+            timestamps.add(timestamp);
+
+            const point: HistoryPoint = { timestamp, used, limit };
+            let kept = false;
+
+            if (now - timestamp <= this.maxWindowMs) {
+                HistoryService.merge(this.data[quotaId] ??= [], point, null);
+                kept = true;
+            }
+            for (const tier of this.tiers) {
+                if (now - timestamp > tier.maxAgeDays * DAY_MS) continue;
+                const series = (this.downsampled[tier.resolutionMinutes] ??= {});
+                HistoryService.merge(series[quotaId] ??= [], point, tier.resolutionMinutes * MINUTE_MS);
+                kept = true;
+            }
+            if (kept) added++;
+        }
+
+        if (added > 0) {
+            await this.compact();
+        }
+        logger.debug("history-service:import", { path: this.historyPath, received: points.length, added });
+        return added;
+    }
+
     setMaxAge(hours: number): void {
         this.maxWindowMs = hours * 60 * 60 * 1000;
     }
 
+    setTiers(tiers: HistoryTier[]): void {
+        this.tiers = [...tiers].sort((a, b) => a.resolutionMinutes - b.resolutionMinutes);
+        this.syncTiers();
+    }
+
     setResetThreshold(percent: number): void {
         this.resetThresholdPercent = percent;
     }
@@ -194,43 +476,191 @@ export class HistoryService implements IHistoryService {
             }
         }
 
+        for (const tier of this.tiers) {
+            const series = this.downsampled[tier.resolutionMinutes] ?? {};
+            const tierCutoff = now - tier.maxAgeDays * DAY_MS;
+            for (const id in series) {
+                const originalLen = series[id].length;
+                series[id] = series[id].filter(p => p.timestamp >= tierCutoff);
+                if (series[id].length !== originalLen) {
+                    changed = true;
+                }
+                if (series[id].length === 0) {
+                    delete series[id];
+                }
+            }
+        }
+
+        // Reset events are kept as long as the longest-lived history
+        const resetCutoff = now - Math.max(this.maxWindowMs, ...this.tiers.map(t => t.maxAgeDays * DAY_MS));
+        const resetCount = this.resets.length;
+        this.resets = this.resets.filter(e => e.timestamp >= resetCutoff);
+        if (this.resets.length !== resetCount) {
+            changed = true;
+        }
+
         if (changed) {
-            this.save();
+            await this.compact();
         }
     }
 
-    private save(): void {
-        if (this.saveTimeout) {
-            clearTimeout(this.saveTimeout);
+    private addPoint(quotaId: string, point: HistoryPoint): void {
+        (this.data[quotaId] ??= []).push(point);
+        for (const tier of this.tiers) {
+            const series = (this.downsampled[tier.resolutionMinutes] ??= {});
+            HistoryService.fold(series[quotaId] ??= [], point, tier.resolutionMinutes * MINUTE_MS);
         }
+    }
 
-        this.saveTimeout = setTimeout(async () => {
-            try {
-                const payload = { version: HistoryService.CURRENT_VERSION, data: this.data };
-                await writeFile(this.historyPath, JSON.stringify(payload, null, 2), "utf-8");
-                logger.debug("history-service:save_success", { path: this.historyPath });
-            } catch (e) {
-                logger.error("history-service:save_failed", { path: this.historyPath, error: e });
+    /**
+     * Highest usage recorded for a quota since its last reset, across raw and tier points.
+     */
+    private peakUsed(quotaId: string): number {
+        const resets = this.resets.filter(e => e.quotaId === quotaId);
+        const since = resets.length > 0 ? resets[resets.length - 1].timestamp : -Infinity;
+        return this.pointsOf(quotaId)
+            .filter(p => p.timestamp >= since)
+            .reduce((peak, p) => Math.max(peak, p.used), -Infinity);
+    }
+
+    private pointsOf(quotaId: string): HistoryPoint[] {
+        return [this.data[quotaId] ?? [], ...Object.values(this.downsampled).map(s => s[quotaId] ?? [])].flat();
+    }
+
+    private static resetRecord(event: ResetEvent): HistoryRecord {
+        const { quotaId, ...rest } = event;
+        return { id: quotaId, reset: true, ...rest };
+    }
+
+    private prune(quotaId: string, now: number): void {
+        const cutoff = now - this.maxWindowMs;
+        this.data[quotaId] = this.data[quotaId].filter(p => p.timestamp >= cutoff);
+        for (const tier of this.tiers) {
+            const series = this.downsampled[tier.resolutionMinutes];
+            if (!series?.[quotaId]) continue;
+            const tierCutoff = now - tier.maxAgeDays * DAY_MS;
+            series[quotaId] = series[quotaId].filter(p => p.timestamp >= tierCutoff);
+        }
+    }
+
+    /**
+     * Drops series of tiers that are no longer configured and folds the raw points into
+     * every configured tier, so new tiers start with the raw history.
+     */
+    private syncTiers(): void {
+        const resolutions = new Set(this.tiers.map(t => t.resolutionMinutes));
+        for (const res of Object.keys(this.downsampled).map(Number)) {
+            if (!resolutions.has(res)) delete this.downsampled[res];
+        }
+        for (const tier of this.tiers) {
+            const series = (this.downsampled[tier.resolutionMinutes] ??= {});
+            for (const [id, points] of Object.entries(this.data)) {
+                const target = (series[id] ??= []);
+                for (const point of points) {
+                    HistoryService.fold(target, point, tier.resolutionMinutes * MINUTE_MS);
+                }
             }
-            this.saveTimeout = null;
-        }, 5000);
+        }
     }
 
     /**
-     * Immediately write the current data payload to disk (used in tests and migrations).
+     * Folds a point into a downsampled series: it replaces the last point of its bucket
+     * when it is newer, or starts a new bucket. Points older than the last bucket are
+     * already covered and ignored, which makes folding the same point twice a no-op.
      */
-    private async flushSave(): Promise<void> {
-        if (this.saveTimeout) {
-            clearTimeout(this.saveTimeout);
-            this.saveTimeout = null;
+    private static fold(series: HistoryPoint[], point: HistoryPoint, resolutionMs: number): void {
+        const last = series[series.length - 1];
+        if (last && point.timestamp < last.timestamp) {
+            return;
+        }
+        if (last && Math.floor(last.timestamp / resolutionMs) === Math.floor(point.timestamp / resolutionMs)) {
+            series[series.length - 1] = { ...point };
+            return;
         }
+        series.push({ ...point });
+    }
 
-        try {
-            const payload = { version: HistoryService.CURRENT_VERSION, data: this.data };
-            await writeFile(this.historyPath, JSON.stringify(payload, null, 2), "utf-8");
-            logger.debug("history-service:save_success", { path: this.historyPath });
-        } catch (e) {
-            logger.error("history-service:save_failed", { path: this.historyPath, error: e });
+    /**
+     * Inserts a point into a series in timestamp order. With a resolution, a bucket keeps only
+     * its newest sample: the point is dropped if its bucket already holds a newer one.
+     */
+    private static merge(series: HistoryPoint[], point: HistoryPoint, resolutionMs: number | null): void {
+        let i = series.length;
+        while (i > 0 && series[i - 1].timestamp > point.timestamp) i--;
+
+        if (resolutionMs !== null) {
+            const bucket = Math.floor(point.timestamp / resolutionMs);
+            const prev = series[i - 1];
+            const next = series[i];
+            if (next && Math.floor(next.timestamp / resolutionMs) === bucket) return;
+            if (prev && Math.floor(prev.timestamp / resolutionMs) === bucket) {
+                series[i - 1] = { ...point };
+                return;
+            }
+        }
+        series.splice(i, 0, { ...point });
+    }
+
+    private needsCompaction(): boolean {
+        let livePoints = 0;
+        for (const id in this.data) livePoints += this.data[id].length;
+        for (const res in this.downsampled) {
+            for (const id in this.downsampled[res]) livePoints += this.downsampled[res][id].length;
+        }
+        livePoints += this.resets.length;
+        const threshold = Math.max(
+            HistoryService.MIN_COMPACTION_LINES,
+            HistoryService.COMPACTION_RATIO * livePoints,
+        );
+        return this.lineCount > threshold;
+    }
+
+    /**
+     * Rewrites the log with only the live points.
+     */
+    private async compact(): Promise<void> {
+        await this.enqueue(() => this.writeLog());
+    }
+
+    /**
+     * Writes the full log to a temp file and renames it into place, so a crash
+     * mid-write leaves the previous log intact.
+     */
+    private async writeLog(): Promise<void> {
+        const lines = [JSON.stringify({ version: HistoryService.CURRENT_VERSION })];
+        // Reset events come first: replaying them clears raw history, which is still empty at that point
+        for (const event of this.resets) {
+            lines.push(JSON.stringify(HistoryService.resetRecord(event)));
         }
+        for (const [res, series] of Object.entries(this.downsampled)) {
+            for (const [id, points] of Object.entries(series)) {
+                for (const point of points) {
+                    lines.push(JSON.stringify({ id, res: Number(res), ...point }));
+                }
+            }
+        }
+        for (const [id, points] of Object.entries(this.data)) {
+            for (const point of points) {
+                lines.push(JSON.stringify({ id, ...point }));
+            }
+        }
+
+        // Per-process temp file, so two processes compacting at once never share one
+        const tmpPath = `${this.historyPath}.${process.pid}.tmp`;
+        await writeFile(tmpPath, lines.join("\n") + "\n", "utf-8");
+        await rename(tmpPath, this.historyPath);
+        this.lineCount = lines.length;
+        logger.debug("history-service:compact_success", { path: this.historyPath, lines: lines.length });
+    }
+
+    /**
+     * Serializes writes so appends never interleave with a compaction.
+     */
+    private enqueue(write: () => Promise<void>): Promise<void> {
+        const run = this.writeQueue.then(write).catch((e) => {
+            logger.error("history-service:save_failed", { path: this.historyPath, error: e });
+        });
+        this.writeQueue = run;
+        return run;
     }
 }
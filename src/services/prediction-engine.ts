@@ -1,4 +1,14 @@
-import { type IPredictionEngine, type IHistoryService, type HistoryPoint } from "../interfaces";
+import {
+    type BurnRate,
+    type IPredictionEngine,
+    type IHistoryService,
+    type HistoryPoint,
+    type PredictionContext,
+    type PredictionEngineType,
+    type QuotaData,
+    type TimeToLimitPrediction,
+} from "../interfaces";
+import { clamp } from "../utils/validation";
 
 /**
  * Configuration options for the prediction engine.
@@ -15,6 +25,12 @@ export interface PredictionEngineConfig {
      * the prediction returns Infinity. Defaults to 5 minutes.
      */
     idleTimeoutMs?: number;
+
+    /**
+     * Current time in epoch ms. Defaults to `Date.now`; backtests replay history
+     * with a simulated clock.
+     */
+    now?: () => number;
 }
 
 /**
@@ -25,6 +41,164 @@ export interface PredictionEngineConfig {
  */
 const SHORT_WINDOW_FALLBACK_RATIO = 0.15;
 
+/**
+ * Quota windows at least this long (e.g. weekly/monthly) skip short-term spike detection.
+ */
+const LONG_TERM_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+/**
+ * Half-width of a 95% confidence interval, in standard errors.
+ */
+const INTERVAL_Z = 1.96;
+
+/**
+ * Fits on fewer points than this get a proportionally lower confidence.
+ */
+const CONFIDENT_POINT_COUNT = 10;
+
+/**
+ * Prediction context of a quota: its window and the time it resets.
+ */
+export function predictionContextOf(quota: QuotaData): PredictionContext {
+    return { windowInfo: quota.window, windowMs: quota.windowMs, resetAt: quota.resetAt };
+}
+
+/**
+ * Whether a quota window is long enough that short-term spikes should be ignored.
+ * Prefers the numeric `windowMs` and falls back to parsing the window description.
+ */
+export function isLongTermWindow(context?: PredictionContext): boolean {
+    if (context?.windowMs !== undefined) {
+        return context.windowMs >= LONG_TERM_WINDOW_MS;
+    }
+    return !!context?.windowInfo && /week|month|\d+d/i.test(context.windowInfo);
+}
+
+/**
+ * History window the long regression (or smoothing) runs over. Long-term quotas use
+ * their whole window, served from downsampled history.
+ */
+function longWindowMs(windowMinutes: number, context?: PredictionContext): number {
+    return isLongTermWindow(context) && context?.windowMs !== undefined
+        ? Math.max(windowMinutes * 60 * 1000, context.windowMs)
+        : windowMinutes * 60 * 1000;
+}
+
+/**
+ * History within `windowMs` since the quota's last reset. A reset only clears raw history,
+ * so downsampled tiers still hold the previous quota window.
+ */
+function currentWindowHistory(historyService: IHistoryService, quotaId: string, windowMs: number): HistoryPoint[] {
+    const history = historyService.getHistory(quotaId, windowMs);
+    const resets = historyService.getResetEvents(quotaId, windowMs);
+    if (resets.length === 0) return history;
+    const lastReset = resets[resets.length - 1].timestamp;
+    return history.filter(p => p.timestamp >= lastReset);
+}
+
+/**
+ * Milliseconds until `level` reaches the limit at `rate` (usage per ms), measured from now.
+ */
+function timeToLimitFrom(level: number, rate: number, lastPoint: HistoryPoint, now: number): number {
+    if (rate <= 0) return Infinity;
+    if (lastPoint.limit === null || lastPoint.limit <= 0) return Infinity;
+    if (lastPoint.limit - lastPoint.used <= 0) return 0;
+
+    const remaining = lastPoint.limit - level;
+    if (remaining <= 0) return 0;
+
+    return Math.max(0, remaining / rate - (now - lastPoint.timestamp));
+}
+
+/**
+ * A least-squares line through usage points: slope in usage per ms and its standard
+ * error (Infinity when fewer than three points leave no residuals to judge the fit by).
+ */
+type LineFit = {
+    slope: number;
+    standardError: number;
+    count: number;
+};
+
+function fitLine(history: HistoryPoint[]): LineFit {
+    const n = history.length;
+    if (n < 2) return { slope: 0, standardError: Infinity, count: n };
+
+    let sumX = 0, sumY = 0, sumXY = 0, sumX2 = 0;
+    const firstTimestamp = history[0].timestamp;
+
+    for (const p of history) {
+        const x = p.timestamp - firstTimestamp;
+        const y = p.used;
+        sumX += x;
+        sumY += y;
+        sumXY += x * y;
+        sumX2 += x * x;
+    }
+
+    const denominator = (n * sumX2 - sumX * sumX);
+    if (denominator === 0) return { slope: 0, standardError: Infinity, count: n };
+
+    const slope = (n * sumXY - sumX * sumY) / denominator;
+    if (n < 3) return { slope, standardError: Infinity, count: n };
+
+    const intercept = (sumY - slope * sumX) / n;
+    let residuals = 0;
+    for (const p of history) {
+        const residual = p.used - (intercept + slope * (p.timestamp - firstTimestamp));
+        residuals += residual * residual;
+    }
+    // Spread of x around its mean, denominator / n
+    const sxx = denominator / n;
+    return { slope, standardError: Math.sqrt(residuals / (n - 2) / sxx), count: n };
+}
+
+/**
+ * Turns a rate and its uncertainty into a prediction. Returns null when the expected
+ * rate never reaches the limit.
+ */
+function predictionRange(
+    level: number,
+    fit: LineFit,
+    lastPoint: HistoryPoint,
+    now: number,
+    context: PredictionContext | undefined
+): TimeToLimitPrediction | null {
+    const expectedMs = timeToLimitFrom(level, fit.slope, lastPoint, now);
+    if (expectedMs === Infinity) return null;
+    if (expectedMs === 0) return withReset({ expectedMs, optimisticMs: 0, pessimisticMs: 0, confidence: 1 }, context, now);
+
+    const margin = INTERVAL_Z * fit.standardError;
+    const precision = Number.isFinite(margin) ? clamp(1 - margin / fit.slope, 0, 1) : 0;
+    return withReset({
+        expectedMs,
+        optimisticMs: timeToLimitFrom(level, fit.slope - margin, lastPoint, now),
+        pessimisticMs: timeToLimitFrom(level, fit.slope + margin, lastPoint, now),
+        confidence: precision * Math.min(1, fit.count / CONFIDENT_POINT_COUNT),
+    }, context, now);
+}
+
+/**
+ * Relates the expected exhaustion to the quota's reset. A reset instant that has
+ * already passed (e.g. from a stale snapshot) is ignored.
+ */
+function withReset(prediction: TimeToLimitPrediction, context: PredictionContext | undefined, now: number): TimeToLimitPrediction {
+    const resetInMs = context?.resetAt !== undefined ? context.resetAt - now : 0;
+    if (resetInMs <= 0) return prediction;
+    if (prediction.expectedMs >= resetInMs) return { ...prediction, resetsFirst: true };
+    return { ...prediction, blockedMs: resetInMs - prediction.expectedMs };
+}
+
+/**
+ * Milliseconds until the limit is hit within the current window, or Infinity when
+ * there is no prediction or the quota resets first.
+ */
+function timeToLimitWithin(prediction: TimeToLimitPrediction | null): number {
+    return prediction && !prediction.resetsFirst ? prediction.expectedMs : Infinity;
+}
+
 /**
  * Prediction engine using dual-window linear regression.
  * 
@@ -43,6 +217,7 @@ export class LinearRegressionPredictionEngine implements IPredictionEngine {
         this.config = {
             predictionShortWindowMinutes: config?.predictionShortWindowMinutes ?? 5,
             idleTimeoutMs: config?.idleTimeoutMs ?? 5 * 60 * 1000,
+            now: config?.now ?? (() => Date.now()),
         };
     }
 
@@ -54,85 +229,341 @@ export class LinearRegressionPredictionEngine implements IPredictionEngine {
         quotaId: string, 
         windowMinutes: number = 60, 
         shortWindowMinutes?: number,
-        context?: { windowInfo?: string }
+        context?: PredictionContext
     ): number {
-        const longWindowMs = windowMinutes * 60 * 1000;
+        return timeToLimitWithin(this.predictTimeToLimitRange(quotaId, windowMinutes, shortWindowMinutes, context));
+    }
+
+    /**
+     * Bounds the prediction with the standard error of the regression it is based on.
+     */
+    predictTimeToLimitRange(
+        quotaId: string,
+        windowMinutes: number = 60,
+        shortWindowMinutes?: number,
+        context?: PredictionContext
+    ): TimeToLimitPrediction | null {
+        const fits = this.calculateFits(quotaId, windowMinutes, shortWindowMinutes, context);
+        if (!fits || fits.idle) return null;
+
+        // Conservative Estimation: use the steeper of the two slopes
+        const fit = fits.short !== undefined && fits.short.slope > fits.long.slope ? fits.short : fits.long;
+
+        return predictionRange(fits.lastPoint.used, fit, fits.lastPoint, fits.now, context);
+    }
+
+    /**
+     * Returns the long and short-window slopes per hour. Idle quotas burn at 0.
+     */
+    predictBurnRate(
+        quotaId: string,
+        windowMinutes: number = 60,
+        shortWindowMinutes?: number,
+        context?: PredictionContext
+    ): BurnRate | null {
+        const fits = this.calculateFits(quotaId, windowMinutes, shortWindowMinutes, context);
+        if (!fits) return null;
+
+        const perHour = (fit: LineFit) => (fits.idle ? 0 : fit.slope * MS_PER_HOUR);
+        if (fits.short === undefined) return { perHour: perHour(fits.long) };
+        return {
+            perHour: perHour(fits.long),
+            shortPerHour: perHour(fits.short),
+            shortWindowMinutes: shortWindowMinutes ?? this.config.predictionShortWindowMinutes,
+        };
+    }
+
+    /**
+     * Fits the long window and, unless the quota is long-term, the short window.
+     * Returns null without enough history.
+     */
+    private calculateFits(
+        quotaId: string,
+        windowMinutes: number,
+        shortWindowMinutes: number | undefined,
+        context: PredictionContext | undefined
+    ): { long: LineFit; short?: LineFit; lastPoint: HistoryPoint; now: number; idle: boolean } | null {
+        const isLongTerm = isLongTermWindow(context);
         const shortWindowMin = shortWindowMinutes ?? this.config.predictionShortWindowMinutes;
         const shortWindowMs = shortWindowMin * 60 * 1000;
 
-        const history = this.historyService.getHistory(quotaId, longWindowMs);
-        if (history.length < 2) return Infinity;
+        const history = currentWindowHistory(this.historyService, quotaId, longWindowMs(windowMinutes, context));
+        if (history.length < 2) return null;
 
         // Idle Handling: If the last history point is older than the idle timeout, 
         // assume usage has stopped.
         const lastPoint = history[history.length - 1];
-        const now = Date.now();
-        if (now - lastPoint.timestamp > this.config.idleTimeoutMs) {
-            return Infinity;
-        }
+        const now = this.config.now();
+        const idle = now - lastPoint.timestamp > this.config.idleTimeoutMs;
 
         // Long Slope
-        const mLong = this.calculateSlope(history);
-
-        let m = mLong;
+        const long = fitLine(history);
 
         // Check if we should use short-term spike detection
         // If the quota has a long window (Weekly/Monthly), short spikes are less relevant 
         // and using them causes panic predictions.
-        const isLongTerm = context?.windowInfo && /week|month|\d+d/i.test(context.windowInfo);
-
-        if (!isLongTerm) {
-            // Short Slope: most recent data in short window or last fallback ratio of points
-            const shortHistory = history.filter(p => p.timestamp > now - shortWindowMs);
-            
-            // Ensure we have enough points in short history, or take the fallback ratio
-            let effectiveShortHistory = shortHistory;
-            if (effectiveShortHistory.length < 2) {
-                const fallbackCount = Math.max(2, Math.ceil(history.length * SHORT_WINDOW_FALLBACK_RATIO));
-                effectiveShortHistory = history.slice(-fallbackCount);
-            }
+        if (isLongTerm) return { long, lastPoint, now, idle };
 
-            const mShort = this.calculateSlope(effectiveShortHistory);
-            
-            // Conservative Estimation: use the maximum slope
-            m = Math.max(mLong, mShort);
-        }
+        // Short Slope: most recent data in short window or last fallback ratio of points
+        const shortHistory = history.filter(p => p.timestamp > now - shortWindowMs);
         
-        if (m <= 0) return Infinity;
-        if (lastPoint.limit === null || lastPoint.limit <= 0) return Infinity;
-
-        const remaining = lastPoint.limit - lastPoint.used;
-        if (remaining <= 0) return 0;
+        // Ensure we have enough points in short history, or take the fallback ratio
+        let effectiveShortHistory = shortHistory;
+        if (effectiveShortHistory.length < 2) {
+            const fallbackCount = Math.max(2, Math.ceil(history.length * SHORT_WINDOW_FALLBACK_RATIO));
+            effectiveShortHistory = history.slice(-fallbackCount);
+        }
 
-        const msFromLastPoint = remaining / m;
-        const elapsedSinceLastPoint = now - lastPoint.timestamp;
-        
-        return Math.max(0, msFromLastPoint - elapsedSinceLastPoint);
+        return { long, short: fitLine(effectiveShortHistory), lastPoint, now, idle };
     }
 
     /**
      * Calculates the slope (usage per ms) using linear regression for the given history points.
      */
     calculateSlope(history: HistoryPoint[]): number {
-        if (history.length < 2) return 0;
-
-        let sumX = 0, sumY = 0, sumXY = 0, sumX2 = 0;
-        const n = history.length;
-        const firstTimestamp = history[0].timestamp;
-
-        for (const p of history) {
-            const x = p.timestamp - firstTimestamp;
-            const y = p.used;
-            sumX += x;
-            sumY += y;
-            sumXY += x * y;
-            sumX2 += x * x;
+        return fitLine(history).slope;
+    }
+}
+
+/**
+ * Half-life of the EWMA rate, and of Holt's level for long-term quotas, as a share of
+ * the long window (15 minutes for the default 60-minute window).
+ */
+const WINDOW_HALF_LIFE_RATIO = 0.25;
+
+/**
+ * Holt's trend adapts at half the speed of its level, so a single burst moves the
+ * smoothed usage more than the projected slope.
+ */
+const HOLT_TREND_HALF_LIFE_FACTOR = 2;
+
+type SmoothingInput = {
+    history: HistoryPoint[];
+    lastPoint: HistoryPoint;
+    now: number;
+    windowMs: number;
+    shortWindowMs: number;
+    idle: boolean;
+};
+
+/**
+ * Loads the history a smoothing engine runs over. Returns null without enough history.
+ */
+function loadSmoothingInput(
+    historyService: IHistoryService,
+    config: Required<PredictionEngineConfig>,
+    quotaId: string,
+    windowMinutes: number,
+    shortWindowMinutes: number | undefined,
+    context: PredictionContext | undefined
+): SmoothingInput | null {
+    const windowMs = longWindowMs(windowMinutes, context);
+    const history = currentWindowHistory(historyService, quotaId, windowMs);
+    if (history.length < 2) return null;
+
+    const lastPoint = history[history.length - 1];
+    const now = config.now();
+    return {
+        history,
+        lastPoint,
+        now,
+        windowMs,
+        shortWindowMs: (shortWindowMinutes ?? config.predictionShortWindowMinutes) * 60 * 1000,
+        idle: now - lastPoint.timestamp > config.idleTimeoutMs,
+    };
+}
+
+/**
+ * Weight of a new observation `dtMs` after the previous one, for a given half-life.
+ * Makes the smoothing independent of the polling interval.
+ */
+function smoothingWeight(dtMs: number, halfLifeMs: number): number {
+    return halfLifeMs > 0 ? 1 - Math.pow(0.5, dtMs / halfLifeMs) : 1;
+}
+
+/**
+ * Prediction engine using an exponentially weighted moving average of the usage rate.
+ *
+ * Each interval between history points contributes its rate, weighted by how much
+ * time it covers, with a half-life of a quarter of the long window. Bursts raise the
+ * rate gradually and decay gradually once they end, instead of switching between two
+ * regression slopes. The short window is not used.
+ */
+export class EwmaPredictionEngine implements IPredictionEngine {
+    private readonly historyService: IHistoryService;
+    private readonly config: Required<PredictionEngineConfig>;
+
+    constructor(historyService: IHistoryService, config?: PredictionEngineConfig) {
+        this.historyService = historyService;
+        this.config = {
+            predictionShortWindowMinutes: config?.predictionShortWindowMinutes ?? 5,
+            idleTimeoutMs: config?.idleTimeoutMs ?? 5 * 60 * 1000,
+            now: config?.now ?? (() => Date.now()),
+        };
+    }
+
+    predictTimeToLimit(
+        quotaId: string,
+        windowMinutes: number = 60,
+        shortWindowMinutes?: number,
+        context?: PredictionContext
+    ): number {
+        return timeToLimitWithin(this.predictTimeToLimitRange(quotaId, windowMinutes, shortWindowMinutes, context));
+    }
+
+    /**
+     * Bounds the prediction with the standard error of a regression over the same points.
+     */
+    predictTimeToLimitRange(
+        quotaId: string,
+        windowMinutes: number = 60,
+        shortWindowMinutes?: number,
+        context?: PredictionContext
+    ): TimeToLimitPrediction | null {
+        const input = loadSmoothingInput(this.historyService, this.config, quotaId, windowMinutes, shortWindowMinutes, context);
+        if (!input || input.idle) return null;
+        const rate = this.smoothRate(input.history, input.windowMs * WINDOW_HALF_LIFE_RATIO);
+        return predictionRange(input.lastPoint.used, { ...fitLine(input.history), slope: rate }, input.lastPoint, input.now, context);
+    }
+
+    predictBurnRate(
+        quotaId: string,
+        windowMinutes: number = 60,
+        shortWindowMinutes?: number,
+        context?: PredictionContext
+    ): BurnRate | null {
+        const input = loadSmoothingInput(this.historyService, this.config, quotaId, windowMinutes, shortWindowMinutes, context);
+        if (!input) return null;
+        if (input.idle) return { perHour: 0 };
+        return { perHour: this.smoothRate(input.history, input.windowMs * WINDOW_HALF_LIFE_RATIO) * MS_PER_HOUR };
+    }
+
+    /**
+     * Smoothed usage per ms over the given points.
+     */
+    smoothRate(history: HistoryPoint[], halfLifeMs: number): number {
+        let rate: number | undefined;
+        for (let i = 1; i < history.length; i++) {
+            const dt = history[i].timestamp - history[i - 1].timestamp;
+            if (dt <= 0) continue;
+            const intervalRate = (history[i].used - history[i - 1].used) / dt;
+            rate = rate === undefined
+                ? intervalRate
+                : rate + smoothingWeight(dt, halfLifeMs) * (intervalRate - rate);
+        }
+        return rate ?? 0;
+    }
+}
+
+/**
+ * Prediction engine using Holt's double exponential smoothing.
+ *
+ * Tracks a smoothed usage level and its trend. The level has the short window as its
+ * half-life (a quarter of the long window for weekly and monthly quotas, which skip
+ * spike detection) and the trend twice that, so the ETTL follows sustained changes in
+ * pace while single bursts mostly shift the level. The ETTL projects the last reading
+ * along the trend.
+ */
+export class HoltPredictionEngine implements IPredictionEngine {
+    private readonly historyService: IHistoryService;
+    private readonly config: Required<PredictionEngineConfig>;
+
+    constructor(historyService: IHistoryService, config?: PredictionEngineConfig) {
+        this.historyService = historyService;
+        this.config = {
+            predictionShortWindowMinutes: config?.predictionShortWindowMinutes ?? 5,
+            idleTimeoutMs: config?.idleTimeoutMs ?? 5 * 60 * 1000,
+            now: config?.now ?? (() => Date.now()),
+        };
+    }
+
+    predictTimeToLimit(
+        quotaId: string,
+        windowMinutes: number = 60,
+        shortWindowMinutes?: number,
+        context?: PredictionContext
+    ): number {
+        return timeToLimitWithin(this.predictTimeToLimitRange(quotaId, windowMinutes, shortWindowMinutes, context));
+    }
+
+    /**
+     * Bounds the prediction with the standard error of a regression over the same points.
+     */
+    predictTimeToLimitRange(
+        quotaId: string,
+        windowMinutes: number = 60,
+        shortWindowMinutes?: number,
+        context?: PredictionContext
+    ): TimeToLimitPrediction | null {
+        const input = loadSmoothingInput(this.historyService, this.config, quotaId, windowMinutes, shortWindowMinutes, context);
+        if (!input || input.idle) return null;
+        // Usage readings are exact, so only the trend is taken from the smoothing
+        const { trend } = this.smooth(input.history, this.halfLifeMs(input, context));
+        return predictionRange(input.lastPoint.used, { ...fitLine(input.history), slope: trend }, input.lastPoint, input.now, context);
+    }
+
+    predictBurnRate(
+        quotaId: string,
+        windowMinutes: number = 60,
+        shortWindowMinutes?: number,
+        context?: PredictionContext
+    ): BurnRate | null {
+        const input = loadSmoothingInput(this.historyService, this.config, quotaId, windowMinutes, shortWindowMinutes, context);
+        if (!input) return null;
+        if (input.idle) return { perHour: 0 };
+        return { perHour: this.smooth(input.history, this.halfLifeMs(input, context)).trend * MS_PER_HOUR };
+    }
+
+    private halfLifeMs(input: SmoothingInput, context?: PredictionContext): number {
+        return isLongTermWindow(context) ? input.windowMs * WINDOW_HALF_LIFE_RATIO : input.shortWindowMs;
+    }
+
+    /**
+     * Smoothed usage level at the last point and its trend (usage per ms).
+     */
+    smooth(history: HistoryPoint[], halfLifeMs: number): { level: number; trend: number } {
+        let level = history[0].used;
+        let trend: number | undefined;
+        let lastTimestamp = history[0].timestamp;
+
+        for (let i = 1; i < history.length; i++) {
+            const dt = history[i].timestamp - lastTimestamp;
+            if (dt <= 0) continue;
+            const observed = history[i].used;
+            lastTimestamp = history[i].timestamp;
+
+            if (trend === undefined) {
+                trend = (observed - level) / dt;
+                level = observed;
+                continue;
+            }
+
+            const forecast = level + trend * dt;
+            const nextLevel = forecast + smoothingWeight(dt, halfLifeMs) * (observed - forecast);
+            const trendWeight = smoothingWeight(dt, halfLifeMs * HOLT_TREND_HALF_LIFE_FACTOR);
+            trend += trendWeight * ((nextLevel - level) / dt - trend);
+            level = nextLevel;
         }
 
-        const denominator = (n * sumX2 - sumX * sumX);
-        if (denominator === 0) return 0;
+        return { level, trend: trend ?? 0 };
+    }
+}
 
-        return (n * sumXY - sumX * sumY) / denominator;
+/**
+ * Creates the prediction engine selected by the `predictionEngine` option.
+ */
+export function createPredictionEngine(
+    type: PredictionEngineType,
+    historyService: IHistoryService,
+    config?: PredictionEngineConfig
+): IPredictionEngine {
+    switch (type) {
+        case "ewma":
+            return new EwmaPredictionEngine(historyService, config);
+        case "holt":
+            return new HoltPredictionEngine(historyService, config);
+        default:
+            return new LinearRegressionPredictionEngine(historyService, config);
     }
 }
 
@@ -145,8 +576,26 @@ export class NullPredictionEngine implements IPredictionEngine {
         _quotaId: string, 
         _windowMinutes: number = 60, 
         _shortWindowMinutes?: number,
-        _context?: { windowInfo?: string }
+        _context?: PredictionContext
     ): number {
         return Infinity;
     }
+
+    predictTimeToLimitRange(
+        _quotaId: string,
+        _windowMinutes: number = 60,
+        _shortWindowMinutes?: number,
+        _context?: PredictionContext
+    ): TimeToLimitPrediction | null {
+        return null;
+    }
+
+    predictBurnRate(
+        _quotaId: string,
+        _windowMinutes: number = 60,
+        _shortWindowMinutes?: number,
+        _context?: PredictionContext
+    ): BurnRate | null {
+        return null;
+    }
 }
@@ -6,24 +6,59 @@ import {
     type IHistoryService,
     type IPredictionEngine,
     type IAggregationService,
-    type AggregatedGroup
+    type AggregatedGroup,
+    type ProviderConfig,
+    type AccountRecommendation,
+    type PredictionEngineType
 } from "../interfaces";
 import { getQuotaRegistry } from "../registry";
 import { createAntigravityProvider } from "../providers/antigravity";
 import { createCodexProvider } from "../providers/codex";
+import { createHttpProvider } from "../providers/http";
+import { createCommandProvider } from "../providers/command";
+import { loadModuleProviders } from "../providers/module";
 import { formatDurationMs } from "../utils/time";
+import { accountIdSuffix, stripAccountSuffix } from "../utils/accounts";
 import { logger } from "../logger";
-import { LinearRegressionPredictionEngine, NullPredictionEngine } from "./prediction-engine";
+import { createPredictionEngine, NullPredictionEngine, predictionContextOf } from "./prediction-engine";
 import { AggregationService } from "./aggregation-service";
 import { ConfigLoader } from "./config-loader";
 
+export type QuotaProcessingContext = {
+    providerId?: string;
+    modelId?: string;
+    /**
+     * Ignore `disabled` and `filterByCurrentModel` and return every quota.
+     */
+    showAll?: boolean;
+};
+
+export type ProviderLoadError = {
+    /**
+     * Provider ID, or the module specifier for module providers.
+     */
+    source: string;
+    type: ProviderConfig["type"];
+    message: string;
+};
+
 export class QuotaService {
     private config: QuotaConfig;
+    private providerErrors: ProviderLoadError[] = [];
+    private providerIntervals: Record<string, number> = {};
     private initialized: boolean = false;
     private initPromise: Promise<void> | null = null;
     private historyService?: IHistoryService;
     private predictionEngine: IPredictionEngine;
     private aggregationService: IAggregationService;
+    /**
+     * Aggregation services for groups that override `predictionEngine`, by engine type.
+     */
+    private groupAggregationServices = new Map<PredictionEngineType, IAggregationService>();
+    /**
+     * Prediction engines for groups that override `predictionEngine`, by engine type.
+     */
+    private groupPredictionEngines = new Map<PredictionEngineType, IPredictionEngine>();
 
     constructor(initialConfig?: Partial<QuotaConfig>) {
         this.config = ConfigLoader.createConfig(initialConfig);
@@ -48,13 +83,18 @@ export class QuotaService {
                     this.historyService.setMaxAge(this.config.historyMaxAgeHours);
                 }
 
+                if (this.historyService && this.config.historyTiers !== undefined) {
+                    this.historyService.setTiers(this.config.historyTiers);
+                }
+
                 if (this.historyService && this.config.historyResetThreshold !== undefined) {
                     this.historyService.setResetThreshold(this.config.historyResetThreshold);
                 }
 
                 // Initialize prediction engine with history service
                 if (this.historyService) {
-                    this.predictionEngine = new LinearRegressionPredictionEngine(
+                    this.predictionEngine = createPredictionEngine(
+                        this.config.predictionEngine ?? "linear",
                         this.historyService,
                         { predictionShortWindowMinutes: this.config.predictionShortWindowMinutes }
                     );
@@ -63,7 +103,7 @@ export class QuotaService {
                 this.aggregationService = new AggregationService(this.predictionEngine);
 
                 // Register providers
-                await this.registerProviders();
+                await this.registerProviders(directory);
 
                 this.initialized = true;
             } catch (e) {
@@ -75,7 +115,7 @@ export class QuotaService {
         return this.initPromise;
     }
 
-    private async registerProviders(): Promise<void> {
+    private async registerProviders(directory: string): Promise<void> {
         const registry = getQuotaRegistry();
 
         // Register Antigravity
@@ -83,6 +123,7 @@ export class QuotaService {
             registry.register(
                 createAntigravityProvider({
                     debug: !!this.config.debug,
+                    allAccounts: !!this.config.antigravityAllAccounts,
                 }),
             );
             logger.debug("init:provider_registered", { id: "antigravity" });
@@ -113,6 +154,56 @@ export class QuotaService {
         } else {
             logger.debug("init:provider_skipped", { id: "github-copilot" });
         }
+
+        // Register providers configured in quotas.json
+        for (const providerConfig of this.config.providers ?? []) {
+            const source = providerConfig.type === "module"
+                ? providerConfig.module
+                : providerConfig.id;
+            try {
+                const providers = await this.createConfiguredProviders(providerConfig, directory);
+                for (const provider of providers) {
+                    registry.register(provider);
+                    if (providerConfig.refreshIntervalMs !== undefined) {
+                        this.providerIntervals[provider.id] = Math.max(Number(providerConfig.refreshIntervalMs), 1_000);
+                    }
+                    logger.debug("init:provider_registered", { id: provider.id, type: providerConfig.type });
+                }
+            } catch (e) {
+                const message = e instanceof Error ? e.message : String(e);
+                logger.error("init:provider_failed", { id: source, type: providerConfig.type, error: e });
+                this.providerErrors.push({ source, type: providerConfig.type, message });
+            }
+        }
+    }
+
+    private async createConfiguredProviders(
+        providerConfig: ProviderConfig,
+        directory: string,
+    ): Promise<IQuotaProvider[]> {
+        switch (providerConfig.type) {
+            case "http":
+                return [createHttpProvider(providerConfig)];
+            case "command":
+                return [createCommandProvider(providerConfig)];
+            case "module":
+                return loadModuleProviders(providerConfig, directory);
+        }
+    }
+
+    /**
+     * Returns the configured providers that failed to load during init().
+     */
+    getProviderErrors(): ProviderLoadError[] {
+        return [...this.providerErrors];
+    }
+
+    /**
+     * Returns per-provider refresh intervals (ms) keyed by provider ID, combining
+     * `refreshIntervalMs` on `providers` entries with the `refreshIntervals` map.
+     */
+    getRefreshIntervals(): Record<string, number> {
+        return { ...this.providerIntervals, ...(this.config.refreshIntervals ?? {}) };
     }
 
     getConfig(): QuotaConfig {
@@ -139,7 +230,7 @@ export class QuotaService {
         return this.aggregationService;
     }
 
-    async getQuotas(context?: { providerId?: string; modelId?: string }): Promise<QuotaData[]> {
+    async getQuotas(context?: QuotaProcessingContext): Promise<QuotaData[]> {
         const providers = this.getProviders();
 
         logger.debug(
@@ -182,38 +273,114 @@ export class QuotaService {
         return processed;
     }
 
-    processQuotas(data: QuotaData[], context?: { providerId?: string; modelId?: string }): QuotaData[] {
+    processQuotas(data: QuotaData[], context?: QuotaProcessingContext): QuotaData[] {
         let results = [...data];
 
         // 1. Enrich with predictions (before aggregation so sources have it too)
-        results = results.map(q => {
-            const time = this.predictionEngine.predictTimeToLimit(
-                q.id, 
-                this.config.predictionWindowMinutes ?? 60,
-                this.config.predictionShortWindowMinutes,
-                { windowInfo: q.window }
-            );
-            if (time !== Infinity) {
-                return {
-                    ...q,
-                    predictedReset: `${formatDurationMs(time)} (predicted)`
-                };
-            }
-            return q;
-        });
+        results = results.map(q => this.enrich(
+            q,
+            this.predictionEngine,
+            this.config.predictionWindowMinutes ?? 60,
+            this.config.predictionShortWindowMinutes
+        ));
 
         // 2. Apply Aggregation
         results = this.applyAggregation(results);
 
-        // 3. Filter (disabled quotas + optional model filtering).
+        // 3. Point exhausted multi-account quotas at the account with most capacity left
+        results = this.applyRecommendations(results);
+
+        // 4. Filter (disabled quotas + optional model filtering).
         results = this.filterQuotas(results, context);
 
-        // 4. Sort
+        // 5. Sort
         results = this.sortQuotas(results);
 
         return results;
     }
 
+    /**
+     * Attaches the engine's time-to-limit prediction, burn rate and the usage trend.
+     */
+    private enrich(
+        q: QuotaData,
+        engine: IPredictionEngine,
+        windowMinutes: number,
+        shortWindowMinutes?: number
+    ): QuotaData {
+        const context = predictionContextOf(q);
+        const prediction = engine.predictTimeToLimitRange(
+            q.id, 
+            windowMinutes,
+            shortWindowMinutes,
+            context
+        );
+        const burnRate = engine.predictBurnRate(
+            q.id,
+            windowMinutes,
+            shortWindowMinutes,
+            context
+        );
+        const usageTrend = this.buildUsageTrend(q.id);
+        const enriched = {
+            ...q,
+            ...(burnRate ? { burnRate } : {}),
+            ...(usageTrend ? { usageTrend } : {}),
+        };
+        if (prediction?.resetsFirst) {
+            return { ...enriched, prediction };
+        }
+        if (prediction) {
+            return {
+                ...enriched,
+                predictedReset: `${formatDurationMs(prediction.expectedMs)} (predicted)`,
+                timeToLimitMs: prediction.expectedMs,
+                prediction
+            };
+        }
+        return enriched;
+    }
+
+    /**
+     * Re-enriches a group's sources with the group's own prediction engine, so neither
+     * the group row nor its sources keep the global engine's figures.
+     */
+    private enrichForGroup(group: AggregatedGroup, quotas: QuotaData[]): QuotaData[] {
+        const engine = this.predictionEngineFor(group);
+        if (engine === this.predictionEngine) return quotas;
+        return quotas.map(({ predictedReset, timeToLimitMs, prediction, burnRate, ...q }) => this.enrich(
+            q,
+            engine,
+            group.predictionWindowMinutes ?? this.config.predictionWindowMinutes ?? 60,
+            group.predictionShortWindowMinutes ?? this.config.predictionShortWindowMinutes
+        ));
+    }
+
+    /**
+     * Samples recent history into `table.trendWidth` equal time buckets for the
+     * trend column. Each bucket keeps its last sample; empty buckets repeat the
+     * previous one, and buckets before the first sample are null.
+     */
+    private buildUsageTrend(quotaId: string): (number | null)[] | undefined {
+        if (!this.historyService) return undefined;
+        const windowMs = (this.config.table?.trendWindowMinutes ?? 60) * 60 * 1000;
+        const width = this.config.table?.trendWidth ?? 10;
+        const points = this.historyService.getHistory(quotaId, windowMs);
+        if (points.length === 0) return undefined;
+
+        const now = Date.now();
+        const bucketMs = windowMs / width;
+        const buckets: (number | null)[] = Array(width).fill(null);
+        for (const point of points) {
+            const index = Math.min(width - 1, Math.max(0, Math.floor((point.timestamp - (now - windowMs)) / bucketMs)));
+            buckets[index] = point.used;
+        }
+        for (let i = 1; i < width; i++) {
+            if (buckets[i] === null) buckets[i] = buckets[i - 1];
+        }
+        return buckets;
+    }
+
     private applyAggregation(quotas: QuotaData[]): QuotaData[] {
         if (!this.config.aggregatedGroups || this.config.aggregatedGroups.length === 0) {
             return quotas;
@@ -227,38 +394,25 @@ export class QuotaService {
             const sourceQuotas = this.resolveGroupSources(remainingQuotas, group);
             if (sourceQuotas.length === 0) continue;
 
-            const strategy = group.strategy || "most_critical";
-            let representative: QuotaData | null = null;
-
-            if (strategy === "most_critical") {
-                representative = this.aggregationService.aggregateMostCritical(
-                    sourceQuotas, 
-                    group.predictionWindowMinutes,
-                    group.predictionShortWindowMinutes
-                );
-            } else if (strategy === "max") {
-                representative = this.aggregationService.aggregateMax(sourceQuotas);
-            } else if (strategy === "min") {
-                representative = this.aggregationService.aggregateMin(sourceQuotas);
-            } else if (strategy === "mean" || strategy === "median") {
-                representative = this.aggregationService.aggregateAverage(
-                    sourceQuotas, 
-                    group.name, 
-                    group.id, 
-                    strategy
-                );
-            }
+            // Multi-account quotas are aggregated per account so each account keeps its own row
+            for (const [account, partition] of this.partitionByAccount(sourceQuotas)) {
+                const accountQuotas = this.enrichForGroup(group, partition);
+                const representative = this.aggregateGroup(group, accountQuotas);
+                if (!representative) continue;
 
-            if (representative) {
                 // Create a copy for display
                 const displayQuota = { 
                     ...representative, 
-                    id: group.id, 
-                    providerName: group.name 
+                    id: account ? `${group.id}${accountIdSuffix(account)}` : group.id, 
+                    providerName: group.name,
+                    account,
+                    sources: accountQuotas,
+                    stale: accountQuotas.some(q => q.stale) || undefined,
+                    fetchedAt: this.oldestFetchedAt(accountQuotas),
                 };
 
                 // Remove matched sources from pool to avoid double aggregation
-                const sourceIds = new Set(sourceQuotas.map(q => q.id));
+                const sourceIds = new Set(accountQuotas.map(q => q.id));
                 remainingQuotas = remainingQuotas.filter(q => !sourceIds.has(q.id));
                 
                 aggregatedResults.push(displayQuota);
@@ -274,6 +428,114 @@ export class QuotaService {
         return [...remainingQuotas, ...aggregatedResults];
     }
 
+    private applyRecommendations(quotas: QuotaData[]): QuotaData[] {
+        const recommendations = new Map(
+            this.aggregationService.recommendAccounts(quotas).map(r => [r.familyId, r])
+        );
+        if (recommendations.size === 0) return quotas;
+
+        return quotas.map(q => {
+            if (!q.account || q.limit === null || q.limit <= 0 || q.used < q.limit) return q;
+
+            const recommendation = recommendations.get(stripAccountSuffix(q.id));
+            if (!recommendation || recommendation.account === q.account || recommendation.remainingPercent <= 0) {
+                return q;
+            }
+            return { ...q, recommendation };
+        });
+    }
+
+    /**
+     * Recommends the account with the most remaining capacity for each quota shared by
+     * several accounts. With a model in the context, only that model family is considered.
+     */
+    async getRecommendations(context?: QuotaProcessingContext): Promise<AccountRecommendation[]> {
+        let quotas = await this.getQuotas();
+        if (context?.modelId) {
+            quotas = this.filterByModel(quotas, context.providerId ?? "", context.modelId);
+        }
+        return this.aggregationService.recommendAccounts(quotas);
+    }
+
+    private aggregateGroup(group: AggregatedGroup, sourceQuotas: QuotaData[]): QuotaData | null {
+        const strategy = group.strategy || "most_critical";
+
+        if (strategy === "most_critical") {
+            return this.aggregationServiceFor(group).aggregateMostCritical(
+                sourceQuotas, 
+                group.predictionWindowMinutes,
+                group.predictionShortWindowMinutes
+            );
+        } else if (strategy === "max") {
+            return this.aggregationService.aggregateMax(sourceQuotas);
+        } else if (strategy === "min") {
+            return this.aggregationService.aggregateMin(sourceQuotas);
+        } else if (strategy === "mean" || strategy === "median") {
+            return this.aggregationService.aggregateAverage(
+                sourceQuotas, 
+                group.name, 
+                group.id, 
+                strategy
+            );
+        }
+        return null;
+    }
+
+    /**
+     * Groups that pick a different prediction engine rank their sources with it.
+     */
+    private aggregationServiceFor(group: AggregatedGroup): IAggregationService {
+        const engine = this.predictionEngineFor(group);
+        if (engine === this.predictionEngine) return this.aggregationService;
+        let service = this.groupAggregationServices.get(group.predictionEngine!);
+        if (!service) {
+            service = new AggregationService(engine);
+            this.groupAggregationServices.set(group.predictionEngine!, service);
+        }
+        return service;
+    }
+
+    /**
+     * The engine a group predicts with: its own `predictionEngine`, or the global one.
+     */
+    private predictionEngineFor(group: AggregatedGroup): IPredictionEngine {
+        const type = group.predictionEngine;
+        if (!type || type === (this.config.predictionEngine ?? "linear") || !this.historyService) {
+            return this.predictionEngine;
+        }
+        let engine = this.groupPredictionEngines.get(type);
+        if (!engine) {
+            engine = createPredictionEngine(
+                type,
+                this.historyService,
+                { predictionShortWindowMinutes: this.config.predictionShortWindowMinutes }
+            );
+            this.groupPredictionEngines.set(type, engine);
+        }
+        return engine;
+    }
+
+    /**
+     * A group is only as fresh as its oldest source.
+     */
+    private oldestFetchedAt(quotas: QuotaData[]): number | undefined {
+        const times = quotas.map(q => q.fetchedAt).filter((t): t is number => t !== undefined);
+        return times.length > 0 ? Math.min(...times) : undefined;
+    }
+
+    /**
+     * Splits quotas by account label. Quotas without an account share the `undefined` key.
+     */
+    private partitionByAccount(quotas: QuotaData[]): Map<string | undefined, QuotaData[]> {
+        const partitions = new Map<string | undefined, QuotaData[]>();
+        for (const quota of quotas) {
+            const bucket = partitions.get(quota.account);
+            if (bucket) bucket.push(quota);
+            else partitions.set(quota.account, [quota]);
+        }
+        return partitions;
+    }
+
     /**
      * Resolves which quotas belong to an AggregatedGroup using explicit sources and patterns.
      */
@@ -345,7 +607,9 @@ export class QuotaService {
         // 1. Explicit sources (highest priority)
         if (group.sources && group.sources.length > 0) {
             for (const quota of quotas) {
-                if (group.sources.includes(quota.id)) {
+                const isSource = group.sources.includes(quota.id) ||
+                    (!!quota.account && group.sources.includes(stripAccountSuffix(quota.id)));
+                if (isSource) {
                     matched.push(quota);
                     matchedIds.add(quota.id);
                 }
@@ -366,8 +630,9 @@ export class QuotaService {
                     if (!providerMatch) continue;
                 }
 
-                // Check if any pattern matches
-                const matchTarget = `${quota.id} ${quota.providerName}`;
+                // Check if any pattern matches (account suffixes such as emails are never matched)
+                const matchId = quota.account ? stripAccountSuffix(quota.id) : quota.id;
+                const matchTarget = `${matchId} ${quota.providerName}`;
                 const patternMatches = group.patterns.some(pattern => {
                     const res = this.matchPattern(pattern, matchTarget);
                     return res.matched;
@@ -383,12 +648,20 @@ export class QuotaService {
         return matched;
     }
 
-    private filterQuotas(quotas: QuotaData[], context?: { providerId?: string; modelId?: string }): QuotaData[] {
+    private filterQuotas(quotas: QuotaData[], context?: QuotaProcessingContext): QuotaData[] {
         let results = [...quotas];
 
-        // Filter out disabled quotas
+        // Explicit requests (e.g. the /quotas command) bypass disabled and model filters
+        if (context?.showAll) {
+            return results;
+        }
+
+        // Filter out disabled quotas; an ID without account suffix disables it for every account
         const disabledIds = new Set(this.config.disabled || []);
-        results = results.filter((data) => !disabledIds.has(data.id));
+        results = results.filter((data) =>
+            !disabledIds.has(data.id) &&
+            !(data.account && disabledIds.has(stripAccountSuffix(data.id)))
+        );
 
         // If requested, apply model-aware filtering
         if (this.config.filterByCurrentModel && context && context.providerId && context.modelId) {
@@ -427,6 +700,9 @@ export class QuotaService {
     }
 
     private sortQuotas(quotas: QuotaData[]): QuotaData[] {
-        return quotas.sort((a, b) => a.providerName.localeCompare(b.providerName));
+        return quotas.sort((a, b) =>
+            a.providerName.localeCompare(b.providerName) ||
+            (a.account ?? "").localeCompare(b.account ?? "")
+        );
     }
 }
@@ -0,0 +1,101 @@
+import { tool, type ToolDefinition } from "@opencode-ai/plugin";
+import { type QuotaData } from "../interfaces";
+import { type QuotaService } from "../services/quota-service";
+import { type QuotaCache } from "../quota-cache";
+import { formatDurationMs } from "../utils/time";
+import { logger } from "../logger";
+
+export const CHECK_QUOTAS_TOOL_NAME = "check_quotas";
+
+export type QuotaReportEntry = {
+    id: string;
+    name: string;
+    account: string | null;
+    used: number;
+    limit: number | null;
+    unit: string;
+    percentUsed: number | null;
+    window: string | null;
+    resetAt: string | null;
+    resetInMs: number | null;
+    timeToLimitMs: number | null;
+    timeToLimit: string | null;
+};
+
+export type QuotaReport = {
+    fetchedAt: string | null;
+    quotas: QuotaReportEntry[];
+};
+
+/**
+ * Converts processed quotas into a JSON-safe report for the agent.
+ * Unknown values are reported as null rather than omitted so the shape is stable.
+ */
+export function buildQuotaReport(
+    quotas: QuotaData[],
+    fetchedAt: Date | null,
+    now: number = Date.now(),
+): QuotaReport {
+    return {
+        fetchedAt: fetchedAt?.toISOString() ?? null,
+        quotas: quotas.map((q) => {
+            const hasLimit = q.limit !== null && q.limit > 0;
+            const timeToLimitMs = q.timeToLimitMs !== undefined ? Math.round(q.timeToLimitMs) : null;
+            return {
+                id: q.id,
+                name: q.providerName,
+                account: q.account ?? null,
+                used: q.used,
+                limit: q.limit,
+                unit: q.unit,
+                percentUsed: hasLimit ? Math.round((q.used / q.limit!) * 1000) / 10 : null,
+                window: q.window ?? null,
+                resetAt: q.resetAt !== undefined ? new Date(q.resetAt).toISOString() : null,
+                resetInMs: q.resetAt !== undefined ? Math.max(0, q.resetAt - now) : null,
+                timeToLimitMs,
+                timeToLimit: timeToLimitMs !== null ? formatDurationMs(timeToLimitMs) : null,
+            };
+        }),
+    };
+}
+
+/**
+ * Creates the `check_quotas` tool, which lets the agent read the current quota
+ * state (used/limit, reset time and predicted time to limit) as JSON.
+ */
+export function createCheckQuotasTool(deps: {
+    quotaService: QuotaService;
+    getCache: () => Promise<QuotaCache | undefined>;
+}): ToolDefinition {
+    return tool({
+        description:
+            "Check the current AI provider usage quotas (Codex, Antigravity, ...). " +
+            "Returns JSON with used/limit, reset time and the predicted time until each limit is reached. " +
+            "Use it to pace long-running work or to warn the user before a quota runs out.",
+        args: {
+            refresh: tool.schema
+                .boolean()
+                .optional()
+                .describe("Fetch fresh data from the providers instead of using the cached snapshot"),
+        },
+        async execute(args) {
+            const cache = await deps.getCache();
+            if (!cache) {
+                return JSON.stringify({ error: "Quota data is not available yet." });
+            }
+
+            if (args.refresh || cache.getSnapshot().fetchedAt === null) {
+                await cache.refresh();
+            }
+
+            const snapshot = cache.getSnapshot();
+            const quotas = deps.quotaService.processQuotas(snapshot.data);
+            logger.debug("tool:check_quotas", {
+                refresh: !!args.refresh,
+                count: quotas.length,
+            });
+
+            return JSON.stringify(buildQuotaReport(quotas, snapshot.fetchedAt), null, 2);
+        },
+    });
+}
@@ -0,0 +1,165 @@
+import { type HistoryPoint } from "../interfaces";
+import { formatDurationMs } from "../utils/time";
+
+const DEFAULT_CHART_WIDTH = 60;
+const DEFAULT_CHART_HEIGHT = 10;
+
+type ChartGlyphs = {
+    usage: string;
+    trend: string;
+    crossing: string;
+    limit: string;
+    now: string;
+    axis: string;
+    tick: string;
+    baseline: string;
+};
+
+const UNICODE_GLYPHS: ChartGlyphs = {
+    usage: "●",
+    trend: "·",
+    crossing: "✕",
+    limit: "─",
+    now: "┊",
+    axis: "│",
+    tick: "┤",
+    baseline: "└",
+};
+
+const ASCII_GLYPHS: ChartGlyphs = {
+    usage: "*",
+    trend: ".",
+    crossing: "X",
+    limit: "-",
+    now: ":",
+    axis: "|",
+    tick: "+",
+    baseline: "+",
+};
+
+/**
+ * A trend line through `anchor` with `slope` usage per ms, drawn from `from` onwards.
+ */
+export type ChartTrend = {
+    slope: number;
+    anchor: { timestamp: number; used: number };
+    from: number;
+};
+
+export type HistoryChartOptions = {
+    /**
+     * Start and end of the time axis (epoch ms). The end may lie in the future to show a projection.
+     */
+    from: number;
+    to: number;
+    now?: number;
+    limit: number | null;
+    trend?: ChartTrend;
+    width?: number;
+    height?: number;
+    ascii?: boolean;
+};
+
+/**
+ * Where a trend line reaches `limit`, or null if it never does.
+ */
+export function trendCrossing(trend: ChartTrend, limit: number | null): number | null {
+    if (limit === null || limit <= 0 || !(trend.slope > 0)) return null;
+    return trend.anchor.timestamp + (limit - trend.anchor.used) / trend.slope;
+}
+
+function formatAxisValue(value: number): string {
+    if (Math.abs(value) >= 1000) return `${Math.round(value / 100) / 10}k`;
+    return Number.isInteger(value) ? `${value}` : value.toFixed(1);
+}
+
+function formatOffset(ms: number): string {
+    if (Math.abs(ms) < 60_000) return "now";
+    return `${ms < 0 ? "-" : "+"}${formatDurationMs(Math.abs(ms)).replace(/ 0m$/, "").replace(/ 0h$/, "")}`;
+}
+
+/**
+ * Renders usage points as a line chart of `height` rows by `width` columns, with a y-axis
+ * from 0 to the limit (or the highest usage for unlimited quotas) and time labels relative
+ * to now. The trend line, its limit crossing and the current time are overlaid.
+ */
+export function renderHistoryChart(points: HistoryPoint[], options: HistoryChartOptions): string[] {
+    const glyphs = options.ascii ? ASCII_GLYPHS : UNICODE_GLYPHS;
+    const width = Math.max(10, options.width ?? DEFAULT_CHART_WIDTH);
+    const height = Math.max(3, options.height ?? DEFAULT_CHART_HEIGHT);
+    const now = options.now ?? Date.now();
+    const { from, to, limit } = options;
+    const span = Math.max(1, to - from);
+
+    const maxUsed = points.reduce((max, p) => Math.max(max, p.used), 0);
+    const yMax = limit !== null && limit > 0 ? Math.max(limit, maxUsed) : Math.max(1, maxUsed * 1.1);
+
+    const grid: string[][] = Array.from({ length: height }, () => Array(width).fill(" "));
+    const columnOf = (t: number) => Math.round(((t - from) / span) * (width - 1));
+    const rowOf = (v: number) => height - 1 - Math.round((Math.min(Math.max(v, 0), yMax) / yMax) * (height - 1));
+    const set = (row: number, col: number, glyph: string) => {
+        if (row >= 0 && row < height && col >= 0 && col < width) grid[row][col] = glyph;
+    };
+
+    if (limit !== null && limit > 0) {
+        const limitRow = rowOf(limit);
+        for (let col = 0; col < width; col++) set(limitRow, col, glyphs.limit);
+    }
+
+    const nowCol = columnOf(now);
+    if (now < to) {
+        for (let row = 0; row < height; row++) {
+            if (grid[row][nowCol] === " ") set(row, nowCol, glyphs.now);
+        }
+    }
+
+    const crossing = options.trend ? trendCrossing(options.trend, limit) : null;
+    if (options.trend) {
+        const { slope, anchor } = options.trend;
+        const end = crossing !== null ? Math.min(crossing, to) : to;
+        for (let col = columnOf(Math.max(options.trend.from, from)); col <= columnOf(end); col++) {
+            const t = from + (col / (width - 1)) * span;
+            const value = anchor.used + slope * (t - anchor.timestamp);
+            if (value < 0 || value > yMax) continue;
+            set(rowOf(value), col, glyphs.trend);
+        }
+    }
+
+    for (const point of points) {
+        if (point.timestamp < from || point.timestamp > to) continue;
+        set(rowOf(point.used), columnOf(point.timestamp), glyphs.usage);
+    }
+
+    if (crossing !== null && crossing <= to && limit !== null) {
+        set(rowOf(limit), columnOf(crossing), glyphs.crossing);
+    }
+
+    const labels = new Map<number, string>([
+        [0, formatAxisValue(yMax)],
+        [Math.floor((height - 1) / 2), formatAxisValue(yMax / 2)],
+        [height - 1, "0"],
+    ]);
+    const labelWidth = Math.max(...[...labels.values()].map(l => l.length));
+
+    const lines = grid.map((cells, row) => {
+        const label = labels.get(row);
+        const prefix = label !== undefined
+            ? `${label.padStart(labelWidth)} ${glyphs.tick}`
+            : `${" ".repeat(labelWidth)} ${glyphs.axis}`;
+        return `${prefix}${cells.join("")}`;
+    });
+    lines.push(`${" ".repeat(labelWidth)} ${glyphs.baseline}${glyphs.limit.repeat(width)}`);
+
+    // Time labels: start, now (when the axis extends past it) and end
+    const axis = Array(width + 1).fill(" ");
+    const place = (col: number, text: string) => {
+        const start = Math.min(Math.max(0, col - Math.floor(text.length / 2)), width + 1 - text.length);
+        for (let i = 0; i < text.length; i++) axis[start + i] = text[i];
+    };
+    place(0, formatOffset(from - now));
+    if (now < to && nowCol > 8 && nowCol < width - 8) place(nowCol, "now");
+    place(width, formatOffset(to - now));
+    lines.push(`${" ".repeat(labelWidth + 2)}${axis.join("").trimEnd()}`);
+
+    return lines;
+}
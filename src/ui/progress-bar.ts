@@ -4,6 +4,8 @@ import { isValidNumber, clamp } from "../utils/validation";
 const DEFAULT_BAR_WIDTH = 20;
 const DEFAULT_FILLED_CHAR = "█";
 const DEFAULT_EMPTY_CHAR = "░";
+const DEFAULT_PACE_CHAR = "│";
+const SPARKLINE_CHARS = ["▁", "▂", "▃", "▅", "▇"];
 
 const DEFAULT_GRADIENTS: GradientLevel[] = [
     { threshold: 0.5, color: "green" },
@@ -59,6 +61,18 @@ function formatNumber(value: number): string {
   return value.toFixed(1);
 }
 
+/**
+ * Color of the first gradient level whose threshold covers `ratio`, or of the
+ * last (most severe) level when the ratio exceeds them all (e.g. > 100%).
+ */
+function gradientColor(ratio: number, gradients?: GradientLevel[]): AnsiColor {
+  if (!gradients || gradients.length === 0) return "reset";
+  // Sort gradients by threshold to ensure correct evaluation
+  const sorted = [...gradients].sort((a, b) => a.threshold - b.threshold);
+  const match = sorted.find((g) => ratio <= g.threshold);
+  return match ? match.color : sorted[sorted.length - 1].color;
+}
+
 export type RenderQuotaBarParts = {
   labelPart: string;
   bar: string;
@@ -119,12 +133,17 @@ export function renderQuotaBarParts(
     unit: string;
     details?: string;
     config?: ProgressBarConfig;
+    /**
+     * Fraction of the limit that would be used on pace; marked on the bar.
+     */
+    paceRatio?: number;
   },
 ): RenderQuotaBarParts {
   const config = options.config || {};
   const width = config.width ?? DEFAULT_BAR_WIDTH;
   const filledChar = config.filledChar ?? DEFAULT_FILLED_CHAR;
   const emptyChar = config.emptyChar ?? DEFAULT_EMPTY_CHAR;
+  const paceChar = config.paceChar ?? DEFAULT_PACE_CHAR;
   const showMode = config.show ?? "used";
   const useColor = shouldUseColor(config);
 
@@ -150,32 +169,27 @@ export function renderQuotaBarParts(
   const emptyLen = Math.max(0, width - filledLen);
 
   // Determine Color
-  let barColor: AnsiColor = "reset";
-  let statusColor: AnsiColor = "reset";
-  
-  if (config.gradients && config.gradients.length > 0) {
-    // Sort gradients by threshold to ensure correct evaluation
-    const sorted = [...config.gradients].sort(
-      (a, b) => a.threshold - b.threshold,
-    );
-
-    // Find the matching level
-    const match = sorted.find((g) => ratio <= g.threshold);
-
-    if (match) {
-      barColor = match.color;
-      statusColor = match.color;
-    } else {
-      // If ratio exceeds all thresholds (e.g. > 100%), use the last defined color (highest severity)
-      barColor = sorted[sorted.length - 1].color;
-      statusColor = sorted[sorted.length - 1].color;
-    }
-  }
+  const barColor = gradientColor(ratio, config.gradients);
+  const statusColor = barColor;
 
   const filledStr = filledChar.repeat(filledLen);
   const emptyStr = emptyChar.repeat(emptyLen);
 
-  const bar = `${colorize(filledStr, barColor, useColor)}${emptyStr}`; // Only color filled part? Or empty too? usually just filled.
+  let bar = `${colorize(filledStr, barColor, useColor)}${emptyStr}`; // Only color filled part? Or empty too? usually just filled.
+
+  // The pace marker replaces the bar character at its position
+  if (options.paceRatio !== undefined && isValidNumber(options.paceRatio) && paceChar && width > 0) {
+    const paceRatio = clamp(options.paceRatio, 0, 1);
+    const markerRatio = showMode === "available" ? 1 - paceRatio : paceRatio;
+    const markerAt = Math.min(width - 1, Math.floor(width * markerRatio));
+    const filledBefore = Math.min(markerAt, filledLen);
+    const filledAfter = Math.max(0, filledLen - markerAt - 1);
+    bar = colorize(filledChar.repeat(filledBefore), barColor, useColor)
+      + emptyChar.repeat(markerAt - filledBefore)
+      + paceChar
+      + (filledAfter > 0 ? colorize(filledChar.repeat(filledAfter), barColor, useColor) : "")
+      + emptyChar.repeat(width - Math.max(markerAt + 1, filledLen));
+  }
 
   const percentRaw = limitVal > 0 ? `${Math.round(ratio * 100)}%` : "n/a";
   const percentText = percentRaw === "n/a" ? percentRaw : percentRaw.padStart(4);
@@ -202,3 +216,27 @@ export function renderQuotaBarParts(
   };
 }
 
+/**
+ * Renders usage samples as a sparkline, one character per sample, scaled from 0
+ * to `limit` (or to the highest sample for unlimited quotas). Each character is
+ * colored by the gradient level of its sample; `null` samples render as spaces.
+ */
+export function renderSparkline(
+  values: (number | null)[],
+  limit: number | null,
+  config: ProgressBarConfig = {},
+): string {
+  const useColor = shouldUseColor(config);
+  const limited = limit !== null && limit > 0;
+  const samples = values.filter((v): v is number => v !== null && isValidNumber(v));
+  const scale = limited ? limit : Math.max(0, ...samples);
+
+  return values
+    .map((value) => {
+      if (value === null || !isValidNumber(value)) return " ";
+      const ratio = scale > 0 ? clamp(value / scale, 0, 1) : 0;
+      const glyph = SPARKLINE_CHARS[Math.round(ratio * (SPARKLINE_CHARS.length - 1))];
+      return limited ? colorize(glyph, gradientColor(value / limit, config.gradients), useColor) : glyph;
+    })
+    .join("");
+}
@@ -1,6 +1,19 @@
-import { renderQuotaBarParts, type RenderQuotaBarParts, colorize } from "./progress-bar";
-import { type ProgressBarConfig, type QuotaData, type QuotaColumn } from "../interfaces";
+import { renderQuotaBarParts, type RenderQuotaBarParts, colorize, renderSparkline } from "./progress-bar";
+import {
+    type AccountRecommendation,
+    type AnsiColor,
+    type BurnRate,
+    type ProgressBarConfig,
+    type ProviderStatus,
+    type QuotaData,
+    type QuotaColumn,
+    type QuotaDisplayMode,
+    type TimeToLimitPrediction,
+} from "../interfaces";
 import { validateQuotaData } from "../utils/validation";
+import { formatDurationMs, formatRelativeTime } from "../utils/time";
+import { calculatePace, formatPace } from "../utils/pace";
+import { describeProviderStatus } from "../utils/provider-status";
 
 type RenderedQuotaLine = {
     id: string;
@@ -8,7 +21,9 @@ type RenderedQuotaLine = {
     line: string;
 };
 
-const DEFAULT_COLUMNS: QuotaColumn[] = ["status", "name", "percent", "bar", "reset", "ettl"];
+const SIMPLE_COLUMNS: QuotaColumn[] = ["status", "name", "percent", "bar", "reset", "ettl"];
+const DETAILED_COLUMNS: QuotaColumn[] = ["status", "name", "percent", "bar", "trend", "rate", "value", "reset", "window", "pace", "ettl", "info"];
+const SOURCE_ROW_PREFIX = "  └ ";
 const HEADERS: Record<QuotaColumn, string> = {
     name: "QUOTA NAME",
     bar: "UTILIZATION",
@@ -16,27 +31,157 @@ const HEADERS: Record<QuotaColumn, string> = {
     value: "VALUE",
     reset: "RESET",
     ettl: "ETTL",
+    trend: "TREND",
+    rate: "RATE",
+    pace: "PACE",
     window: "WINDOW",
     info: "INFO",
     status: "ST"
 };
 
+/**
+ * Formats an account recommendation for the info column, e.g. "switch to bob@… (72% left)".
+ */
+export function formatRecommendation(recommendation: AccountRecommendation): string {
+    const at = recommendation.account.indexOf("@");
+    const account = at > 0 ? `${recommendation.account.slice(0, at + 1)}…` : recommendation.account;
+    return `switch to ${account} (${Math.round(recommendation.remainingPercent)}% left)`;
+}
+
+/**
+ * Formats a placeholder row for a failing provider, e.g. "Codex — authentication failed, run opencode auth login".
+ */
+export function formatProviderStatus(status: ProviderStatus): string {
+    return `${status.providerName} — ${describeProviderStatus(status.status, status.authHint)}`;
+}
+
+/**
+ * Computes the reset cell at render time from `resetAt`, falling back to the
+ * legacy pre-formatted `reset` string for providers that do not supply it.
+ */
+function formatResetCell(quota: QuotaData): string {
+    if (quota.resetAt !== undefined) {
+        return formatRelativeTime(new Date(quota.resetAt));
+    }
+    // Strip "resets in " or "resets at " prefix for cleaner table display
+    return quota.reset?.replace(/^resets (in|at) /, "") || "";
+}
+
+/**
+ * ETTL predictions below this confidence are dimmed and marked as estimates.
+ */
+const LOW_CONFIDENCE = 0.5;
+
+/**
+ * ETTL cell of quotas whose predicted exhaustion comes after their reset.
+ */
+const SAFE_UNTIL_RESET = "safe until reset";
+
+/**
+ * Formats the ETTL cell, marking low-confidence predictions with "~". Detailed mode
+ * adds the prediction's range when both ends are finite, e.g. "40m (25m–1h 10m)".
+ * Quotas that reset first show "safe until reset", and exhaustion before the
+ * reset is followed by how long the quota stays blocked, e.g. "40m, blocked 2h 20m".
+ */
+function formatEttlCell(quota: QuotaData, isDetailed: boolean): string {
+    const prediction = quota.prediction;
+    if (!prediction) {
+        // Remove leading 'in ' if present and strip '(predicted)'
+        return quota.predictedReset?.replace(/^in\s+/i, "").replace(/\(predicted\)/, "").trim() || "-";
+    }
+    if (prediction.resetsFirst) return SAFE_UNTIL_RESET;
+
+    const expected = formatDurationMs(prediction.expectedMs);
+    const estimate = prediction.confidence < LOW_CONFIDENCE ? `~${expected}` : expected;
+    const showRange = isDetailed && prediction.expectedMs > 0
+        && Number.isFinite(prediction.pessimisticMs) && Number.isFinite(prediction.optimisticMs);
+    const range = showRange
+        ? ` (${formatDurationMs(prediction.pessimisticMs)}–${formatDurationMs(prediction.optimisticMs)})`
+        : "";
+    const blocked = prediction.blockedMs !== undefined ? `, blocked ${formatDurationMs(prediction.blockedMs)}` : "";
+    return `${estimate}${range}${blocked}`;
+}
+
+/**
+ * Color of the ETTL cell: dimmed for low confidence, green when the quota resets first.
+ */
+function ettlColor(prediction: TimeToLimitPrediction | undefined): AnsiColor {
+    if (prediction && prediction.confidence < LOW_CONFIDENCE) return "dim";
+    return prediction?.resetsFirst ? "green" : "gray";
+}
+
+/**
+ * Formats a usage rate with its unit, e.g. "+12%/h" or "+340 credits/h".
+ */
+export function formatRate(perHour: number, unit: string): string {
+    const rounded = Math.abs(perHour) >= 10 ? Math.round(perHour) : Math.round(perHour * 10) / 10;
+    const sign = rounded > 0 ? "+" : rounded < 0 ? "-" : "";
+    const suffix = unit === "%" ? "%" : unit ? ` ${unit}` : "";
+    return `${sign}${Math.abs(rounded)}${suffix}/h`;
+}
+
+/**
+ * The rate cell shows the long-window rate; detailed mode adds the short-window
+ * rate, e.g. "+12%/h (5m +40%/h)".
+ */
+function formatRateCell(burnRate: BurnRate | undefined, unit: string, isDetailed: boolean): string {
+    if (!burnRate) return "-";
+    const rate = formatRate(burnRate.perHour, unit);
+    if (!isDetailed || burnRate.shortPerHour === undefined) return rate;
+    const window = burnRate.shortWindowMinutes !== undefined ? `${burnRate.shortWindowMinutes}m ` : "";
+    return `${rate} (${window}${formatRate(burnRate.shortPerHour, unit)})`;
+}
+
 export function renderQuotaTable(
     quotas: QuotaData[],
     options: {
         progressBarConfig?: ProgressBarConfig;
         tableConfig?: { columns?: QuotaColumn[], header?: boolean };
+        displayMode?: QuotaDisplayMode;
+        /**
+         * Provider statuses; failing providers get a placeholder row below the table.
+         * `ok` and `stale` providers are skipped because their quotas are shown.
+         */
+        providerStatuses?: ProviderStatus[];
+        /**
+         * Rows fetched longer ago than this are marked with their age, e.g. "(14m ago)".
+         */
+        staleAfterMs?: number;
     },
 ): RenderedQuotaLine[] {
-    if (quotas.length === 0) return [];
+    const displayMode = options.displayMode ?? "simple";
+    if (displayMode === "hidden") return [];
 
-    const columns = options.tableConfig?.columns || DEFAULT_COLUMNS;
     const useColor = options.progressBarConfig?.color ?? false;
+    const placeholderRows: RenderedQuotaLine[] = (options.providerStatuses ?? [])
+        .filter((s) => s.status !== "ok" && s.status !== "stale")
+        .map((s) => ({
+            id: s.providerId,
+            providerName: s.providerName,
+            line: colorize(formatProviderStatus(s), s.status === "auth_error" ? "yellow" : "red", useColor),
+        }));
+    if (quotas.length === 0) return placeholderRows;
+
+    const isDetailed = displayMode === "detailed";
+    // Detailed mode always shows every column; `table.columns` customizes the simple table
+    let columns = isDetailed ? DETAILED_COLUMNS : options.tableConfig?.columns || SIMPLE_COLUMNS;
+    // Simple mode only shows the info column when there is an account to switch to
+    if (!options.tableConfig?.columns && !isDetailed && quotas.some((q) => q.recommendation)) {
+        columns = [...SIMPLE_COLUMNS, "info"];
+    }
+
+    // In detailed mode, list the sources of each aggregated group beneath it
+    const entries = quotas.flatMap((quota) => {
+        const own = { quota, isSource: false };
+        if (!isDetailed || !quota.sources) return [own];
+        return [own, ...quota.sources.map((source) => ({ quota: source, isSource: true }))];
+    });
 
     // 1. Pre-calculate cell data for every row
-    const rows = quotas.map((quota) => {
+    const rows = entries.map(({ quota, isSource }) => {
         const validated = validateQuotaData(quota) || quota;
         const isUnlimited = validated.limit === null || validated.limit <= 0;
+        const pace = calculatePace(validated);
         
         // Render bar parts if limited
         let barParts: RenderQuotaBarParts | null = null;
@@ -45,22 +190,34 @@ export function renderQuotaTable(
                 label: "",
                 unit: validated.unit,
                 config: options.progressBarConfig,
+                paceRatio: pace?.elapsedRatio,
             });
         }
 
-        const normalizedName = validated.providerName.replace(/_/g, " ");
-        const name = colorize(normalizedName, "cyan", useColor);
+        // Source rows share their group's account, so only top-level rows show it
+        const accountSuffix = validated.account && !isSource ? ` (${validated.account})` : "";
+        const normalizedName = (isSource ? SOURCE_ROW_PREFIX : "") + validated.providerName.replace(/_/g, " ") + accountSuffix;
+        const ageMs = validated.fetchedAt !== undefined ? Date.now() - validated.fetchedAt : 0;
+        const ageSuffix = !isSource && options.staleAfterMs !== undefined && ageMs > options.staleAfterMs
+            ? colorize(` (${formatDurationMs(ageMs)} ago)`, "gray", useColor)
+            : "";
+        const name = colorize(normalizedName, isSource ? "gray" : "cyan", useColor) + ageSuffix;
         const status = barParts 
             ? barParts.statusText 
             : (validated.info === "unlimited" ? colorize("OK ", "green", useColor) : colorize("UNK", "gray", useColor));
         
-        // Strip "resets in " or "resets at " prefix for cleaner table display
-        const resetRaw = validated.reset?.replace(/^resets (in|at) /, "") || "";
+        const resetRaw = formatResetCell(validated);
         const reset = colorize(resetRaw, "gray", useColor);
         
-        // Remove leading 'in ' if present and strip '(predicted)'
-        const ettlRaw = validated.predictedReset?.replace(/^in\s+/i, "").replace(/\(predicted\)/, "").trim() || "-";
-        const ettl = colorize(ettlRaw, "gray", useColor);
+        const ettl = colorize(formatEttlCell(validated, isDetailed), ettlColor(validated.prediction), useColor);
+
+        const rate = colorize(formatRateCell(validated.burnRate, validated.unit, isDetailed), "gray", useColor);
+
+        const paceCell = pace ? colorize(formatPace(pace), pace.delta > 0 ? "yellow" : "green", useColor) : "-";
+
+        const trend = validated.usageTrend
+            ? renderSparkline(validated.usageTrend, validated.limit, options.progressBarConfig)
+            : "";
 
         return {
             quota: validated,
@@ -72,8 +229,13 @@ export function renderQuotaTable(
                 value: barParts ? barParts.valuePart : `${validated.used} ${validated.unit}`,
                 reset,
                 ettl,
+                trend,
+                rate,
+                pace: paceCell,
                 window: validated.window || "",
-                info: validated.info || "",
+                info: quota.recommendation
+                    ? colorize(formatRecommendation(quota.recommendation), "yellow", useColor)
+                    : validated.info || "",
                 status,
             } as Record<QuotaColumn, string>
         };
@@ -81,7 +243,7 @@ export function renderQuotaTable(
 
     // 2. Measure widths
     const widths: Record<QuotaColumn, number> = {
-        name: 0, bar: 0, percent: 0, value: 0, reset: 0, window: 0, info: 0, status: 0, ettl: 0
+        name: 0, bar: 0, percent: 0, value: 0, reset: 0, window: 0, info: 0, status: 0, ettl: 0, trend: 0, rate: 0, pace: 0
     };
 
     // Calculate max widths including headers
@@ -170,5 +332,7 @@ export function renderQuotaTable(
         });
     });
 
+    outputRows.push(...placeholderRows);
+
     return outputRows;
 }
@@ -0,0 +1,18 @@
+/**
+ * Suffix appended to quota IDs of multi-account providers, e.g. "@alice-example-com".
+ */
+export function accountIdSuffix(account: string): string {
+    const slug = account
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, "-")
+        .replace(/^-|-$/g, "");
+    return `@${slug}`;
+}
+
+/**
+ * Returns the quota ID without its account suffix ("ag-raw-flash@alice-example-com" -> "ag-raw-flash").
+ */
+export function stripAccountSuffix(id: string): string {
+    const at = id.lastIndexOf("@");
+    return at > 0 ? id.slice(0, at) : id;
+}
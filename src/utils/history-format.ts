@@ -0,0 +1,134 @@
+import { type QuotaHistoryPoint } from "../interfaces";
+import { isValidNumber } from "./validation";
+
+export type HistoryFormat = "csv" | "json" | "ndjson";
+
+const HISTORY_FORMATS: readonly HistoryFormat[] = ["csv", "json", "ndjson"];
+
+const CSV_COLUMNS = ["quota_id", "timestamp", "time", "used", "limit"] as const;
+
+export function isHistoryFormat(v: unknown): v is HistoryFormat {
+    return typeof v === "string" && (HISTORY_FORMATS as readonly string[]).includes(v);
+}
+
+/**
+ * Infers the format from a file extension (`.csv`, `.json`, `.ndjson` or `.jsonl`).
+ */
+export function historyFormatFromPath(path: string): HistoryFormat | null {
+    const ext = path.toLowerCase().split(".").pop();
+    if (ext === "jsonl") return "ndjson";
+    return isHistoryFormat(ext) ? ext : null;
+}
+
+/**
+ * Serializes points. CSV adds an ISO `time` column for spreadsheets; an unlimited quota
+ * has an empty `limit` cell.
+ */
+export function formatHistory(points: QuotaHistoryPoint[], format: HistoryFormat): string {
+    const records = points.map(p => ({ quotaId: p.quotaId, timestamp: p.timestamp, used: p.used, limit: p.limit }));
+    switch (format) {
+        case "json":
+            return JSON.stringify(records, null, 2) + "\n";
+        case "ndjson":
+            return records.map(r => JSON.stringify(r) + "\n").join("");
+        case "csv": {
+            const rows = records.map(r => [
+                escapeCsv(r.quotaId),
+                String(r.timestamp),
+                new Date(r.timestamp).toISOString(),
+                String(r.used),
+                r.limit === null ? "" : String(r.limit),
+            ].join(","));
+            return [CSV_COLUMNS.join(","), ...rows].map(row => row + "\n").join("");
+        }
+    }
+}
+
+/**
+ * Parses exported history. Throws with the offending line (or array index) on invalid records.
+ */
+export function parseHistory(text: string, format: HistoryFormat): QuotaHistoryPoint[] {
+    switch (format) {
+        case "json": {
+            const parsed = JSON.parse(text) as unknown;
+            if (!Array.isArray(parsed)) throw new Error("Expected a JSON array of history points");
+            return parsed.map((record, i) => toPoint(record, `item ${i}`));
+        }
+        case "ndjson":
+            return text.split("\n").flatMap((line, i) => {
+                if (line.trim() === "") return [];
+                let record: unknown;
+                try {
+                    record = JSON.parse(line);
+                } catch {
+                    throw new Error(`Invalid JSON on line ${i + 1}`);
+                }
+                return [toPoint(record, `line ${i + 1}`)];
+            });
+        case "csv":
+            return parseCsv(text);
+    }
+}
+
+function parseCsv(text: string): QuotaHistoryPoint[] {
+    const lines = text.split(/\r?\n/);
+    const header = splitCsvLine(lines[0] ?? "").map(h => h.trim().toLowerCase());
+    const col = (name: string) => header.indexOf(name);
+    if (col("quota_id") === -1 || col("used") === -1 || (col("timestamp") === -1 && col("time") === -1)) {
+        throw new Error("CSV header must contain quota_id, timestamp (or time) and used");
+    }
+
+    const points: QuotaHistoryPoint[] = [];
+    for (let i = 1; i < lines.length; i++) {
+        if (lines[i].trim() === "") continue;
+        const cells = splitCsvLine(lines[i]);
+        const cell = (name: string) => cells[col(name)]?.trim() ?? "";
+        const timestamp = cell("timestamp") !== "" ? Number(cell("timestamp")) : Date.parse(cell("time"));
+        const limit = col("limit") === -1 || cell("limit") === "" ? null : Number(cell("limit"));
+        points.push(toPoint({ quotaId: cell("quota_id"), timestamp, used: Number(cell("used")), limit }, `line ${i + 1}`));
+    }
+    return points;
+}
+
+function toPoint(record: unknown, where: string): QuotaHistoryPoint {
+    const r = (record ?? {}) as Record<string, unknown>;
+    const limit = r.limit ?? null;
+    if (typeof r.quotaId !== "string" || r.quotaId === ""
+        || !isValidNumber(r.timestamp) || !isValidNumber(r.used)
+        || (limit !== null && !isValidNumber(limit))) {
+        throw new Error(`Invalid history point at ${where}`);
+    }
+    return { quotaId: r.quotaId, timestamp: r.timestamp, used: r.used, limit: limit as number | null };
+}
+
+function escapeCsv(value: string): string {
+    return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function splitCsvLine(line: string): string[] {
+    const cells: string[] = [];
+    let current = "";
+    let quoted = false;
+    for (let i = 0; i < line.length; i++) {
+        const ch = line[i];
+        if (quoted) {
+            if (ch === '"' && line[i + 1] === '"') {
+                current += '"';
+                i++;
+            } else if (ch === '"') {
+                quoted = false;
+            } else {
+                current += ch;
+            }
+        } else if (ch === '"') {
+            quoted = true;
+        } else if (ch === ",") {
+            cells.push(current);
+            current = "";
+        } else {
+            current += ch;
+        }
+    }
+    cells.push(current);
+    return cells;
+}
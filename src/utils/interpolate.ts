@@ -0,0 +1,60 @@
+import { readFile } from "node:fs/promises";
+import { AUTH_FILE } from "./paths";
+
+const PLACEHOLDER_PATTERN = /\{(env|auth):([^}]+)\}/g;
+
+type AuthEntry = {
+    type?: string;
+    access?: string;
+    key?: string;
+    token?: string;
+};
+
+async function readAuthEntries(): Promise<Record<string, AuthEntry>> {
+    try {
+        const raw = await readFile(AUTH_FILE(), "utf8");
+        return JSON.parse(raw) as Record<string, AuthEntry>;
+    } catch {
+        return {};
+    }
+}
+
+/**
+ * Returns the usable token of an auth.json entry (OAuth access token, API key or well-known token).
+ */
+function tokenOf(entry: AuthEntry | undefined): string | undefined {
+    if (!entry) return undefined;
+    if (entry.type === "oauth") return entry.access;
+    if (entry.type === "wellknown") return entry.token;
+    return entry.key ?? entry.access ?? entry.token;
+}
+
+/**
+ * Replaces `{env:VAR}` with the environment variable and `{auth:providerID}` with
+ * the token stored for that provider in OpenCode's auth.json.
+ * Throws if a referenced variable or credential is missing.
+ */
+export async function interpolate(value: string): Promise<string> {
+    const matches = [...value.matchAll(PLACEHOLDER_PATTERN)];
+    if (matches.length === 0) return value;
+
+    const needsAuth = matches.some((m) => m[1] === "auth");
+    const auth = needsAuth ? await readAuthEntries() : {};
+
+    return value.replace(PLACEHOLDER_PATTERN, (_, kind: string, name: string) => {
+        const key = name.trim();
+        if (kind === "env") {
+            const envValue = process.env[key];
+            if (envValue === undefined) {
+                throw new Error(`Environment variable ${key} is not set`);
+            }
+            return envValue;
+        }
+
+        const token = tokenOf(auth[key]);
+        if (!token) {
+            throw new Error(`No credentials for "${key}" in auth.json`);
+        }
+        return token;
+    });
+}
@@ -0,0 +1,66 @@
+type PathSegment = string | number | "*";
+
+/**
+ * Parses a JSONPath-style selector (`$.data.items[0].used`, `$['x-key']`, `$.items[*]`)
+ * into its segments. Only the dot/bracket child and `[*]` wildcard forms are supported.
+ */
+function parsePath(path: string): PathSegment[] {
+    const trimmed = path.trim();
+    if (!trimmed.startsWith("$")) {
+        throw new Error(`Invalid selector "${path}": must start with "$"`);
+    }
+
+    const segments: PathSegment[] = [];
+    const re = /\.([A-Za-z_$][\w$-]*)|\.\*|\[(\d+)\]|\[\*\]|\[(['"])(.*?)\3\]/y;
+    let index = 1;
+    while (index < trimmed.length) {
+        re.lastIndex = index;
+        const m = re.exec(trimmed);
+        if (!m) {
+            throw new Error(`Invalid selector "${path}" at position ${index}`);
+        }
+        if (m[1] !== undefined) segments.push(m[1]);
+        else if (m[2] !== undefined) segments.push(Number(m[2]));
+        else if (m[4] !== undefined) segments.push(m[4]);
+        else segments.push("*");
+        index = re.lastIndex;
+    }
+    return segments;
+}
+
+/**
+ * Returns every value matched by the selector. Missing paths yield an empty array.
+ */
+export function selectAll(input: unknown, path: string): unknown[] {
+    let current: unknown[] = [input];
+
+    for (const segment of parsePath(path)) {
+        const next: unknown[] = [];
+        for (const value of current) {
+            if (value === null || typeof value !== "object") continue;
+            if (segment === "*") {
+                next.push(...(Array.isArray(value) ? value : Object.values(value)));
+            } else {
+                const child = (value as Record<string | number, unknown>)[segment];
+                if (child !== undefined) next.push(child);
+            }
+        }
+        current = next;
+    }
+
+    return current;
+}
+
+/**
+ * Returns the first value matched by the selector, or undefined.
+ */
+export function selectOne(input: unknown, path: string): unknown {
+    return selectAll(input, path)[0];
+}
+
+/**
+ * Whether a config value is a selector (starts with `$`) rather than a literal.
+ */
+export function isSelector(value: unknown): value is string {
+    return typeof value === "string" && value.trim().startsWith("$");
+}
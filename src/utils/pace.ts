@@ -0,0 +1,29 @@
+import { type QuotaData, type QuotaPace } from "../interfaces";
+import { clamp } from "./validation";
+
+/**
+ * Compares the used fraction of a quota with the elapsed fraction of its window,
+ * derived from `windowMs` and `resetAt`.
+ * @returns The pace, or null for unlimited quotas and quotas without a known window or reset
+ */
+export function calculatePace(
+    quota: Pick<QuotaData, "used" | "limit" | "resetAt" | "windowMs">,
+    now: number = Date.now()
+): QuotaPace | null {
+    if (quota.limit === null || quota.limit <= 0) return null;
+    if (quota.resetAt === undefined || quota.windowMs === undefined || quota.windowMs <= 0) return null;
+
+    const elapsedRatio = clamp(1 - (quota.resetAt - now) / quota.windowMs, 0, 1);
+    return { elapsedRatio, delta: quota.used / quota.limit - elapsedRatio };
+}
+
+/**
+ * Formats a pace as percentage points ahead of or under an even spread,
+ * e.g. "ahead +18%", "under −10%" or "on pace".
+ */
+export function formatPace(pace: QuotaPace): string {
+    const points = Math.round(pace.delta * 100);
+    if (points > 0) return `ahead +${points}%`;
+    if (points < 0) return `under −${-points}%`;
+    return "on pace";
+}
@@ -36,6 +36,9 @@ export function getConfigDirectory(): string {
 }
 
 export const AUTH_FILE = (): string => join(getDataDirectory(), "auth.json");
-export const HISTORY_FILE = (): string => join(getDataDirectory(), "quota-history.json");
+export const HISTORY_FILE = (): string => join(getDataDirectory(), "quota-history.ndjson");
+export const LEGACY_HISTORY_FILE = (): string => join(getDataDirectory(), "quota-history.json");
+export const SNAPSHOT_FILE = (): string => join(getDataDirectory(), "quota-snapshot.json");
+export const POLLER_LOCK_FILE = (): string => join(getDataDirectory(), "quota-poller.lock");
 export const DEBUG_LOG_FILE = (): string => join(getDataDirectory(), "quotas-debug.log");
 export const ANTIGRAVITY_ACCOUNTS_FILE = (): string => join(getConfigDirectory(), "antigravity-accounts.json");
@@ -0,0 +1,42 @@
+import { type ProviderStatusKind } from "../interfaces";
+
+type ProviderErrorKind = Exclude<ProviderStatusKind, "ok" | "stale">;
+
+const AUTH_ERROR_PATTERN = /auth|credential|token|login|unauthori[sz]ed|forbidden/i;
+const PARSE_ERROR_PATTERN = /json|parse|payload|did not include|did not match|no quota data|unrecognized output/i;
+
+/**
+ * Classifies a provider failure from its HTTP status (`error.cause.status`, as set by
+ * the Codex and HTTP providers) or, failing that, from its message.
+ */
+export function classifyProviderError(error: unknown): ProviderErrorKind {
+    const status = error instanceof Error
+        ? (error.cause as { status?: unknown } | undefined)?.status
+        : undefined;
+    if (status === 401 || status === 403) return "auth_error";
+    if (error instanceof SyntaxError) return "parse_error";
+
+    const message = error instanceof Error ? error.message : String(error);
+    if (AUTH_ERROR_PATTERN.test(message)) return "auth_error";
+    if (PARSE_ERROR_PATTERN.test(message)) return "parse_error";
+    return "network_error";
+}
+
+/**
+ * Short, user-facing description of a provider status,
+ * e.g. "authentication failed, run opencode auth login".
+ */
+export function describeProviderStatus(status: ProviderStatusKind, authHint?: string): string {
+    switch (status) {
+        case "ok":
+            return "ok";
+        case "stale":
+            return "refresh failed, showing last known quotas";
+        case "auth_error":
+            return authHint ? `authentication failed, ${authHint}` : "authentication failed";
+        case "network_error":
+            return "unreachable, retrying";
+        case "parse_error":
+            return "unexpected response, see debug log";
+    }
+}
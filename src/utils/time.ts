@@ -38,3 +38,21 @@ export function formatDurationMs(ms: number): string {
     }
     return "less than 1m";
 }
+
+const DURATION_UNITS_MS: Record<string, number> = {
+    m: 60 * 1000,
+    h: 60 * 60 * 1000,
+    d: 24 * 60 * 60 * 1000,
+    w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Parses durations like "30m", "12h", "7d" or "2w" into milliseconds. Returns null if invalid.
+ */
+export function parseDuration(input: string): number | null {
+    const match = /^(\d+(?:\.\d+)?)\s*([mhdw])$/i.exec(input.trim());
+    if (!match) return null;
+    const value = Number(match[1]);
+    if (!(value > 0)) return null;
+    return value * DURATION_UNITS_MS[match[2].toLowerCase()];
+}
@@ -1,4 +1,7 @@
-import { type QuotaData } from "../interfaces";
+import { type QuotaData, type QuotaDisplayMode, type PredictionEngineType, type ProviderConfig } from "../interfaces";
+
+const DISPLAY_MODES: readonly QuotaDisplayMode[] = ["simple", "detailed", "hidden"];
+const PREDICTION_ENGINES: readonly PredictionEngineType[] = ["linear", "ewma", "holt"];
 
 export function isValidNumber(v: unknown): v is number {
     return typeof v === "number" && Number.isFinite(v);
@@ -11,6 +14,81 @@ export function clamp(value: number, min: number, max?: number): number {
     return value;
 }
 
+export function isDisplayMode(v: unknown): v is QuotaDisplayMode {
+    return typeof v === "string" && (DISPLAY_MODES as readonly string[]).includes(v);
+}
+
+export function isPredictionEngineType(v: unknown): v is PredictionEngineType {
+    return typeof v === "string" && (PREDICTION_ENGINES as readonly string[]).includes(v);
+}
+
+/**
+ * Checks a `providers` config entry. Returns a description of the problem, or null if valid.
+ */
+export function validateProviderConfig(input: unknown): string | null {
+    if (typeof input !== "object" || input === null) return "entry must be an object";
+    const p = input as Partial<ProviderConfig>;
+
+    if (p.refreshIntervalMs !== undefined && validatePollingInterval(p.refreshIntervalMs) === null) {
+        return `${String(p.id ?? (p as { module?: unknown }).module)}: "refreshIntervalMs" must be a positive number`;
+    }
+
+    if (p.type === "module") {
+        if (!p.module || typeof p.module !== "string") return "module provider is missing \"module\"";
+        return null;
+    }
+
+    if (!p.id || typeof p.id !== "string") return "missing \"id\"";
+
+    switch (p.type) {
+        case "http":
+            if (!p.url || typeof p.url !== "string") return `${p.id}: missing "url"`;
+            if (!p.fields || p.fields.used === undefined) return `${p.id}: missing "fields.used"`;
+            return null;
+        case "command":
+            if (!p.command || typeof p.command !== "string") return `${p.id}: missing "command"`;
+            if (p.args !== undefined && (!Array.isArray(p.args) || p.args.some(a => typeof a !== "string"))) {
+                return `${p.id}: "args" must be an array of strings`;
+            }
+            return null;
+        default:
+            return `${p.id}: unknown provider type "${String(p.type)}"`;
+    }
+}
+
+/**
+ * Epoch values below this are treated as seconds rather than milliseconds.
+ */
+const EPOCH_MS_THRESHOLD = 1e12;
+
+/**
+ * Coerces a number or numeric string to a finite number, or null.
+ */
+export function parseNumber(value: unknown): number | null {
+    if (typeof value === "number" && Number.isFinite(value)) return value;
+    if (typeof value === "string" && value.trim() !== "") {
+        const parsed = Number(value);
+        if (Number.isFinite(parsed)) return parsed;
+    }
+    return null;
+}
+
+/**
+ * Parses a reset instant given as epoch seconds, epoch milliseconds or a date string
+ * into epoch milliseconds.
+ */
+export function parseResetAt(value: unknown): number | undefined {
+    const numeric = parseNumber(value);
+    if (numeric !== null) {
+        return numeric < EPOCH_MS_THRESHOLD ? numeric * 1000 : numeric;
+    }
+    if (typeof value === "string") {
+        const parsed = Date.parse(value);
+        if (Number.isFinite(parsed)) return parsed;
+    }
+    return undefined;
+}
+
 export function validatePollingInterval(v: unknown): number | null {
     if (v === null || v === undefined) return null;
     const n = typeof v === "string" ? Number(v.trim()) : Number(v);
@@ -42,11 +120,29 @@ export function validateQuotaData(input: unknown): QuotaData | null {
     }
 
     const unit = typeof q.unit === "string" ? q.unit : "";
+    const resetAt = isValidNumber(q.resetAt) ? q.resetAt : undefined;
+    const windowMs = isValidNumber(q.windowMs) && q.windowMs > 0 ? q.windowMs : undefined;
     const reset = typeof q.reset === "string" ? q.reset : undefined;
     const predictedReset = typeof q.predictedReset === "string" ? q.predictedReset : undefined;
+    const timeToLimitMs = isValidNumber(q.timeToLimitMs) && q.timeToLimitMs >= 0 ? q.timeToLimitMs : undefined;
     const window = typeof q.window === "string" ? q.window : undefined;
     const info = typeof q.info === "string" ? q.info : undefined;
     const details = typeof q.details === "string" ? q.details : undefined;
+    const account = typeof q.account === "string" && q.account !== "" ? q.account : undefined;
+    const stale = q.stale === true ? true : undefined;
+    const fetchedAt = isValidNumber(q.fetchedAt) ? q.fetchedAt : undefined;
+    // JSON turns an open-ended optimistic bound into null
+    const prediction = q.prediction && isValidNumber(q.prediction.expectedMs)
+        ? {
+              ...q.prediction,
+              optimisticMs: isValidNumber(q.prediction.optimisticMs) ? q.prediction.optimisticMs : Infinity,
+              confidence: clamp(Number(q.prediction.confidence), 0, 1),
+          }
+        : undefined;
+    const burnRate = q.burnRate && isValidNumber(q.burnRate.perHour) ? q.burnRate : undefined;
+    const usageTrend = Array.isArray(q.usageTrend)
+        ? q.usageTrend.map((v) => (isValidNumber(v) ? v : null))
+        : undefined;
 
     return {
         id: q.id,
@@ -54,10 +150,19 @@ export function validateQuotaData(input: unknown): QuotaData | null {
         used,
         limit,
         unit,
+        resetAt,
         reset,
         predictedReset,
+        timeToLimitMs,
+        prediction,
+        burnRate,
+        usageTrend,
         window,
+        windowMs,
         info,
         details,
+        account,
+        stale,
+        fetchedAt,
     };
 }
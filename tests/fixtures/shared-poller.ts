@@ -0,0 +1,38 @@
+// Runs one QuotaCache against a shared data directory, as a separate OpenCode process would.
+// Usage: bun shared-poller.ts <dataDir> <runMs> [exit]
+// With "exit", the process quits without releasing the poller lock (simulating a crash).
+import { appendFile } from "node:fs/promises";
+import { join } from "node:path";
+import { QuotaCache } from "../../src/quota-cache";
+import { PollerLock } from "../../src/poller-lock";
+import { type IQuotaProvider } from "../../src/interfaces";
+
+const [dataDir, runMs, mode] = process.argv.slice(2);
+
+const provider: IQuotaProvider = {
+    id: "shared",
+    fetchQuota: async () => {
+        await appendFile(join(dataDir, "fetches.log"), `${process.pid}\n`);
+        return [{ id: "shared-q", providerName: "Shared", used: 42, limit: 100, unit: "%" }];
+    },
+};
+
+const lock = new PollerLock(join(dataDir, "quota-poller.lock"), { staleMs: 5_000 });
+const cache = new QuotaCache([provider], {
+    refreshIntervalMs: 1_000,
+    snapshotPath: join(dataDir, "quota-snapshot.json"),
+    lock,
+});
+
+await cache.start();
+await new Promise((resolve) => setTimeout(resolve, Number(runMs)));
+
+const snapshot = cache.getSnapshot();
+console.log(JSON.stringify({
+    pid: process.pid,
+    leader: lock.isHeld(),
+    quotas: snapshot.data.map((q) => q.id),
+}));
+
+if (mode === "exit") process.exit(0);
+cache.stop();
@@ -1,6 +1,29 @@
-import { expect, test, describe, beforeEach } from "bun:test";
+import { expect, test, describe, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { existsSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import { QuotaHubPlugin } from "../../src/index";
 
+const SHARED_POLLER_SCRIPT = join(import.meta.dir, "..", "fixtures", "shared-poller.ts");
+
+type PollerResult = { pid: number; leader: boolean; quotas: string[] };
+
+async function runPoller(dataDir: string, runMs: number, mode?: "exit"): Promise<PollerResult> {
+    const proc = Bun.spawn(
+        [process.execPath, SHARED_POLLER_SCRIPT, dataDir, String(runMs), ...(mode ? [mode] : [])],
+        { stdout: "pipe", stderr: "inherit" },
+    );
+    const output = await new Response(proc.stdout).text();
+    await proc.exited;
+    return JSON.parse(output.trim().split("\n").pop()!) as PollerResult;
+}
+
+async function fetchingPids(dataDir: string): Promise<number[]> {
+    const log = await readFile(join(dataDir, "fetches.log"), "utf-8");
+    return [...new Set(log.split("\n").filter(Boolean).map(Number))];
+}
+
 describe("Concurrency Integration", () => {
     let mockClient: any;
     let mockContext: any;
@@ -65,3 +88,46 @@ describe("Concurrency Integration", () => {
         // The important thing is processTaskCount is 1.
     });
 });
+
+describe("Concurrency Integration - multiple processes", () => {
+    let dataDir: string;
+
+    beforeEach(async () => {
+        dataDir = await mkdtemp(join(tmpdir(), "quota-processes-"));
+    });
+
+    afterEach(async () => {
+        await rm(dataDir, { recursive: true, force: true });
+    });
+
+    test("only one of several concurrent processes polls; the others serve its snapshot", async () => {
+        const results = await Promise.all([
+            runPoller(dataDir, 2_500),
+            runPoller(dataDir, 2_500),
+            runPoller(dataDir, 2_500),
+        ]);
+
+        const leaders = results.filter((r) => r.leader);
+        expect(leaders).toHaveLength(1);
+        expect(await fetchingPids(dataDir)).toEqual([leaders[0].pid]);
+
+        for (const result of results) {
+            expect(result.quotas).toEqual(["shared-q"]);
+        }
+
+        // The leader releases the lock when it stops
+        expect(existsSync(join(dataDir, "quota-poller.lock"))).toBe(false);
+    }, 30_000);
+
+    test("a new process takes over the lock left behind by a crashed poller", async () => {
+        const crashed = await runPoller(dataDir, 300, "exit");
+        expect(crashed.leader).toBe(true);
+        expect(existsSync(join(dataDir, "quota-poller.lock"))).toBe(true);
+
+        const successor = await runPoller(dataDir, 300);
+
+        expect(successor.leader).toBe(true);
+        expect(successor.quotas).toEqual(["shared-q"]);
+        expect(await fetchingPids(dataDir)).toEqual([crashed.pid, successor.pid]);
+    }, 30_000);
+});
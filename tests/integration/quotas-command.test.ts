@@ -0,0 +1,103 @@
+import { expect, test, describe, beforeAll, afterAll, spyOn } from "bun:test";
+import { QuotaHubPlugin } from "../../src/index";
+import { QuotaCache } from "../../src/quota-cache";
+import { getPluginState } from "../../src/plugin-state";
+import {
+    PLUGIN_FOOTER_SIGNATURE,
+    QUOTAS_COMMAND_NAME,
+    QUOTAS_COMMAND_TEMPLATE,
+} from "../../src/constants";
+import { join } from "node:path";
+import { mkdtemp, mkdir, writeFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+
+describe("/quotas command", () => {
+    let tempDir: string;
+    let originalXdgData: string | undefined;
+    let snapshotSpy: any;
+
+    const mockClient = {
+        session: {
+            message: async () => ({
+                data: {
+                    info: { role: "assistant", mode: "normal", providerID: "p", modelID: "m" },
+                    parts: [{ id: "part-1", type: "text" }],
+                },
+            }),
+        },
+    };
+
+    beforeAll(async () => {
+        tempDir = await mkdtemp(join(tmpdir(), "opencode-quotas-command-test-"));
+        originalXdgData = process.env.XDG_DATA_HOME;
+        process.env.XDG_DATA_HOME = tempDir;
+
+        // Footer disabled and the only quota hidden: /quotas must still render it
+        await mkdir(join(tempDir, ".opencode"), { recursive: true });
+        await writeFile(
+            join(tempDir, ".opencode", "quotas.json"),
+            JSON.stringify({ footer: false, disabled: ["codex-smart"] }),
+        );
+
+        snapshotSpy = spyOn(QuotaCache.prototype, "getSnapshot").mockReturnValue({
+            data: [{ id: "codex-primary", providerName: "Codex Primary", used: 40, limit: 100, unit: "%" }],
+            fetchedAt: new Date(),
+            lastError: null,
+            providers: [],
+        });
+    });
+
+    afterAll(async () => {
+        snapshotSpy.mockRestore();
+        if (originalXdgData) process.env.XDG_DATA_HOME = originalXdgData;
+        else delete process.env.XDG_DATA_HOME;
+        await rm(tempDir, { recursive: true, force: true });
+    });
+
+    test("config hook registers the command without overriding user definitions", async () => {
+        const hooks = await QuotaHubPlugin({ client: mockClient, $: {}, directory: tempDir } as any);
+
+        const config: any = {};
+        await hooks.config!(config);
+        expect(config.command[QUOTAS_COMMAND_NAME].template).toBe(QUOTAS_COMMAND_TEMPLATE);
+
+        const custom: any = { command: { [QUOTAS_COMMAND_NAME]: { template: "custom" } } };
+        await hooks.config!(custom);
+        expect(custom.command[QUOTAS_COMMAND_NAME].template).toBe("custom");
+    });
+
+    test("renders the full table once, bypassing footer and disabled settings", async () => {
+        const hooks = await QuotaHubPlugin({ client: mockClient, $: {}, directory: tempDir } as any);
+        const input = { sessionID: "cmd-session", messageID: "cmd-message", partID: "part-1" };
+
+        // Without a request the footer stays disabled
+        const before = { text: "Hello" };
+        await hooks["experimental.text.complete"]!(input, before);
+        expect(before.text).toBe("Hello");
+
+        await hooks["chat.message"]!(
+            { sessionID: "cmd-session" },
+            { message: {} as any, parts: [{ type: "text", text: QUOTAS_COMMAND_TEMPLATE } as any] },
+        );
+        expect(getPluginState().hasFullTableRequest("cmd-session")).toBe(true);
+
+        const output = { text: "Here are your quotas." };
+        await hooks["experimental.text.complete"]!(input, output);
+
+        expect(output.text).toContain(PLUGIN_FOOTER_SIGNATURE);
+        expect(output.text).toContain("Codex Usage");
+        expect(output.text).toContain("└ Codex Primary");
+        expect(getPluginState().hasFullTableRequest("cmd-session")).toBe(false);
+    });
+
+    test("ignores unrelated user messages", async () => {
+        const hooks = await QuotaHubPlugin({ client: mockClient, $: {}, directory: tempDir } as any);
+
+        await hooks["chat.message"]!(
+            { sessionID: "other-session" },
+            { message: {} as any, parts: [{ type: "text", text: "How much quota do I have?" } as any] },
+        );
+
+        expect(getPluginState().hasFullTableRequest("other-session")).toBe(false);
+    });
+});
@@ -168,7 +168,9 @@ describe("AggregationService", () => {
                     if (quotaId === "q2") return 5000;      // 5 seconds
                     if (quotaId === "q3") return Infinity;  // Never
                     return Infinity;
-                }
+                },
+                predictTimeToLimitRange: () => null,
+                predictBurnRate: () => null
             };
 
             const service = new AggregationService(mockPredictionEngine);
@@ -192,7 +194,9 @@ describe("AggregationService", () => {
                     receivedWindow = windowMinutes;
                     receivedShortWindow = shortWindowMinutes;
                     return Infinity;
-                }
+                },
+                predictTimeToLimitRange: () => null,
+                predictBurnRate: () => null
             };
 
             const service = new AggregationService(mockPredictionEngine);
@@ -204,7 +208,9 @@ describe("AggregationService", () => {
 
         test("adds predicted reset time to representative quota", () => {
             const mockPredictionEngine: IPredictionEngine = {
-                predictTimeToLimit: (): number => 10 * 60 * 1000 // 10 minutes
+                predictTimeToLimit: (): number => 10 * 60 * 1000, // 10 minutes
+                predictTimeToLimitRange: () => null,
+                predictBurnRate: () => null
             };
 
             const service = new AggregationService(mockPredictionEngine);
@@ -225,4 +231,35 @@ describe("AggregationService", () => {
             expect(result!.predictedReset).toBeUndefined();
         });
     });
+
+    describe("recommendAccounts", () => {
+        test("picks the account with the most remaining capacity per quota", () => {
+            const service = new AggregationService(new NullPredictionEngine());
+            const recommendations = service.recommendAccounts([
+                { id: "ag-flash@alice-example-com", providerName: "Antigravity Flash", used: 100, limit: 100, unit: "%", account: "alice@example.com" },
+                { id: "ag-flash@bob-example-com", providerName: "Antigravity Flash", used: 28, limit: 100, unit: "%", account: "bob@example.com" },
+                { id: "ag-pro@alice-example-com", providerName: "Antigravity Pro", used: 10, limit: 100, unit: "%", account: "alice@example.com" },
+                { id: "codex-smart", providerName: "Codex Usage", used: 10, limit: 100, unit: "%" },
+            ]);
+
+            expect(recommendations).toEqual([{
+                familyId: "ag-flash",
+                name: "Antigravity Flash",
+                account: "bob@example.com",
+                quotaId: "ag-flash@bob-example-com",
+                remainingPercent: 72,
+            }]);
+        });
+
+        test("breaks ties by the longest predicted time to limit", () => {
+            const service = new AggregationService(new NullPredictionEngine());
+            const [recommendation] = service.recommendAccounts([
+                { id: "q@a", providerName: "Q", used: 50, limit: 100, unit: "%", account: "a", timeToLimitMs: 60_000 },
+                { id: "q@b", providerName: "Q", used: 50, limit: 100, unit: "%", account: "b" },
+                { id: "q@c", providerName: "Q", used: 50, limit: 100, unit: "%", account: "c", timeToLimitMs: 120_000 },
+            ]);
+
+            expect(recommendation.account).toBe("b");
+        });
+    });
 });
@@ -10,9 +10,12 @@ describe("Aggregation Strategies", () => {
         historyData = {};
         mockHistoryService = {
             init: async () => {},
+            reload: async () => {},
             append: async () => {},
             getHistory: (id: string) => historyData[id] || [],
+            getResetEvents: () => [],
             setMaxAge: () => {},
+            setTiers: () => {},
             setResetThreshold: () => {},
             pruneAll: async () => {}
         };
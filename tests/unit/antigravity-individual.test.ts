@@ -8,6 +8,7 @@ describe("Antigravity Flat Quota Provider", () => {
         // Restore all spies
         for (const spy of [
             auth.getCloudCredentials,
+            auth.getAllCloudCredentials,
             antigravity.fetchCloudQuota,
         ]) {
             if ((spy as any).mockRestore) {
@@ -105,4 +106,41 @@ describe("Antigravity Flat Quota Provider", () => {
         expect(result.map((r) => r.id)).toContain("ag-raw-gpt-4");
         expect(result.map((r) => r.id)).toContain("ag-raw-gemini-pro");
     });
+
+    test("fetches every account with suffixed IDs when allAccounts is enabled", async () => {
+        spyOn(auth, "getAllCloudCredentials").mockResolvedValue([
+            { email: "alice@example.com", credentials: { accessToken: "token-a", email: "alice@example.com" } },
+            { email: "bob@example.com", credentials: { accessToken: "token-b", email: "bob@example.com" } },
+            { email: "carol@example.com", error: new Error("Refresh token is invalid or expired") },
+        ]);
+
+        spyOn(antigravity, "fetchCloudQuota").mockImplementation(async (accessToken: string) => ({
+            account: {},
+            timestamp: Date.now(),
+            models: [
+                {
+                    modelName: "gemini-flash",
+                    label: "Gemini Flash",
+                    quotaInfo: { remainingFraction: accessToken === "token-a" ? 0 : 0.6 },
+                },
+            ],
+        }));
+
+        const provider = createAntigravityProvider({ allAccounts: true });
+        const result = await provider.fetchQuota();
+
+        expect(result.map((r) => [r.id, r.account, r.used])).toEqual([
+            ["ag-raw-gemini-flash@alice-example-com", "alice@example.com", 100],
+            ["ag-raw-gemini-flash@bob-example-com", "bob@example.com", 40],
+        ]);
+    });
+
+    test("fails when every account fails in multi-account mode", async () => {
+        spyOn(auth, "getAllCloudCredentials").mockResolvedValue([
+            { email: "alice@example.com", error: new Error("expired") },
+        ]);
+
+        const provider = createAntigravityProvider({ allAccounts: true });
+        await expect(provider.fetchQuota()).rejects.toThrow("All 1 Antigravity accounts failed");
+    });
 });
@@ -83,4 +83,43 @@ describe("Antigravity Auth", () => {
             await expect(auth.getCloudCredentials()).rejects.toThrow("Refresh token is invalid or expired");
         });
     });
+
+    describe("getAllCloudCredentials", () => {
+        test("refreshes every account and caches each one separately", async () => {
+            spyOn(fs, "readFile").mockResolvedValue(JSON.stringify({
+                version: 1,
+                accounts: [
+                    { email: "alice@example.com", refreshToken: "token-a", projectId: "proj-a", addedAt: 0, lastUsed: 0 },
+                    { email: "bob@example.com", refreshToken: "token-b", addedAt: 0, lastUsed: 0 },
+                    { email: "carol@example.com", refreshToken: "revoked", addedAt: 0, lastUsed: 0 },
+                ],
+                activeIndex: 0
+            }));
+
+            let refreshCount = 0;
+            globalThis.fetch = (async (_url: string, init: RequestInit) => {
+                const refreshToken = new URLSearchParams(String(init.body)).get("refresh_token");
+                refreshCount++;
+                if (refreshToken === "revoked") {
+                    return { ok: false, status: 400, text: async () => "invalid_grant" } as Response;
+                }
+                return {
+                    ok: true,
+                    json: async () => ({ access_token: `access-${refreshToken}`, expires_in: 3600, token_type: "Bearer" })
+                } as Response;
+            }) as any;
+
+            const results = await auth.getAllCloudCredentials();
+
+            expect(results.map(r => r.email)).toEqual(["alice@example.com", "bob@example.com", "carol@example.com"]);
+            expect(results[0].credentials).toEqual({ accessToken: "access-token-a", projectId: "proj-a", email: "alice@example.com" });
+            expect(results[1].credentials?.accessToken).toBe("access-token-b");
+            expect(results[2].credentials).toBeUndefined();
+            expect(String(results[2].error)).toContain("Refresh token is invalid or expired");
+
+            // Cached tokens are reused per account; only the failed account is retried
+            await auth.getAllCloudCredentials();
+            expect(refreshCount).toBe(4);
+        });
+    });
 });
@@ -0,0 +1,95 @@
+import { expect, test, describe } from "bun:test";
+import { backtestHistory, type BacktestConfig } from "../../src/services/backtest";
+import { type QuotaHistoryPoint } from "../../src/interfaces";
+
+const MINUTE = 60 * 1000;
+const LINEAR: BacktestConfig = { engine: "linear", windowMinutes: 60, shortWindowMinutes: 5 };
+
+function series(quotaId: string, used: number[], stepMinutes = 10, start = 1_700_000_000_000): QuotaHistoryPoint[] {
+    return used.map((u, i) => ({ quotaId, timestamp: start + i * stepMinutes * MINUTE, used: u, limit: 100 }));
+}
+
+describe("backtestHistory", () => {
+    test("scores steady usage that reaches the limit", () => {
+        const report = backtestHistory(series("q1", [10, 20, 30, 40, 50, 60, 70, 80, 90, 100]), [LINEAR]);
+
+        expect(report.quotas).toHaveLength(1);
+        expect(report.quotas[0]).toMatchObject({ quotaId: "q1", points: 10, windows: 1, exhaustions: 1 });
+        const metrics = report.quotas[0].results[0].metrics;
+        // Predictions from the second reading (20%) to the last before the limit (90%)
+        expect(metrics.scored).toBe(8);
+        expect(metrics.hits).toBe(8);
+        expect(metrics.missed).toBe(0);
+        expect(metrics.falseAlarms).toBe(0);
+        expect(metrics.meanAbsoluteErrorMs!).toBeLessThan(MINUTE);
+        expect(metrics.meanRelativeError!).toBeLessThan(0.01);
+    });
+
+    test("counts predicted exhaustion before a reset as a false alarm", () => {
+        // Fast usage, then a reset 40 minutes after the last reading
+        const points = [
+            ...series("q1", [10, 50, 90]),
+            ...series("q1", [0, 0], 10, 1_700_000_000_000 + 60 * MINUTE),
+        ];
+
+        const report = backtestHistory(points, [LINEAR]);
+
+        expect(report.quotas[0]).toMatchObject({ windows: 2, exhaustions: 0 });
+        expect(report.quotas[0].results[0].metrics).toMatchObject({ scored: 2, hits: 0, falseAlarms: 2, missed: 0 });
+    });
+
+    test("does not count exhaustion predicted after a detected reset as a false alarm", () => {
+        // Slow usage that would reach the limit in about an hour, but resets after 30 minutes
+        const points = [
+            ...series("q1", [10, 20, 30]),
+            ...series("q1", [0, 0], 10, 1_700_000_000_000 + 30 * MINUTE),
+        ];
+
+        const report = backtestHistory(points, [LINEAR]);
+
+        expect(report.quotas[0]).toMatchObject({ windows: 2, exhaustions: 0 });
+        expect(report.quotas[0].results[0].metrics).toMatchObject({ scored: 2, falseAlarms: 0 });
+    });
+
+    test("predicts over the whole window of long-term quotas", () => {
+        // Growth, then a flat stretch longer than the 60-minute window, then the limit
+        const points = series("q1", [0, 10, 20, 30, 40, 50, ...Array(12).fill(50), 100]);
+        const contexts = new Map([["q1", { windowMs: 7 * 24 * 60 * MINUTE }]]);
+
+        const withoutWindow = backtestHistory(points, [LINEAR]).quotas[0].results[0].metrics;
+        const withWindow = backtestHistory(points, [LINEAR], { contexts }).quotas[0].results[0].metrics;
+
+        expect(withoutWindow.missed).toBeGreaterThan(0);
+        expect(withWindow.missed).toBe(0);
+    });
+
+    test("counts a limit reached without a prediction as missed", () => {
+        // Flat usage, then a jump to the limit
+        const report = backtestHistory(series("q1", [50, 50, 50, 100]), [LINEAR]);
+
+        expect(report.quotas[0].results[0].metrics).toMatchObject({ scored: 2, hits: 0, missed: 2 });
+    });
+
+    test("splits windows at recorded reset events", () => {
+        const points = series("q1", [10, 20, 30, 40]);
+        const resetEvents = [{ quotaId: "q1", timestamp: points[2].timestamp - MINUTE, usedBefore: 20, usedAfter: 30, peakUsed: 20, limit: 100 }];
+
+        const report = backtestHistory(points, [LINEAR], { resetEvents });
+
+        expect(report.quotas[0].windows).toBe(2);
+    });
+
+    test("compares every config per quota and over all quotas", () => {
+        const configs: BacktestConfig[] = [LINEAR, { engine: "ewma", windowMinutes: 30, shortWindowMinutes: 5 }];
+        const points = [
+            ...series("q2", [10, 20, 30, 40, 50, 60, 70, 80, 90, 100]),
+            ...series("q1", [10, 20, 30, 40, 50, 60, 70, 80, 90, 100]),
+        ];
+
+        const report = backtestHistory(points, configs);
+
+        expect(report.quotas.map(q => q.quotaId)).toEqual(["q1", "q2"]);
+        expect(report.quotas[0].results.map(r => r.config)).toEqual(configs);
+        expect(report.overall.map(r => r.metrics.scored)).toEqual([16, 16]);
+    });
+});
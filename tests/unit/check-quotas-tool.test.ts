@@ -0,0 +1,85 @@
+import { expect, test, describe } from "bun:test";
+import { buildQuotaReport, createCheckQuotasTool } from "../../src/tools/check-quotas";
+import { QuotaService } from "../../src/services/quota-service";
+import { QuotaCache } from "../../src/quota-cache";
+import { type IQuotaProvider, type QuotaData } from "../../src/interfaces";
+
+const toolContext = {
+    sessionID: "s1",
+    messageID: "m1",
+    agent: "build",
+    abort: new AbortController().signal,
+};
+
+describe("check_quotas tool", () => {
+    test("buildQuotaReport serializes structured fields", () => {
+        const now = 1_700_000_000_000;
+        const quotas: QuotaData[] = [
+            {
+                id: "codex-primary",
+                providerName: "Codex Primary",
+                used: 42,
+                limit: 100,
+                unit: "%",
+                window: "5h window",
+                resetAt: now + 90 * 60 * 1000,
+                timeToLimitMs: 12 * 60 * 1000,
+            },
+            { id: "codex-credits", providerName: "Codex Credits", used: 5, limit: null, unit: "credits" },
+        ];
+
+        const report = buildQuotaReport(quotas, new Date(now), now);
+
+        expect(report.fetchedAt).toBe(new Date(now).toISOString());
+        expect(report.quotas[0]).toEqual({
+            id: "codex-primary",
+            name: "Codex Primary",
+            account: null,
+            used: 42,
+            limit: 100,
+            unit: "%",
+            percentUsed: 42,
+            window: "5h window",
+            resetAt: new Date(now + 90 * 60 * 1000).toISOString(),
+            resetInMs: 90 * 60 * 1000,
+            timeToLimitMs: 12 * 60 * 1000,
+            timeToLimit: "12m",
+        });
+        expect(report.quotas[1].percentUsed).toBeNull();
+        expect(report.quotas[1].resetAt).toBeNull();
+        expect(report.quotas[1].timeToLimitMs).toBeNull();
+    });
+
+    test("execute returns processed quotas from the cache as JSON", async () => {
+        const provider: IQuotaProvider = {
+            id: "test",
+            fetchQuota: async () => [
+                { id: "q1", providerName: "Test", used: 25, limit: 100, unit: "%" },
+            ],
+        };
+        const cache = new QuotaCache([provider]);
+        const quotaService = new QuotaService({ aggregatedGroups: [] });
+
+        const checkQuotas = createCheckQuotasTool({
+            quotaService,
+            getCache: async () => cache,
+        });
+
+        // Cache has never been refreshed, so the tool fetches on demand
+        const output = JSON.parse(await checkQuotas.execute({}, toolContext));
+        expect(output.fetchedAt).not.toBeNull();
+        expect(output.quotas).toHaveLength(1);
+        expect(output.quotas[0].id).toBe("q1");
+        expect(output.quotas[0].percentUsed).toBe(25);
+    });
+
+    test("execute reports unavailable data when the cache is missing", async () => {
+        const checkQuotas = createCheckQuotasTool({
+            quotaService: new QuotaService(),
+            getCache: async () => undefined,
+        });
+
+        const output = JSON.parse(await checkQuotas.execute({}, toolContext));
+        expect(output.error).toBeDefined();
+    });
+});
@@ -28,6 +28,34 @@ describe("Codex Quota Parsing", () => {
     expect(result[1].used).toBe(10);
   });
 
+  test("exposes structured reset and window fields", () => {
+    const now = 1_700_000_000_000;
+    const payload = {
+      rate_limit: {
+        primary_window: {
+          used_percent: 20,
+          limit_window_seconds: 18000,
+          reset_after_seconds: 1200,
+        },
+        secondary_window: {
+          used_percent: 5,
+          limit_window_seconds: 604800,
+          reset_at: 1736611200,
+        },
+      },
+    };
+
+    const result = extractCodexQuota(payload, now);
+
+    expect(result[0].resetAt).toBe(now + 1200 * 1000);
+    expect(result[0].windowMs).toBe(18000 * 1000);
+    expect(result[0].window).toBe("5h window");
+    expect(result[0].reset).toBeUndefined();
+
+    expect(result[1].resetAt).toBe(1736611200 * 1000);
+    expect(result[1].windowMs).toBe(604800 * 1000);
+  });
+
   test("parses credit balances", () => {
     const payload = {
       credits: {
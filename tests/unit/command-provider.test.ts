@@ -0,0 +1,95 @@
+import { expect, test, describe } from "bun:test";
+import { createCommandProvider, parseCommandOutput } from "../../src/providers/command";
+import { QuotaCache } from "../../src/quota-cache";
+import { type CommandProviderConfig } from "../../src/interfaces";
+
+// Run scripts with the current runtime so tests don't depend on a shell
+const script = (source: string, overrides: Partial<CommandProviderConfig> = {}): CommandProviderConfig => ({
+    type: "command",
+    id: "billing",
+    name: "Billing",
+    command: process.execPath,
+    args: ["-e", source],
+    ...overrides,
+});
+
+describe("Command Provider", () => {
+    test("parses JSON output in the QuotaData shape", async () => {
+        const provider = createCommandProvider(script(
+            `console.log(JSON.stringify([{ id: "billing-eu", providerName: "Billing EU", used: 30, limit: 100, unit: "USD" }]))`,
+        ));
+
+        const quotas = await provider.fetchQuota();
+
+        expect(provider.id).toBe("billing");
+        expect(quotas).toEqual([
+            { id: "billing-eu", providerName: "Billing EU", used: 30, limit: 100, unit: "USD" },
+        ]);
+    });
+
+    test("parses key=value blocks and fills in default IDs and names", () => {
+        const output = [
+            "# monthly budget",
+            "used=12.5",
+            "limit=50",
+            "unit=USD",
+            "resetAt=1736611200",
+            "",
+            "name=Seats",
+            "used=3",
+            "limit=10",
+        ].join("\n");
+
+        const quotas = parseCommandOutput(script(""), output);
+
+        expect(quotas).toEqual([
+            { id: "billing-0", providerName: "Billing 0", used: 12.5, limit: 50, unit: "USD", resetAt: 1736611200 * 1000 },
+            { id: "billing-1", providerName: "Seats", used: 3, limit: 10 },
+        ]);
+    });
+
+    test("uses the provider ID and name for a single unnamed quota", () => {
+        expect(parseCommandOutput(script(""), "used=1\nlimit=2")).toEqual([
+            { id: "billing", providerName: "Billing", used: 1, limit: 2 },
+        ]);
+    });
+
+    test("passes interpolated environment variables to the command", async () => {
+        process.env.OPENCODE_QUOTAS_TEST_USED = "42";
+        try {
+            const provider = createCommandProvider(script(
+                `console.log("used=" + process.env.BILLING_USED)`,
+                { env: { BILLING_USED: "{env:OPENCODE_QUOTAS_TEST_USED}" } },
+            ));
+            const quotas = await provider.fetchQuota();
+            expect(quotas[0].used).toBe(42);
+        } finally {
+            delete process.env.OPENCODE_QUOTAS_TEST_USED;
+        }
+    });
+
+    test("rejects on non-zero exit, timeout and empty output", async () => {
+        await expect(createCommandProvider(script(`process.exit(3)`)).fetchQuota())
+            .rejects.toThrow("billing command failed (3)");
+        await expect(createCommandProvider(script(`setTimeout(() => {}, 10000)`, { timeoutMs: 200 })).fetchQuota())
+            .rejects.toThrow("timed out after 200ms");
+        await expect(createCommandProvider(script(`void 0`)).fetchQuota())
+            .rejects.toThrow("produced no quota data");
+        expect(() => parseCommandOutput(script(""), "[not json")).toThrow("not valid JSON");
+    });
+
+    test("failing command does not affect other providers in the cache", async () => {
+        const failing = createCommandProvider(script(`process.exit(1)`, { id: "broken" }));
+        const healthy = {
+            id: "healthy",
+            fetchQuota: async () => [{ id: "ok", providerName: "OK", used: 1, limit: 10, unit: "" }],
+        };
+        const cache = new QuotaCache([failing, healthy], { refreshIntervalMs: 60_000 });
+
+        await cache.refresh();
+
+        const snapshot = cache.getSnapshot();
+        expect(snapshot.data.map(q => q.id)).toEqual(["ok"]);
+        expect(snapshot.lastError).toBeNull();
+    });
+});
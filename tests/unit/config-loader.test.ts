@@ -115,6 +115,142 @@ describe("ConfigLoader", () => {
             expect(result.pollingInterval).toBe(30000);
         });
 
+        test("validates per-provider refresh intervals", async () => {
+            const opencodeDir = join(tempDir, ".opencode");
+            await fs.mkdir(opencodeDir, { recursive: true });
+            await fs.writeFile(
+                join(opencodeDir, "quotas.json"),
+                JSON.stringify({
+                    refreshIntervals: { codex: 300000, antigravity: -5, fast: 10 },
+                    providers: [
+                        { type: "command", id: "slow-cli", command: "usage", refreshIntervalMs: 900000 },
+                        { type: "command", id: "bad-interval", command: "usage", refreshIntervalMs: "soon" },
+                    ],
+                })
+            );
+
+            const result = await ConfigLoader.loadFromDisk(tempDir, ConfigLoader.createConfig());
+
+            expect(result.refreshIntervals).toEqual({ codex: 300000, fast: 1000 });
+            expect(result.providers?.map(p => p.id)).toEqual(["slow-cli"]);
+        });
+
+        test("merges staleAfterMinutes and resets invalid values to default", async () => {
+            const opencodeDir = join(tempDir, ".opencode");
+            await fs.mkdir(opencodeDir, { recursive: true });
+            const configPath = join(opencodeDir, "quotas.json");
+
+            await fs.writeFile(configPath, JSON.stringify({ staleAfterMinutes: 30 }));
+            let result = await ConfigLoader.loadFromDisk(tempDir, ConfigLoader.createConfig());
+            expect(result.staleAfterMinutes).toBe(30);
+
+            await fs.writeFile(configPath, JSON.stringify({ staleAfterMinutes: 0 }));
+            result = await ConfigLoader.loadFromDisk(tempDir, ConfigLoader.createConfig());
+            expect(result.staleAfterMinutes).toBe(DEFAULT_CONFIG.staleAfterMinutes);
+        });
+
+        test("merges trend column settings and resets invalid values to default", async () => {
+            const opencodeDir = join(tempDir, ".opencode");
+            await fs.mkdir(opencodeDir, { recursive: true });
+            const configPath = join(opencodeDir, "quotas.json");
+
+            await fs.writeFile(configPath, JSON.stringify({ table: { trendWindowMinutes: 180, trendWidth: 24 } }));
+            let result = await ConfigLoader.loadFromDisk(tempDir, ConfigLoader.createConfig());
+            expect(result.table?.trendWindowMinutes).toBe(180);
+            expect(result.table?.trendWidth).toBe(24);
+            expect(result.table?.header).toBe(true);
+
+            await fs.writeFile(configPath, JSON.stringify({ table: { trendWindowMinutes: -5, trendWidth: 2.5 } }));
+            result = await ConfigLoader.loadFromDisk(tempDir, ConfigLoader.createConfig());
+            expect(result.table?.trendWindowMinutes).toBe(DEFAULT_CONFIG.table?.trendWindowMinutes);
+            expect(result.table?.trendWidth).toBe(DEFAULT_CONFIG.table?.trendWidth);
+        });
+
+        test("merges predictionEngine and drops invalid values", async () => {
+            const opencodeDir = join(tempDir, ".opencode");
+            await fs.mkdir(opencodeDir, { recursive: true });
+            const configPath = join(opencodeDir, "quotas.json");
+
+            await fs.writeFile(configPath, JSON.stringify({
+                predictionEngine: "holt",
+                aggregatedGroups: [{ id: "g", name: "G", sources: ["a"], predictionEngine: "ewma" }]
+            }));
+            let result = await ConfigLoader.loadFromDisk(tempDir, ConfigLoader.createConfig());
+            expect(result.predictionEngine).toBe("holt");
+            expect(result.aggregatedGroups?.[0].predictionEngine).toBe("ewma");
+
+            await fs.writeFile(configPath, JSON.stringify({
+                predictionEngine: "arima",
+                aggregatedGroups: [{ id: "g", name: "G", sources: ["a"], predictionEngine: "arima" }]
+            }));
+            result = await ConfigLoader.loadFromDisk(tempDir, ConfigLoader.createConfig());
+            expect(result.predictionEngine).toBe(DEFAULT_CONFIG.predictionEngine);
+            expect(result.aggregatedGroups?.[0].predictionEngine).toBeUndefined();
+        });
+
+        test("merges historyTiers and resets invalid values to default", async () => {
+            const opencodeDir = join(tempDir, ".opencode");
+            await fs.mkdir(opencodeDir, { recursive: true });
+            const configPath = join(opencodeDir, "quotas.json");
+
+            await fs.writeFile(configPath, JSON.stringify({ historyTiers: [{ resolutionMinutes: 15, maxAgeDays: 30 }] }));
+            let result = await ConfigLoader.loadFromDisk(tempDir, ConfigLoader.createConfig());
+            expect(result.historyTiers).toEqual([{ resolutionMinutes: 15, maxAgeDays: 30 }]);
+
+            await fs.writeFile(configPath, JSON.stringify({ historyTiers: [{ resolutionMinutes: 0, maxAgeDays: 30 }] }));
+            result = await ConfigLoader.loadFromDisk(tempDir, ConfigLoader.createConfig());
+            expect(result.historyTiers).toEqual(DEFAULT_CONFIG.historyTiers);
+        });
+
+        test("merges displayMode and resets invalid values to default", async () => {
+            const opencodeDir = join(tempDir, ".opencode");
+            await fs.mkdir(opencodeDir, { recursive: true });
+            const configPath = join(opencodeDir, "quotas.json");
+
+            await fs.writeFile(configPath, JSON.stringify({ displayMode: "detailed" }));
+            let result = await ConfigLoader.loadFromDisk(tempDir, ConfigLoader.createConfig());
+            expect(result.displayMode).toBe("detailed");
+
+            await fs.writeFile(configPath, JSON.stringify({ displayMode: "verbose" }));
+            result = await ConfigLoader.loadFromDisk(tempDir, ConfigLoader.createConfig());
+            expect(result.displayMode).toBe(DEFAULT_CONFIG.displayMode);
+        });
+
+        test("keeps valid provider definitions and drops invalid ones", async () => {
+            const opencodeDir = join(tempDir, ".opencode");
+            await fs.mkdir(opencodeDir, { recursive: true });
+            await fs.writeFile(
+                join(opencodeDir, "quotas.json"),
+                JSON.stringify({
+                    providers: [
+                        { type: "http", id: "gateway", url: "https://example.com/usage", fields: { used: "$.spend" } },
+                        { type: "http", id: "no-url", fields: { used: "$.spend" } },
+                        { type: "ftp", id: "unknown" },
+                    ],
+                })
+            );
+
+            const result = await ConfigLoader.loadFromDisk(tempDir, ConfigLoader.createConfig());
+
+            expect(result.providers?.map(p => p.id)).toEqual(["gateway"]);
+        });
+
+        test("expands module provider shorthands relative to the config file", async () => {
+            const opencodeDir = join(tempDir, ".opencode");
+            await fs.mkdir(opencodeDir, { recursive: true });
+            await fs.writeFile(
+                join(opencodeDir, "quotas.json"),
+                JSON.stringify({ providers: ["some-package", { module: "./local.js", team: "a" }] })
+            );
+
+            const result = await ConfigLoader.loadFromDisk(tempDir, ConfigLoader.createConfig());
+
+            expect(result.providers).toEqual([
+                { type: "module", module: "some-package" },
+                { type: "module", module: join(opencodeDir, "local.js"), team: "a" },
+            ]);
+        });
+
         test("resets invalid pollingInterval to default", async () => {
             const opencodeDir = join(tempDir, ".opencode");
             await fs.mkdir(opencodeDir, { recursive: true });
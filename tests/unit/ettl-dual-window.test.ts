@@ -10,12 +10,15 @@ describe("ETTL Dual-Window & Aggregation Precedence", () => {
         historyData = {};
         mockHistoryService = {
             init: async () => {},
+            reload: async () => {},
             append: async () => {},
             getHistory: (id: string, windowMs: number) => {
                 const now = Date.now();
                 return (historyData[id] || []).filter(p => p.timestamp > now - windowMs);
             },
+            getResetEvents: () => [],
             setMaxAge: () => {},
+            setTiers: () => {},
             setResetThreshold: () => {},
             pruneAll: async () => {}
         };
@@ -71,6 +74,113 @@ describe("ETTL Dual-Window & Aggregation Precedence", () => {
         expect(mins).toBeLessThanOrEqual(4);
     });
 
+    /**
+     * The spike fixture above: 10 units/min for 55 minutes, then 50 units/min for 5 minutes.
+     */
+    function seedSpike(quotaId: string): void {
+        const now = Date.now();
+        const history: HistoryPoint[] = [];
+        for (let i = 60; i > 5; i--) {
+            history.push({ timestamp: now - i * 60 * 1000, used: (60 - i) * 10, limit: 1000 });
+        }
+        for (let i = 5; i >= 0; i--) {
+            history.push({ timestamp: now - i * 60 * 1000, used: 550 + (5 - i) * 50, limit: 1000 });
+        }
+        historyData[quotaId] = history;
+    }
+
+    function predictedMinutes(quota: QuotaData): number {
+        const match = quota.predictedReset?.match(/(\d+)m/);
+        expect(match).not.toBeNull();
+        return parseInt(match![1]);
+    }
+
+    for (const engine of ["ewma", "holt"] as const) {
+        test(`Smoothing (${engine}): a short spike raises the rate without the full short-window slope`, async () => {
+            seedSpike("q1");
+
+            const service = new QuotaService({ showUnaggregated: true, predictionEngine: engine });
+            await service.init("/tmp", mockHistoryService);
+
+            const processed = service.processQuotas([
+                { id: "q1", providerName: "P1", used: 800, limit: 1000, unit: "u" }
+            ], {});
+
+            // Linear regression predicts 3-4m from the spike slope; 10 units/min alone would take 20m
+            const mins = predictedMinutes(processed[0]);
+            expect(mins).toBeGreaterThan(4);
+            expect(mins).toBeLessThan(20);
+        });
+    }
+
+    test("Aggregation: a group's predictionEngine overrides the global engine", async () => {
+        seedSpike("q1");
+
+        const service = new QuotaService({
+            showUnaggregated: true,
+            aggregatedGroups: [{
+                id: "smooth",
+                name: "Smooth Group",
+                sources: ["q1"],
+                strategy: "most_critical",
+                predictionEngine: "holt"
+            }]
+        });
+        await service.init("/tmp", mockHistoryService);
+
+        const processed = service.processQuotas([
+            { id: "q1", providerName: "P1", used: 800, limit: 1000, unit: "u" }
+        ], {});
+
+        const group = processed.find(q => q.id === "smooth")!;
+        expect(predictedMinutes(group)).toBeGreaterThan(4);
+        expect(predictedMinutes(group.sources![0])).toBeGreaterThan(4);
+    });
+
+    test("Aggregation: a group's predictionEngine replaces the global engine's ETTL and burn rate", async () => {
+        const now = Date.now();
+        // Climbs for 30 minutes, then falls slowly: the regression still slopes up, Holt's trend turns down
+        const history: HistoryPoint[] = [];
+        for (let i = 60; i > 30; i--) {
+            history.push({ timestamp: now - i * 60 * 1000, used: (60 - i) * 10, limit: 1000 });
+        }
+        for (let i = 30; i >= 0; i--) {
+            history.push({ timestamp: now - i * 60 * 1000, used: 300 - (30 - i), limit: 1000 });
+        }
+        historyData["q1"] = history;
+
+        const service = new QuotaService({
+            showUnaggregated: true,
+            aggregatedGroups: [{
+                id: "smooth",
+                name: "Smooth Group",
+                sources: ["q1"],
+                strategy: "most_critical",
+                predictionEngine: "holt"
+            }]
+        });
+        await service.init("/tmp", mockHistoryService);
+
+        const linear = new QuotaService({ showUnaggregated: true });
+        await linear.init("/tmp", mockHistoryService);
+        const [global] = linear.processQuotas([
+            { id: "q1", providerName: "P1", used: 270, limit: 1000, unit: "u" }
+        ], {});
+        expect(global.timeToLimitMs).toBeDefined();
+        expect(global.burnRate!.perHour).toBeGreaterThan(0);
+
+        const processed = service.processQuotas([
+            { id: "q1", providerName: "P1", used: 270, limit: 1000, unit: "u" }
+        ], {});
+
+        const group = processed.find(q => q.id === "smooth")!;
+        expect(group.predictedReset).toBeUndefined();
+        expect(group.timeToLimitMs).toBeUndefined();
+        expect(group.prediction).toBeUndefined();
+        expect(group.burnRate!.perHour).toBeLessThan(0);
+        expect(group.sources![0].timeToLimitMs).toBeUndefined();
+    });
+
     test("Idle Handling: returns Infinity if last point is too old", async () => {
         const now = Date.now();
         // Rapid usage but stopped 6 minutes ago
@@ -125,6 +235,43 @@ describe("ETTL Dual-Window & Aggregation Precedence", () => {
         expect(processed[0].predictedReset).toMatch(/[45]m/);
     });
 
+    test("Reset-Aware: a quota that resets before its limit loses precedence", async () => {
+        const now = Date.now();
+        // q1: burning fast (4 min to limit) but resets in 2 min
+        historyData["q1"] = [
+            { timestamp: now - 5 * 60 * 1000, used: 0, limit: 100 },
+            { timestamp: now, used: 50, limit: 100 },
+        ];
+        // q2: 50 min to limit, resets in 2 hours
+        historyData["q2"] = [
+            { timestamp: now - 10 * 60 * 1000, used: 40, limit: 100 },
+            { timestamp: now, used: 50, limit: 100 },
+        ];
+
+        const service = new QuotaService({
+            aggregatedGroups: [{
+                id: "smart",
+                name: "Smart Group",
+                sources: ["q1", "q2"],
+                strategy: "most_critical"
+            }]
+        });
+        await service.init("/tmp", mockHistoryService);
+
+        const currentData: QuotaData[] = [
+            { id: "q1", providerName: "P1", used: 50, limit: 100, unit: "u", resetAt: now + 2 * 60 * 1000 },
+            { id: "q2", providerName: "P1", used: 50, limit: 100, unit: "u", resetAt: now + 2 * 60 * 60 * 1000 },
+        ];
+
+        const processed = service.processQuotas(currentData);
+        expect(processed).toHaveLength(1);
+        expect(processed[0].sources![0].prediction?.resetsFirst).toBe(true);
+        expect(processed[0].sources![0].timeToLimitMs).toBeUndefined();
+        expect(processed[0].predictedReset).toMatch(/49m|50m/);
+        expect(processed[0].prediction!.blockedMs).toBeGreaterThan(69 * 60 * 1000);
+        expect(processed[0].prediction!.blockedMs).toBeLessThan(71 * 60 * 1000);
+    });
+
     test("Aggregation Precedence: All Infinity -> Highest Utilization", async () => {
         const now = Date.now();
         // q1: 10% used, idle
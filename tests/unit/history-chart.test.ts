@@ -0,0 +1,57 @@
+import { expect, test, describe } from "bun:test";
+import { renderHistoryChart, trendCrossing } from "../../src/ui/history-chart";
+import { type HistoryPoint } from "../../src/interfaces";
+
+describe("renderHistoryChart", () => {
+    const now = Date.UTC(2026, 0, 1, 12);
+    const hour = 60 * 60 * 1000;
+    const points: HistoryPoint[] = [
+        { timestamp: now - hour, used: 0, limit: 100 },
+        { timestamp: now - hour / 2, used: 25, limit: 100 },
+        { timestamp: now, used: 50, limit: 100 },
+    ];
+
+    test("plots usage against the limit with axis labels", () => {
+        const lines = renderHistoryChart(points, { from: now - hour, to: now, now, limit: 100, width: 11, height: 5, ascii: true });
+
+        expect(lines).toEqual([
+            "100 +-----------",
+            "    |           ",
+            " 50 +          *",
+            "    |     *     ",
+            "  0 +*          ",
+            "    +-----------",
+            "     -1h      now",
+        ]);
+    });
+
+    test("extends the trend to its limit crossing and marks now", () => {
+        const trend = { slope: 50 / hour, anchor: { timestamp: now, used: 50 }, from: now - hour };
+        expect(trendCrossing(trend, 100)).toBe(now + hour);
+
+        const lines = renderHistoryChart(points, { from: now - hour, to: now + hour, now, limit: 100, trend, width: 21, height: 5 });
+
+        expect(lines).toEqual([
+            "100 ┤──────────────────··✕",
+            "    │          ┊  ·····   ",
+            " 50 ┤        ··●··        ",
+            "    │   ··●··  ┊          ",
+            "  0 ┤●··       ┊          ",
+            "    └─────────────────────",
+            "     -1h      now       +1h",
+        ]);
+    });
+
+    test("never crosses for flat or unlimited usage", () => {
+        const flat = { slope: 0, anchor: { timestamp: now, used: 50 }, from: now - hour };
+        expect(trendCrossing(flat, 100)).toBeNull();
+        expect(trendCrossing({ ...flat, slope: 1 }, null)).toBeNull();
+    });
+
+    test("scales unlimited quotas to the highest usage", () => {
+        const unlimited = points.map(p => ({ ...p, used: p.used * 100, limit: null }));
+        const lines = renderHistoryChart(unlimited, { from: now - hour, to: now, now, limit: null, width: 11, height: 5, ascii: true });
+        expect(lines[0]).toStartWith("5.5k +");
+        expect(lines.some(line => line.includes("-----------") && !line.includes("+-"))).toBe(false);
+    });
+});
@@ -0,0 +1,191 @@
+import { expect, test, describe, spyOn, mock, beforeEach, afterEach } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { runHistoryCommand } from "../../src/commands/history";
+import { HistoryService } from "../../src/services/history-service";
+import { PollerLock } from "../../src/poller-lock";
+import { logger } from "../../src/logger";
+
+describe("history command", () => {
+    let dir: string;
+    let stdout: string;
+    let errors: string[];
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), "history-command-"));
+        stdout = "";
+        errors = [];
+        spyOn(process.stdout, "write").mockImplementation(((chunk: string) => {
+            stdout += chunk;
+            return true;
+        }) as any);
+        spyOn(console, "error").mockImplementation((msg: string) => { errors.push(msg); });
+        spyOn(console, "log").mockImplementation(() => undefined);
+        spyOn(logger, "debug").mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        mock.restore();
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    const createService = async (name: string) => {
+        const service = new HistoryService(join(dir, `${name}.ndjson`));
+        await service.init();
+        return service;
+    };
+
+    test("exports filtered history and imports it into another store", async () => {
+        const source = await createService("source");
+        await source.append([
+            { id: "codex-primary", providerName: "Codex", used: 10, limit: 100, unit: "%" },
+            { id: "codex-secondary", providerName: "Codex", used: 40, limit: 100, unit: "%" },
+        ]);
+
+        expect(await runHistoryCommand(["export", "--format", "ndjson", "--since", "1h", "--quota", "codex-primary"], { historyService: source })).toBe(0);
+        const exported = stdout.trim().split("\n").map(line => JSON.parse(line));
+        expect(exported).toEqual([expect.objectContaining({ quotaId: "codex-primary", used: 10 })]);
+
+        const file = join(dir, "export.ndjson");
+        writeFileSync(file, stdout);
+        const target = await createService("target");
+        const lock = new PollerLock(join(dir, "quota-poller.lock"));
+
+        expect(await runHistoryCommand(["import", file], { historyService: target, lock })).toBe(0);
+        expect(target.getHistory("codex-primary", 60_000).map(p => p.used)).toEqual([10]);
+        expect(lock.isHeld()).toBe(false);
+    });
+
+    test("refuses to import while another process holds the poller lock", async () => {
+        const lockPath = join(dir, "quota-poller.lock");
+        const poller = new PollerLock(lockPath);
+        expect(await poller.acquire()).toBe(true);
+
+        const file = join(dir, "export.csv");
+        writeFileSync(file, "quota_id,timestamp,used\ncodex-primary,1,5\n");
+        const target = await createService("target");
+
+        expect(await runHistoryCommand(["import", file], { historyService: target, lock: new PollerLock(lockPath) })).toBe(1);
+        expect(errors[0]).toContain("Close it before importing");
+        await poller.release();
+    });
+
+    test("charts each quota with its trend and ETTL", async () => {
+        const service = await createService("source");
+        const now = Date.now();
+        spyOn(Date, "now").mockReturnValue(now);
+        const log: string[] = [];
+        spyOn(console, "log").mockImplementation((line: string) => { log.push(line); });
+
+        await service.importPoints([0, 1, 2, 3, 4].map(i => ({
+            quotaId: "codex-primary",
+            timestamp: now - (4 - i) * 10 * 60 * 1000,
+            used: 20 + i * 10,
+            limit: 100,
+        })));
+
+        expect(await runHistoryCommand(["chart", "--quota", "codex-primary", "--quota", "unknown", "--since", "1h", "--ascii"], { historyService: service })).toBe(0);
+
+        expect(log[0]).toBe("codex-primary: 60/100 (60%), trend +60/h, ETTL 40m");
+        expect(log.some(line => line.startsWith("100 +---"))).toBe(true);
+        expect(log.some(line => line.includes("X trend reaches the limit in 40m"))).toBe(true);
+        expect(log).toContain("unknown: no usage history recorded in this period.");
+
+        // With the poller's snapshot, the ETTL knows the quota resets in 20 minutes
+        log.length = 0;
+        const snapshotPath = join(dir, "quota-snapshot.json");
+        writeFileSync(snapshotPath, JSON.stringify({
+            version: 1,
+            savedAt: now,
+            providers: {
+                codex: {
+                    lastSuccessAt: now,
+                    data: [{ id: "codex-primary", providerName: "Codex", used: 60, limit: 100, unit: "%", resetAt: now + 20 * 60 * 1000 }],
+                },
+            },
+        }));
+        expect(await runHistoryCommand(["chart", "--quota", "codex-primary", "--since", "1h"], { historyService: service, snapshotPath })).toBe(0);
+        expect(log[0]).toBe("codex-primary: 60/100 (60%), trend +60/h, ETTL none");
+    });
+
+    test("backtests every engine and window over an exported file", async () => {
+        const service = await createService("source");
+        const log: string[] = [];
+        spyOn(console, "log").mockImplementation((line: string) => { log.push(line); });
+        const file = join(dir, "export.ndjson");
+        const start = Date.now() - 2 * 60 * 60 * 1000;
+        writeFileSync(file, [10, 20, 30, 40, 50, 60, 70, 80, 90, 100]
+            .map((used, i) => JSON.stringify({ quotaId: "codex-primary", timestamp: start + i * 10 * 60 * 1000, used, limit: 100 }) + "\n")
+            .join(""));
+
+        expect(await runHistoryCommand(["backtest", file, "--window", "30", "--window", "60"], { historyService: service })).toBe(0);
+
+        expect(log[0]).toBe("codex-primary (window unknown): 10 points, 1 window(s), limit reached in 1");
+        expect(log[1]).toMatch(/^ENGINE\s+WINDOW\s+SHORT\s+SCORED\s+HITS\s+MAE\s+BIAS\s+REL ERR\s+MISSED\s+FALSE ALARMS$/);
+        const rows = log.slice(2, 8);
+        expect(rows.map(row => row.split(/\s+/).slice(0, 2).join(" "))).toEqual([
+            "linear 30m", "linear 60m", "ewma 30m", "ewma 60m", "holt 30m", "holt 60m",
+        ]);
+        expect(rows[1]).toMatch(/^linear\s+60m\s+5m\s+8\s+8\s+<1m\s+<1m\s+0%\s+0\s+0$/);
+    });
+
+    test("backtests the recorded windows before and after a reset", async () => {
+        const service = await createService("source");
+        const log: string[] = [];
+        spyOn(console, "log").mockImplementation((line: string) => { log.push(line); });
+        const start = Date.now() - 3 * 60 * 60 * 1000;
+        const clock = spyOn(Date, "now");
+        for (const [i, used] of [10, 20, 30, 40, 50, 60, 70, 80, 90, 100, 5, 15].entries()) {
+            clock.mockReturnValue(start + i * 10 * 60 * 1000);
+            await service.append([{ id: "codex-primary", providerName: "Codex", used, limit: 100, unit: "%" }]);
+        }
+        clock.mockRestore();
+
+        expect(await runHistoryCommand(["backtest", "--engine", "linear"], { historyService: service })).toBe(0);
+
+        expect(log[0]).toBe("codex-primary (window unknown): 12 points, 2 window(s), limit reached in 1");
+    });
+
+    test("explains a backtest with nothing to score", async () => {
+        const service = await createService("source");
+        const log: string[] = [];
+        spyOn(console, "log").mockImplementation((line: string) => { log.push(line); });
+        const file = join(dir, "export.ndjson");
+        const start = Date.now() - 2 * 60 * 60 * 1000;
+        writeFileSync(file, [0, 1, 2, 3, 4, 5]
+            .map(i => JSON.stringify({ quotaId: "codex-primary", timestamp: start + i * 10 * 60 * 1000, used: 10, limit: 100 }) + "\n")
+            .join(""));
+        const snapshotPath = join(dir, "quota-snapshot.json");
+        writeFileSync(snapshotPath, JSON.stringify({
+            version: 1,
+            savedAt: Date.now(),
+            providers: {
+                codex: {
+                    lastSuccessAt: Date.now(),
+                    data: [{ id: "codex-primary", providerName: "Codex", used: 10, limit: 100, unit: "%", windowMs: 5 * 60 * 60 * 1000 }],
+                },
+            },
+        }));
+
+        expect(await runHistoryCommand(["backtest", file, "--engine", "linear"], { historyService: service, snapshotPath })).toBe(0);
+
+        expect(log[0]).toBe("codex-primary (5h window): 6 points, 1 window(s), limit reached in 0");
+        expect(log[1]).toStartWith("ENGINE");
+        expect(log[2]).toMatch(/^linear\s+60m\s+5m\s+0\s+0\s/);
+        expect(log[3]).toStartWith("Nothing scored:");
+    });
+
+    test("rejects invalid options", async () => {
+        const service = await createService("source");
+
+        expect(await runHistoryCommand(["export", "--format", "xml"], { historyService: service })).toBe(1);
+        expect(await runHistoryCommand(["export", "--since", "soon"], { historyService: service })).toBe(1);
+        expect(await runHistoryCommand(["chart", "--width", "0"], { historyService: service })).toBe(1);
+        expect(await runHistoryCommand(["backtest", "--engine", "arima"], { historyService: service })).toBe(1);
+        expect(await runHistoryCommand(["backtest", "--window", "0"], { historyService: service })).toBe(1);
+        expect(await runHistoryCommand(["import", join(dir, "data.txt")], { historyService: service })).toBe(1);
+        expect(await runHistoryCommand([], { historyService: service })).toBe(1);
+        expect(errors.some(e => e.startsWith("Usage:"))).toBe(true);
+    });
+});
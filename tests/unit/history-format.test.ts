@@ -0,0 +1,42 @@
+import { expect, test, describe } from "bun:test";
+import { formatHistory, historyFormatFromPath, parseHistory } from "../../src/utils/history-format";
+import { type QuotaHistoryPoint } from "../../src/interfaces";
+
+describe("history format", () => {
+    const points: QuotaHistoryPoint[] = [
+        { quotaId: "codex-primary", timestamp: Date.UTC(2026, 0, 1), used: 12.5, limit: 100 },
+        { quotaId: "credits, team", timestamp: Date.UTC(2026, 0, 2), used: 300, limit: null },
+    ];
+
+    test.each(["csv", "json", "ndjson"] as const)("round-trips %s", (format) => {
+        expect(parseHistory(formatHistory(points, format), format)).toEqual(points);
+    });
+
+    test("writes CSV with a header, ISO time, quoted IDs and empty unlimited limits", () => {
+        const lines = formatHistory(points, "csv").trim().split("\n");
+        expect(lines[0]).toBe("quota_id,timestamp,time,used,limit");
+        expect(lines[1]).toBe(`codex-primary,${Date.UTC(2026, 0, 1)},2026-01-01T00:00:00.000Z,12.5,100`);
+        expect(lines[2]).toBe(`"credits, team",${Date.UTC(2026, 0, 2)},2026-01-02T00:00:00.000Z,300,`);
+    });
+
+    test("reads CSV rows that only carry an ISO time", () => {
+        const csv = "quota_id,time,used\ncodex-primary,2026-01-01T00:00:00Z,5\n";
+        expect(parseHistory(csv, "csv")).toEqual([
+            { quotaId: "codex-primary", timestamp: Date.UTC(2026, 0, 1), used: 5, limit: null },
+        ]);
+    });
+
+    test("reports the offending record", () => {
+        expect(() => parseHistory("quota_id,timestamp,used\ncodex,abc,5\n", "csv")).toThrow("line 2");
+        expect(() => parseHistory('{"quotaId":"a","timestamp":1,"used":1}\n{"quotaId":"a"}\n', "ndjson")).toThrow("line 2");
+        expect(() => parseHistory('{"quotaId":"a"}', "json")).toThrow("JSON array");
+        expect(() => parseHistory("id,used\n", "csv")).toThrow("CSV header");
+    });
+
+    test("infers the format from the file extension", () => {
+        expect(historyFormatFromPath("usage.CSV")).toBe("csv");
+        expect(historyFormatFromPath("/tmp/usage.json")).toBe("json");
+        expect(historyFormatFromPath("usage.jsonl")).toBe("ndjson");
+        expect(historyFormatFromPath("usage.txt")).toBeNull();
+    });
+});
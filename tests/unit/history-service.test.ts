@@ -1,33 +1,46 @@
-import { expect, test, describe, spyOn, beforeEach, afterEach } from "bun:test";
+import { expect, test, describe, spyOn, mock, beforeEach, afterEach } from "bun:test";
 import { HistoryService } from "../../src/services/history-service";
 import { logger } from "../../src/logger";
-import * as fsPromises from "node:fs/promises";
-import * as fs from "node:fs";
-import { type QuotaData } from "../../src/interfaces";
+import { appendFileSync, existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { type HistoryPoint, type QuotaData } from "../../src/interfaces";
 
 describe("HistoryService", () => {
-    let writeFileSpy: any;
-    let readFileSpy: any;
-    let existsSyncSpy: any;
-    let mkdirSyncSpy: any;
+    let dir: string;
+    let historyPath: string;
+    let legacyPath: string;
 
     beforeEach(() => {
-        writeFileSpy = spyOn(fsPromises, "writeFile").mockImplementation(() => Promise.resolve());
-        readFileSpy = spyOn(fsPromises, "readFile").mockImplementation(() => Promise.resolve("{}"));
-        existsSyncSpy = spyOn(fs, "existsSync").mockImplementation(() => true);
-        mkdirSyncSpy = spyOn(fs, "mkdirSync").mockImplementation(() => undefined);
+        dir = mkdtempSync(join(tmpdir(), "quota-history-"));
+        historyPath = join(dir, "quota-history.ndjson");
+        legacyPath = join(dir, "quota-history.json");
         spyOn(logger, "info").mockImplementation(() => undefined);
+        spyOn(logger, "warn").mockImplementation(() => undefined);
         spyOn(logger, "error").mockImplementation(() => undefined);
         spyOn(logger, "debug").mockImplementation(() => undefined);
     });
 
     afterEach(() => {
-        writeFileSpy.mockRestore();
-        readFileSpy.mockRestore();
-        existsSyncSpy.mockRestore();
-        mkdirSyncSpy.mockRestore();
+        mock.restore();
+        rmSync(dir, { recursive: true, force: true });
     });
 
+    const seedLog = (data: Record<string, HistoryPoint[]>) => {
+        const lines = [JSON.stringify({ version: 2 })];
+        for (const [id, points] of Object.entries(data)) {
+            for (const point of points) lines.push(JSON.stringify({ id, ...point }));
+        }
+        writeFileSync(historyPath, lines.join("\n") + "\n");
+    };
+
+    const readLog = () => readFileSync(historyPath, "utf-8").trim().split("\n").map(line => JSON.parse(line));
+
+    // Header and raw points, without downsampled tier points
+    const readRawLog = () => readLog().filter((r: any) => r.res === undefined);
+
+    const createService = () => new HistoryService(historyPath, legacyPath);
+
     const mockQuota: QuotaData = {
         id: "test-quota",
         providerName: "Test",
@@ -36,70 +49,90 @@ describe("HistoryService", () => {
         unit: "u"
     };
 
-    test("migrates legacy format and saves versioned payload on init", async () => {
+    test("reload picks up history written by another process and survives torn reads", async () => {
         const now = Date.now();
-        const mockHistory = {
-            "test-quota": [
-                { timestamp: now, used: 10, limit: 100 }
-            ]
-        };
-        readFileSpy.mockResolvedValue(JSON.stringify(mockHistory));
-
-        const service = new HistoryService("/tmp/history.json");
+        const service = createService();
         await service.init();
+        expect(service.getHistory("test-quota", 60_000)).toHaveLength(0);
 
-        expect((logger.info as any).mock.calls.some((c: any) => c[0] === "history-service:migrated" && c[1] && c[1].to === 1)).toBe(true);
+        seedLog({ "test-quota": [{ timestamp: now, used: 10, limit: 100 }] });
+        await service.reload();
+        expect(service.getHistory("test-quota", 60_000)).toHaveLength(1);
 
-        // flushSave is called during init for legacy data, so writeFile should have been invoked immediately
-        expect(writeFileSpy).toHaveBeenCalled();
+        writeFileSync(historyPath, "{\"version\":2}\n{\"id\":\"test-qu");
+        await service.reload();
+        expect(service.getHistory("test-quota", 60_000)).toHaveLength(1);
+        // Followers never repair the leader's log
+        expect(readFileSync(historyPath, "utf-8")).toBe("{\"version\":2}\n{\"id\":\"test-qu");
+    });
+
+    test("migrates versioned JSON history into the log and removes the old file", async () => {
+        const now = Date.now();
+        writeFileSync(legacyPath, JSON.stringify({
+            version: 1,
+            data: { "test-quota": [{ timestamp: now, used: 10, limit: 100 }] },
+        }));
+
+        const service = createService();
+        await service.init();
 
-        const callArgs = writeFileSpy.mock.calls.find((c: any) => c[0] === "/tmp/history.json");
-        expect(callArgs).toBeTruthy();
-        const savedPayload = JSON.parse(callArgs[1]);
-        expect(savedPayload.version).toBe(1);
-        expect(savedPayload.data["test-quota"]).toHaveLength(1);
+        expect((logger.info as any).mock.calls.some((c: any) => c[0] === "history-service:migrated" && c[1]?.from === 1 && c[1]?.to === 2)).toBe(true);
+        expect(existsSync(legacyPath)).toBe(false);
+        expect(readRawLog()).toEqual([
+            { version: 2 },
+            { id: "test-quota", timestamp: now, used: 10, limit: 100 },
+        ]);
 
         const history = service.getHistory("test-quota", 100000);
         expect(history).toHaveLength(1);
         expect(history[0].used).toBe(10);
     });
 
-    test("logs parse_failed when history is malformed", async () => {
-        readFileSpy.mockResolvedValue("not-json");
-        const service = new HistoryService("/tmp/history.json");
+    test("migrates unversioned legacy history", async () => {
+        const now = Date.now();
+        writeFileSync(legacyPath, JSON.stringify({ "test-quota": [{ timestamp: now, used: 10, limit: 100 }] }));
+
+        const service = createService();
         await service.init();
-        expect((logger.error as any).mock.calls.some((c: any) => c[0] === "history-service:parse_failed" && c[1] && c[1].path === "/tmp/history.json")).toBe(true);
-        const history = service.getHistory("test-quota", 100000);
-        expect(history).toHaveLength(0);
+
+        expect((logger.info as any).mock.calls.some((c: any) => c[0] === "history-service:migrated" && c[1]?.from === "legacy")).toBe(true);
+        expect(service.getHistory("test-quota", 100000)).toHaveLength(1);
+        expect(readRawLog()).toHaveLength(2);
     });
 
-    test("loads versioned history format", async () => {
+    test("logs parse_failed and keeps a malformed legacy file", async () => {
+        writeFileSync(legacyPath, "not-json");
+        const service = createService();
+        await service.init();
+        expect((logger.error as any).mock.calls.some((c: any) => c[0] === "history-service:parse_failed" && c[1]?.path === legacyPath)).toBe(true);
+        expect(existsSync(legacyPath)).toBe(true);
+        expect(service.getHistory("test-quota", 100000)).toHaveLength(0);
+    });
+
+    test("skips a partial last line and repairs the log", async () => {
         const now = Date.now();
-        const mockHistory = {
-            "test-quota": [
-                { timestamp: now, used: 10, limit: 100 }
-            ]
-        };
-        readFileSpy.mockResolvedValue(JSON.stringify({ version: 1, data: mockHistory }));
+        seedLog({ "test-quota": [{ timestamp: now - 1000, used: 10, limit: 100 }] });
+        appendFileSync(historyPath, "{\"id\":\"test-quota\",\"timest");
 
-        const service = new HistoryService("/tmp/history.json");
+        const service = createService();
         await service.init();
 
-        const history = service.getHistory("test-quota", 100000);
-        expect(history).toHaveLength(1);
-        expect(history[0].used).toBe(10);
+        expect((logger.warn as any).mock.calls.some((c: any) => c[0] === "history-service:recovered" && c[1]?.skipped === 1)).toBe(true);
+        expect(service.getHistory("test-quota", 100000)).toHaveLength(1);
+
+        // The next append lands on its own line
+        await service.append([mockQuota]);
+        expect(readRawLog().slice(1).map((r: any) => r.used)).toEqual([10, 50]);
     });
 
     test("unsupported version logged and data is used", async () => {
         const now = Date.now();
-        const mockHistory = {
-            "test-quota": [
-                { timestamp: now, used: 20, limit: 100 }
-            ]
-        };
-        readFileSpy.mockResolvedValue(JSON.stringify({ version: 999, data: mockHistory }));
+        writeFileSync(historyPath, [
+            JSON.stringify({ version: 999 }),
+            JSON.stringify({ id: "test-quota", timestamp: now, used: 20, limit: 100 }),
+        ].join("\n") + "\n");
 
-        const service = new HistoryService("/tmp/history.json");
+        const service = createService();
         await service.init();
 
         expect((logger.error as any).mock.calls.some((c: any) => c[0] === "history-service:unsupported_version" && c[1] && c[1].version === 999)).toBe(true);
@@ -109,21 +142,71 @@ describe("HistoryService", () => {
         expect(history[0].used).toBe(20);
     });
 
-    test("appends new snapshot and saves after debounce", async () => {
-        const service = new HistoryService("/tmp/history.json");
+    test("appends new snapshots as lines without rewriting the log", async () => {
+        const service = createService();
         await service.init();
 
         await service.append([mockQuota]);
+        const firstWrite = readFileSync(historyPath, "utf-8");
+
+        await service.append([{ ...mockQuota, used: 55 }]);
+        const secondWrite = readFileSync(historyPath, "utf-8");
+
+        expect(secondWrite.startsWith(firstWrite)).toBe(true);
+        expect(readRawLog().slice(1).map((r: any) => r.used)).toEqual([50, 55]);
 
         const history = service.getHistory("test-quota", 100000);
-        expect(history).toHaveLength(1);
+        expect(history).toHaveLength(2);
         expect(history[0].used).toBe(50);
-        
-        expect(writeFileSpy).not.toHaveBeenCalled();
+    });
+
+    test("compacts once the log outgrows the live points", async () => {
+        const now = Date.now();
+        const cleared = Array.from({ length: 1200 }, (_, i) => ({ timestamp: now - 60_000 + i, used: 90, limit: 100 }));
+        seedLog({ "test-quota": cleared });
+        appendFileSync(historyPath, JSON.stringify({ id: "test-quota", timestamp: now - 1000, reset: true }) + "\n");
+
+        const service = createService();
+        await service.init();
+        expect(service.getHistory("test-quota", 100000)).toHaveLength(0);
+
+        await service.append([mockQuota]);
+
+        expect(readRawLog()).toEqual([
+            { version: 2 },
+            expect.objectContaining({ id: "test-quota", used: 50 }),
+        ]);
+        expect(existsSync(`${historyPath}.${process.pid}.tmp`)).toBe(false);
+    });
+
+    test("pruneAll rewrites the log without expired points", async () => {
+        const now = Date.now();
+        const oneHour = 60 * 60 * 1000;
+        seedLog({
+            "quota-a": [{ timestamp: now - 30 * oneHour, used: 1, limit: 100 }, { timestamp: now, used: 2, limit: 100 }],
+        });
+
+        const service = createService();
+        await service.init();
+        await service.pruneAll();
+
+        expect(readRawLog()).toEqual([{ version: 2 }, { id: "quota-a", timestamp: now, used: 2, limit: 100 }]);
+    });
+
+    test("replays reset markers when loading", async () => {
+        const service = createService();
+        await service.init();
 
-        await new Promise(resolve => setTimeout(resolve, 5100));
-        expect(writeFileSpy).toHaveBeenCalled();
-    }, { timeout: 10000 });
+        await service.append([{ ...mockQuota, used: 80 }]);
+        await service.append([{ ...mockQuota, used: 10 }]);
+        expect(readRawLog().some((r: any) => r.reset === true)).toBe(true);
+
+        const reloaded = createService();
+        await reloaded.init();
+        const history = reloaded.getHistory("test-quota", 100000);
+        expect(history).toHaveLength(1);
+        expect(history[0].used).toBe(10);
+    });
 
     test("prunes old data based on max age", async () => {
         const now = Date.now();
@@ -135,10 +218,12 @@ describe("HistoryService", () => {
                 { timestamp: now - (23 * oneHour), used: 20, limit: 100 }
             ]
         };
-        readFileSpy.mockResolvedValue(JSON.stringify(mockHistory));
+        seedLog(mockHistory);
 
-        const service = new HistoryService("/tmp/history.json");
+        const service = createService();
         await service.init();
+        // Only raw retention is under test here
+        service.setTiers([]);
         
         await service.append([mockQuota]);
 
@@ -158,10 +243,12 @@ describe("HistoryService", () => {
                 { timestamp: now - (5 * oneHour), used: 10, limit: 100 },
             ]
         };
-        readFileSpy.mockResolvedValue(JSON.stringify(mockHistory));
+        seedLog(mockHistory);
 
-        const service = new HistoryService("/tmp/history.json");
+        const service = createService();
         await service.init();
+        // Only raw retention is under test here
+        service.setTiers([]);
         
         service.setMaxAge(2);
 
@@ -186,10 +273,12 @@ describe("HistoryService", () => {
                 { timestamp: now - (30 * oneHour), used: 5, limit: 100 }
             ]
         };
-        readFileSpy.mockResolvedValue(JSON.stringify(mockHistory));
+        seedLog(mockHistory);
 
-        const service = new HistoryService("/tmp/history.json");
+        const service = createService();
         await service.init();
+        // Only raw retention is under test here
+        service.setTiers([]);
         
         await service.pruneAll();
         
@@ -201,6 +290,259 @@ describe("HistoryService", () => {
         expect(historyB).toHaveLength(0);
     });
 
+    describe("Export and import", () => {
+        const oneMinute = 60 * 1000;
+        const oneDay = 24 * 60 * oneMinute;
+
+        test("exports raw points and fills older periods from the finest tier", async () => {
+            const now = Date.now();
+            const service = createService();
+            await service.init();
+
+            for (const [offset, used] of [[3 * oneDay, 10], [2 * oneDay, 20], [10 * oneMinute, 30], [5 * oneMinute, 31]] as const) {
+                spyOn(Date, "now").mockReturnValue(now - offset);
+                await service.append([{ ...mockQuota, used }]);
+            }
+            spyOn(Date, "now").mockReturnValue(now);
+
+            expect(service.exportPoints().map(p => p.used)).toEqual([10, 20, 30, 31]);
+            expect(service.exportPoints({ windowMs: oneDay }).map(p => p.used)).toEqual([30, 31]);
+            expect(service.exportPoints({ quotaId: "missing" })).toEqual([]);
+            expect(service.getQuotaIds()).toEqual(["test-quota"]);
+        });
+
+        test("exports the quota windows before a reset", async () => {
+            const now = Date.now();
+            const service = createService();
+            await service.init();
+
+            for (const [offset, used] of [[3 * oneDay, 40], [2 * oneDay, 90], [oneDay, 5], [oneDay / 2, 10]] as const) {
+                spyOn(Date, "now").mockReturnValue(now - offset);
+                await service.append([{ ...mockQuota, used }]);
+            }
+            spyOn(Date, "now").mockReturnValue(now);
+
+            expect(service.getResetEvents()).toHaveLength(1);
+            expect(service.exportPoints().map(p => p.used)).toEqual([40, 90, 5, 10]);
+        });
+
+        test("imports points at every covering resolution and skips duplicates", async () => {
+            // Half past the hour, so both recent points share an hourly bucket
+            const now = Math.floor(Date.now() / (60 * oneMinute)) * 60 * oneMinute + 30 * oneMinute;
+            spyOn(Date, "now").mockReturnValue(now);
+            seedLog({ "test-quota": [{ timestamp: now - 10 * oneMinute, used: 30, limit: 100 }] });
+
+            const service = createService();
+            await service.init();
+
+            const added = await service.importPoints([
+                { quotaId: "test-quota", timestamp: now - 10 * oneMinute, used: 30, limit: 100 },
+                { quotaId: "test-quota", timestamp: now - 20 * oneMinute, used: 25, limit: 100 },
+                { quotaId: "test-quota", timestamp: now - 20 * oneMinute, used: 25, limit: 100 },
+                { quotaId: "test-quota", timestamp: now - 10 * oneDay, used: 5, limit: 100 },
+                { quotaId: "test-quota", timestamp: now - 90 * oneDay, used: 1, limit: 100 },
+                { quotaId: "imported", timestamp: now - oneMinute, used: 7, limit: null },
+            ]);
+
+            expect(added).toBe(3);
+            expect(service.getHistory("test-quota", oneDay).map(p => p.used)).toEqual([25, 30]);
+            expect(service.getHistory("test-quota", 30 * oneDay).map(p => p.used)).toEqual([5, 30]);
+
+            const reloaded = createService();
+            await reloaded.init();
+            expect(reloaded.exportPoints().map(p => `${p.quotaId}:${p.used}`)).toEqual(["imported:7", "test-quota:5", "test-quota:25", "test-quota:30"]);
+            expect(await reloaded.importPoints(reloaded.exportPoints())).toBe(0);
+        });
+    });
+
+    describe("Reset events", () => {
+        const oneMinute = 60 * 1000;
+        const oneDay = 24 * 60 * oneMinute;
+
+        const appendAt = async (service: HistoryService, timestamp: number, used: number, id = "test-quota") => {
+            spyOn(Date, "now").mockReturnValue(timestamp);
+            await service.append([{ ...mockQuota, id, used }]);
+        };
+
+        test("records usage before and after and the peak of the cleared window", async () => {
+            const now = Date.now();
+            const service = createService();
+            await service.init();
+
+            await appendAt(service, now - 30 * oneMinute, 40);
+            await appendAt(service, now - 20 * oneMinute, 90);
+            await appendAt(service, now - 15 * oneMinute, 85);
+            await appendAt(service, now - 10 * oneMinute, 5);
+            await appendAt(service, now - 5 * oneMinute, 60, "other-quota");
+
+            expect(service.getResetEvents()).toEqual([{
+                quotaId: "test-quota",
+                timestamp: now - 10 * oneMinute,
+                usedBefore: 85,
+                usedAfter: 5,
+                peakUsed: 90,
+                limit: 100,
+            }]);
+            expect(service.getResetEvents("other-quota")).toEqual([]);
+        });
+
+        test("filters events by quota and window", async () => {
+            const now = Date.now();
+            const service = createService();
+            await service.init();
+
+            await appendAt(service, now - 3 * oneDay, 80);
+            await appendAt(service, now - 2 * oneDay, 10);
+            await appendAt(service, now - oneDay, 70);
+            await appendAt(service, now - oneMinute, 0);
+
+            spyOn(Date, "now").mockReturnValue(now);
+            expect(service.getResetEvents("test-quota").map(e => e.timestamp)).toEqual([now - 2 * oneDay, now - oneMinute]);
+            expect(service.getResetEvents("test-quota", oneDay).map(e => e.usedBefore)).toEqual([70]);
+        });
+
+        test("persists events across reload and compaction", async () => {
+            const now = Date.now();
+            const service = createService();
+            await service.init();
+
+            await appendAt(service, now - 2 * oneDay, 80);
+            await appendAt(service, now - oneDay, 10);
+
+            const reloaded = createService();
+            await reloaded.init();
+            expect(reloaded.getResetEvents("test-quota")).toHaveLength(1);
+
+            spyOn(Date, "now").mockReturnValue(now);
+            reloaded.setMaxAge(1);
+            await reloaded.pruneAll();
+            expect(readRawLog().filter((r: any) => r.reset === true)).toHaveLength(1);
+
+            const compacted = createService();
+            await compacted.init();
+            expect(compacted.getResetEvents("test-quota")[0]).toMatchObject({ usedBefore: 80, usedAfter: 10, peakUsed: 80 });
+            expect(compacted.getHistory("test-quota", 7 * oneDay).map(p => p.used)).toEqual([80, 10]);
+        });
+
+        test("prunes events older than the longest retention", async () => {
+            const now = Date.now();
+            const service = createService();
+            await service.init();
+            service.setTiers([{ resolutionMinutes: 60, maxAgeDays: 7 }]);
+
+            await appendAt(service, now - 9 * oneDay, 80);
+            await appendAt(service, now - 8 * oneDay, 10);
+            await appendAt(service, now - oneDay, 60);
+            await appendAt(service, now - oneMinute, 0);
+
+            spyOn(Date, "now").mockReturnValue(now);
+            await service.pruneAll();
+            expect(service.getResetEvents().map(e => e.timestamp)).toEqual([now - oneMinute]);
+        });
+    });
+
+    describe("Downsampled tiers", () => {
+        const oneMinute = 60 * 1000;
+        const oneHour = 60 * oneMinute;
+        const oneDay = 24 * oneHour;
+
+        const appendAt = async (service: HistoryService, timestamp: number, used: number) => {
+            spyOn(Date, "now").mockReturnValue(timestamp);
+            await service.append([{ ...mockQuota, used }]);
+        };
+
+        test("keeps the last sample of each bucket and serves windows beyond raw retention from tiers", async () => {
+            const start = Math.floor(Date.now() / oneHour) * oneHour;
+            const service = createService();
+            await service.init();
+
+            // Three samples in one 5-minute bucket, then one in the next
+            await appendAt(service, start, 10);
+            await appendAt(service, start + oneMinute, 11);
+            await appendAt(service, start + 2 * oneMinute, 12);
+            await appendAt(service, start + 6 * oneMinute, 13);
+
+            spyOn(Date, "now").mockReturnValue(start + 7 * oneMinute);
+            expect(service.getHistory("test-quota", oneHour).map(p => p.used)).toEqual([10, 11, 12, 13]);
+            expect(service.getHistory("test-quota", 3 * oneDay).map(p => p.used)).toEqual([12, 13]);
+            expect(service.getHistory("test-quota", 30 * oneDay).map(p => p.used)).toEqual([13]);
+        });
+
+        test("keeps tier points after raw points expire and across compaction", async () => {
+            const now = Date.now();
+            const service = createService();
+            await service.init();
+
+            await appendAt(service, now - 3 * oneDay, 10);
+            await appendAt(service, now - 2 * oneDay, 20);
+            await appendAt(service, now - oneHour, 30);
+
+            spyOn(Date, "now").mockReturnValue(now);
+            service.setMaxAge(0.5);
+            await service.pruneAll();
+
+            expect(service.getHistory("test-quota", 10 * oneMinute)).toHaveLength(0);
+            expect(service.getHistory("test-quota", 7 * oneDay).map(p => p.used)).toEqual([10, 20, 30]);
+            expect(readRawLog()).toEqual([{ version: 2 }]);
+            expect(readLog().filter((r: any) => r.res === 5)).toHaveLength(3);
+
+            const reloaded = createService();
+            await reloaded.init();
+            expect(reloaded.getHistory("test-quota", 7 * oneDay).map(p => p.used)).toEqual([10, 20, 30]);
+            expect(reloaded.getHistory("test-quota", 60 * oneDay).map(p => p.used)).toEqual([10, 20, 30]);
+        });
+
+        test("prunes each tier by its own max age", async () => {
+            const now = Date.now();
+            const service = createService();
+            await service.init();
+
+            await appendAt(service, now - 10 * oneDay, 10);
+            await appendAt(service, now - oneHour, 20);
+
+            spyOn(Date, "now").mockReturnValue(now);
+            await service.pruneAll();
+
+            expect(service.getHistory("test-quota", 7 * oneDay).map(p => p.used)).toEqual([20]);
+            expect(service.getHistory("test-quota", 60 * oneDay).map(p => p.used)).toEqual([10, 20]);
+        });
+
+        test("builds newly configured tiers from raw history", async () => {
+            const now = Date.now();
+            seedLog({ "test-quota": [
+                { timestamp: now - 50 * oneMinute, used: 10, limit: 100 },
+                { timestamp: now - 40 * oneMinute, used: 20, limit: 100 },
+            ] });
+
+            const service = createService();
+            await service.init();
+            service.setMaxAge(0.25);
+            service.setTiers([{ resolutionMinutes: 30, maxAgeDays: 1 }]);
+
+            const history = service.getHistory("test-quota", 2 * oneHour);
+            expect(history.length).toBeGreaterThanOrEqual(1);
+            expect(history[history.length - 1].used).toBe(20);
+        });
+
+        test("a detected reset clears raw points but keeps the tiers", async () => {
+            const now = Date.now();
+            const service = createService();
+            await service.init();
+
+            await appendAt(service, now - 2 * oneHour, 80);
+            await appendAt(service, now - oneHour, 10);
+
+            spyOn(Date, "now").mockReturnValue(now);
+            expect(service.getHistory("test-quota", 3 * oneHour).map(p => p.used)).toEqual([10]);
+            expect(service.getHistory("test-quota", 7 * oneDay).map(p => p.used)).toEqual([80, 10]);
+
+            const reloaded = createService();
+            await reloaded.init();
+            expect(reloaded.getHistory("test-quota", 3 * oneHour).map(p => p.used)).toEqual([10]);
+            expect(reloaded.getHistory("test-quota", 7 * oneDay).map(p => p.used)).toEqual([80, 10]);
+        });
+    });
+
     describe("Reset Detection", () => {
         test("clears history when usage drops significantly (reset detected)", async () => {
             const now = Date.now();
@@ -214,9 +556,9 @@ describe("HistoryService", () => {
                     { timestamp: now - (3 * oneMinute), used: 80, limit: 100 },
                 ]
             };
-            readFileSpy.mockResolvedValue(JSON.stringify(mockHistory));
+            seedLog(mockHistory);
 
-            const service = new HistoryService("/tmp/history.json");
+            const service = createService();
             await service.init();
 
             // Verify initial history is loaded
@@ -256,9 +598,9 @@ describe("HistoryService", () => {
                     { timestamp: now - (3 * oneMinute), used: 50, limit: 100 },
                 ]
             };
-            readFileSpy.mockResolvedValue(JSON.stringify(mockHistory));
+            seedLog(mockHistory);
 
-            const service = new HistoryService("/tmp/history.json");
+            const service = createService();
             await service.init();
 
             // Append a new data point with slightly lower usage
@@ -287,9 +629,9 @@ describe("HistoryService", () => {
                     { timestamp: now - (3 * oneMinute), used: 30, limit: 100 },
                 ]
             };
-            readFileSpy.mockResolvedValue(JSON.stringify(mockHistory));
+            seedLog(mockHistory);
 
-            const service = new HistoryService("/tmp/history.json");
+            const service = createService();
             await service.init();
 
             // Append a new data point with higher usage
@@ -317,9 +659,9 @@ describe("HistoryService", () => {
                     { timestamp: now - (3 * oneMinute), used: 1000, limit: null },
                 ]
             };
-            readFileSpy.mockResolvedValue(JSON.stringify(mockHistory));
+            seedLog(mockHistory);
 
-            const service = new HistoryService("/tmp/history.json");
+            const service = createService();
             await service.init();
 
             // Append a new data point with lower usage (but unlimited, so no reset detection)
@@ -346,9 +688,9 @@ describe("HistoryService", () => {
                     { timestamp: now - (3 * oneMinute), used: 50, limit: 100 },
                 ]
             };
-            readFileSpy.mockResolvedValue(JSON.stringify(mockHistory));
+            seedLog(mockHistory);
 
-            const service = new HistoryService("/tmp/history.json");
+            const service = createService();
             await service.init();
 
             // Drop from 50 to 30 = exactly 20% of limit
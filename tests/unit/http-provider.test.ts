@@ -0,0 +1,178 @@
+import { expect, test, describe, beforeAll, afterAll, mock } from "bun:test";
+import { createServer, type Server, type IncomingMessage } from "node:http";
+import { type AddressInfo } from "node:net";
+import { join } from "node:path";
+import { mkdtemp, mkdir, writeFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { createHttpProvider, extractHttpQuota } from "../../src/providers/http";
+import { selectAll } from "../../src/utils/json-path";
+import { type HttpProviderConfig } from "../../src/interfaces";
+
+describe("HTTP Provider", () => {
+    let server: Server;
+    let baseUrl: string;
+    let lastRequest: { method?: string; headers: IncomingMessage["headers"]; body: string } | null = null;
+    let tempHome: string;
+    let originalXdgData: string | undefined;
+
+    beforeAll(async () => {
+        // Requests go to a local server, so start from the real fetch even if another test file left it mocked
+        mock.restore();
+        tempHome = await mkdtemp(join(tmpdir(), "opencode-quotas-http-test-"));
+        originalXdgData = process.env.XDG_DATA_HOME;
+        process.env.XDG_DATA_HOME = tempHome;
+        await mkdir(join(tempHome, "opencode"), { recursive: true });
+        await writeFile(
+            join(tempHome, "opencode", "auth.json"),
+            JSON.stringify({ gateway: { type: "api", key: "auth-secret" } }),
+        );
+
+        server = createServer((req, res) => {
+            let body = "";
+            req.on("data", (chunk) => (body += chunk));
+            req.on("end", () => {
+                lastRequest = { method: req.method, headers: req.headers, body };
+                if (req.url === "/usage") {
+                    res.setHeader("Content-Type", "application/json");
+                    res.end(JSON.stringify({
+                        data: {
+                            keys: [
+                                { alias: "Team A", spend: 12.5, max_budget: 50, budget_reset_at: "2026-03-20T00:00:00Z" },
+                                { alias: "Team B", spend: "40", max_budget: 50, budget_duration_s: 86400 },
+                            ],
+                        },
+                    }));
+                } else if (req.url === "/broken") {
+                    res.statusCode = 500;
+                    res.end("internal error");
+                } else {
+                    res.end("not json");
+                }
+            });
+        });
+        await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        await new Promise<void>((resolve) => server.close(() => resolve()));
+        if (originalXdgData) process.env.XDG_DATA_HOME = originalXdgData;
+        else delete process.env.XDG_DATA_HOME;
+        await rm(tempHome, { recursive: true, force: true });
+    });
+
+    const gatewayConfig = (overrides: Partial<HttpProviderConfig> = {}): HttpProviderConfig => ({
+        type: "http",
+        id: "gateway",
+        name: "Gateway",
+        url: `${baseUrl}/usage`,
+        items: "$.data.keys[*]",
+        fields: {
+            id: "$.alias",
+            used: "$.spend",
+            limit: "$.max_budget",
+            unit: "USD",
+            resetAt: "$.budget_reset_at",
+            window: "$.budget_duration_s",
+        },
+        ...overrides,
+    });
+
+    test("maps a JSON response to quotas through selectors", async () => {
+        const provider = createHttpProvider(gatewayConfig());
+        const quotas = await provider.fetchQuota();
+
+        expect(provider.id).toBe("gateway");
+        expect(quotas).toHaveLength(2);
+        expect(quotas[0]).toMatchObject({
+            id: "gateway-team-a",
+            providerName: "Gateway Team A",
+            used: 12.5,
+            limit: 50,
+            unit: "USD",
+            resetAt: Date.parse("2026-03-20T00:00:00Z"),
+        });
+        expect(quotas[1]).toMatchObject({
+            id: "gateway-team-b",
+            used: 40,
+            window: "1d window",
+            windowMs: 86400 * 1000,
+        });
+    });
+
+    test("interpolates env vars and auth.json tokens into headers", async () => {
+        process.env.OPENCODE_QUOTAS_TEST_TOKEN = "env-secret";
+        try {
+            const provider = createHttpProvider(gatewayConfig({
+                method: "POST",
+                headers: {
+                    Authorization: "Bearer {env:OPENCODE_QUOTAS_TEST_TOKEN}",
+                    "X-Api-Key": "{auth:gateway}",
+                },
+                body: { scope: "{env:OPENCODE_QUOTAS_TEST_TOKEN}" },
+            }));
+            await provider.fetchQuota();
+
+            expect(lastRequest?.method).toBe("POST");
+            expect(lastRequest?.headers.authorization).toBe("Bearer env-secret");
+            expect(lastRequest?.headers["x-api-key"]).toBe("auth-secret");
+            expect(JSON.parse(lastRequest!.body)).toEqual({ scope: "env-secret" });
+        } finally {
+            delete process.env.OPENCODE_QUOTAS_TEST_TOKEN;
+        }
+    });
+
+    test("escapes interpolated values in JSON bodies", async () => {
+        process.env.OPENCODE_QUOTAS_TEST_TOKEN = 'say "hi"\\';
+        try {
+            const provider = createHttpProvider(gatewayConfig({
+                body: { scope: "{env:OPENCODE_QUOTAS_TEST_TOKEN}", tags: ["{env:OPENCODE_QUOTAS_TEST_TOKEN}"] },
+            }));
+            await provider.fetchQuota();
+
+            expect(JSON.parse(lastRequest!.body)).toEqual({ scope: 'say "hi"\\', tags: ['say "hi"\\'] });
+        } finally {
+            delete process.env.OPENCODE_QUOTAS_TEST_TOKEN;
+        }
+    });
+
+    test("fails when a referenced variable is missing", async () => {
+        const provider = createHttpProvider(gatewayConfig({
+            headers: { Authorization: "Bearer {env:OPENCODE_QUOTAS_UNSET_VAR}" },
+        }));
+        await expect(provider.fetchQuota()).rejects.toThrow("OPENCODE_QUOTAS_UNSET_VAR");
+    });
+
+    test("throws on HTTP errors and non-JSON responses", async () => {
+        await expect(createHttpProvider(gatewayConfig({ url: `${baseUrl}/broken` })).fetchQuota())
+            .rejects.toThrow("(500)");
+        await expect(createHttpProvider(gatewayConfig({ url: `${baseUrl}/text` })).fetchQuota())
+            .rejects.toThrow("not valid JSON");
+    });
+
+    test("treats the whole response as one quota without items", () => {
+        const quotas = extractHttpQuota(
+            { type: "http", id: "proxy", url: "", fields: { used: "$.usage.tokens", limit: 1000, resetAt: "$.reset" } },
+            { usage: { tokens: 250 }, reset: 1736611200 },
+        );
+
+        expect(quotas).toEqual([{
+            id: "proxy",
+            providerName: "proxy",
+            used: 250,
+            limit: 1000,
+            unit: "",
+            resetAt: 1736611200 * 1000,
+            window: undefined,
+            windowMs: undefined,
+        }]);
+    });
+
+    test("selector supports bracket keys, indices and wildcards", () => {
+        const doc = { "x-key": [{ a: 1 }, { a: 2 }] };
+        expect(selectAll(doc, "$['x-key'][1].a")).toEqual([2]);
+        expect(selectAll(doc, "$['x-key'][*].a")).toEqual([1, 2]);
+        expect(selectAll(doc, "$.missing.path")).toEqual([]);
+        expect(() => selectAll(doc, "x-key")).toThrow();
+    });
+});
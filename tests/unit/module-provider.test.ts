@@ -0,0 +1,97 @@
+import { expect, test, describe, beforeAll, afterAll, afterEach } from "bun:test";
+import { join } from "node:path";
+import { mkdtemp, mkdir, writeFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { loadModuleProviders } from "../../src/providers/module";
+import { QuotaService } from "../../src/services/quota-service";
+
+const REGISTRY_KEY = "__OPENCODE_QUOTA_REGISTRY__";
+
+describe("Module Providers", () => {
+    let tempDir: string;
+
+    beforeAll(async () => {
+        tempDir = await mkdtemp(join(tmpdir(), "opencode-quotas-module-test-"));
+        await mkdir(join(tempDir, ".opencode", "providers"), { recursive: true });
+
+        await writeFile(join(tempDir, ".opencode", "providers", "echo.mjs"), `
+            export default function (config) {
+                return {
+                    id: config.id,
+                    async fetchQuota() {
+                        return [{ id: config.id, providerName: config.label, used: config.used, limit: 10, unit: "" }];
+                    },
+                };
+            }
+        `);
+        await writeFile(join(tempDir, ".opencode", "providers", "named.mjs"), `
+            export function createProvider() {
+                return [
+                    { id: "named-a", fetchQuota: async () => [] },
+                    { id: "named-b", fetchQuota: async () => [] },
+                ];
+            }
+        `);
+        await writeFile(join(tempDir, ".opencode", "providers", "no-factory.mjs"), `export const value = 1;`);
+        await writeFile(join(tempDir, ".opencode", "providers", "bad-return.mjs"), `export default () => ({ id: "x" });`);
+    });
+
+    afterAll(async () => {
+        await rm(tempDir, { recursive: true, force: true });
+    });
+
+    afterEach(() => {
+        delete (globalThis as any)[REGISTRY_KEY];
+    });
+
+    const modulePath = (name: string) => join(tempDir, ".opencode", "providers", name);
+
+    test("calls the default export with the module's config block", async () => {
+        const [provider] = await loadModuleProviders(
+            { type: "module", module: modulePath("echo.mjs"), id: "echo", label: "Echo", used: 4 },
+            tempDir,
+        );
+
+        expect(provider.id).toBe("echo");
+        expect(await provider.fetchQuota()).toEqual([
+            { id: "echo", providerName: "Echo", used: 4, limit: 10, unit: "" },
+        ]);
+    });
+
+    test("accepts a named createProvider factory returning several providers", async () => {
+        const providers = await loadModuleProviders({ type: "module", module: modulePath("named.mjs") }, tempDir);
+        expect(providers.map(p => p.id)).toEqual(["named-a", "named-b"]);
+    });
+
+    test("rejects modules without a factory or with invalid providers", async () => {
+        await expect(loadModuleProviders({ type: "module", module: modulePath("no-factory.mjs") }, tempDir))
+            .rejects.toThrow("must export a factory function");
+        await expect(loadModuleProviders({ type: "module", module: modulePath("bad-return.mjs") }, tempDir))
+            .rejects.toThrow("must return providers");
+        await expect(loadModuleProviders({ type: "module", module: "opencode-quotas-missing-module" }, tempDir))
+            .rejects.toThrow();
+    });
+
+    test("QuotaService registers modules from quotas.json and reports failures per module", async () => {
+        delete (globalThis as any)[REGISTRY_KEY];
+        await writeFile(join(tempDir, ".opencode", "quotas.json"), JSON.stringify({
+            providers: [
+                { module: "./providers/echo.mjs", id: "module-echo", label: "Echo", used: 1 },
+                "./providers/no-factory.mjs",
+                "opencode-quotas-missing-module",
+            ],
+        }));
+
+        const service = new QuotaService();
+        await service.init(tempDir);
+
+        expect(service.getProviders().some(p => p.id === "module-echo")).toBe(true);
+
+        const errors = service.getProviderErrors();
+        expect(errors.map(e => e.source)).toEqual([
+            modulePath("no-factory.mjs"),
+            "opencode-quotas-missing-module",
+        ]);
+        expect(errors.every(e => e.type === "module")).toBe(true);
+    });
+});
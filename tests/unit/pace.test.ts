@@ -0,0 +1,35 @@
+import { expect, test, describe } from "bun:test";
+import { calculatePace, formatPace } from "../../src/utils/pace";
+
+describe("pace utils", () => {
+  const HOUR = 60 * 60 * 1000;
+  const now = 1_700_000_000_000;
+
+  describe("calculatePace", () => {
+    test("compares used and elapsed fractions of the window", () => {
+      // 5h window resetting in 3h: 40% elapsed
+      const pace = calculatePace({ used: 58, limit: 100, resetAt: now + 3 * HOUR, windowMs: 5 * HOUR }, now);
+      expect(pace!.elapsedRatio).toBeCloseTo(0.4, 10);
+      expect(pace!.delta).toBeCloseTo(0.18, 10);
+    });
+
+    test("clamps the elapsed fraction to the window", () => {
+      expect(calculatePace({ used: 10, limit: 100, resetAt: now + 6 * HOUR, windowMs: 5 * HOUR }, now)!.elapsedRatio).toBe(0);
+      expect(calculatePace({ used: 10, limit: 100, resetAt: now - HOUR, windowMs: 5 * HOUR }, now)!.elapsedRatio).toBe(1);
+    });
+
+    test("returns null without a window, a reset or a limit", () => {
+      expect(calculatePace({ used: 10, limit: 100, resetAt: now + HOUR }, now)).toBeNull();
+      expect(calculatePace({ used: 10, limit: 100, windowMs: 5 * HOUR }, now)).toBeNull();
+      expect(calculatePace({ used: 10, limit: null, resetAt: now + HOUR, windowMs: 5 * HOUR }, now)).toBeNull();
+    });
+  });
+
+  describe("formatPace", () => {
+    test("formats percentage points ahead of or under pace", () => {
+      expect(formatPace({ elapsedRatio: 0.4, delta: 0.18 })).toBe("ahead +18%");
+      expect(formatPace({ elapsedRatio: 0.4, delta: -0.1 })).toBe("under −10%");
+      expect(formatPace({ elapsedRatio: 0.4, delta: 0.002 })).toBe("on pace");
+    });
+  });
+});
@@ -67,7 +67,10 @@ describe("paths utils", () => {
         delete process.env.XDG_CONFIG_HOME;
 
         expect(paths.AUTH_FILE()).toBe("/home/user/.local/share/opencode/auth.json");
-        expect(paths.HISTORY_FILE()).toBe("/home/user/.local/share/opencode/quota-history.json");
+        expect(paths.HISTORY_FILE()).toBe("/home/user/.local/share/opencode/quota-history.ndjson");
+        expect(paths.LEGACY_HISTORY_FILE()).toBe("/home/user/.local/share/opencode/quota-history.json");
+        expect(paths.SNAPSHOT_FILE()).toBe("/home/user/.local/share/opencode/quota-snapshot.json");
+        expect(paths.POLLER_LOCK_FILE()).toBe("/home/user/.local/share/opencode/quota-poller.lock");
         expect(paths.ANTIGRAVITY_ACCOUNTS_FILE()).toBe("/home/user/.config/opencode/antigravity-accounts.json");
     });
 });
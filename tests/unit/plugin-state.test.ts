@@ -24,4 +24,15 @@ describe("PluginState eviction", () => {
         const state = new PluginState();
         expect(state.isProcessed("unknown")).toBe(false);
     });
+
+    test("tracks full table requests per session", () => {
+        const state = new PluginState();
+        state.requestFullTable("session-1");
+
+        expect(state.hasFullTableRequest("session-1")).toBe(true);
+        expect(state.hasFullTableRequest("session-2")).toBe(false);
+
+        state.clearFullTableRequest("session-1");
+        expect(state.hasFullTableRequest("session-1")).toBe(false);
+    });
 });
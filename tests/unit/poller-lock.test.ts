@@ -0,0 +1,68 @@
+import { expect, test, describe, beforeEach, afterEach } from "bun:test";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { existsSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { PollerLock } from "../../src/poller-lock";
+
+describe("PollerLock", () => {
+    let tempDir: string;
+    let lockPath: string;
+
+    beforeEach(async () => {
+        tempDir = await mkdtemp(join(tmpdir(), "poller-lock-"));
+        lockPath = join(tempDir, "data", "quota-poller.lock");
+    });
+
+    afterEach(async () => {
+        await rm(tempDir, { recursive: true, force: true });
+    });
+
+    test("grants the lock to one holder at a time", async () => {
+        const first = new PollerLock(lockPath);
+        const second = new PollerLock(lockPath);
+
+        expect(await first.acquire()).toBe(true);
+        expect(await second.acquire()).toBe(false);
+
+        // Renewing keeps the lock and bumps the heartbeat
+        const before = JSON.parse(await readFile(lockPath, "utf-8"));
+        await new Promise((r) => setTimeout(r, 5));
+        expect(await first.acquire()).toBe(true);
+        const after = JSON.parse(await readFile(lockPath, "utf-8"));
+        expect(after.pid).toBe(process.pid);
+        expect(after.heartbeatAt).toBeGreaterThan(before.heartbeatAt);
+
+        await first.release();
+        expect(existsSync(lockPath)).toBe(false);
+        expect(await second.acquire()).toBe(true);
+        expect(second.isHeld()).toBe(true);
+    });
+
+    test("takes over a lock with an expired heartbeat, and the old holder steps down", async () => {
+        const first = new PollerLock(lockPath, { staleMs: 1_000 });
+        const second = new PollerLock(lockPath, { staleMs: 1_000 });
+        await first.acquire();
+
+        const info = JSON.parse(await readFile(lockPath, "utf-8"));
+        await writeFile(lockPath, JSON.stringify({ ...info, heartbeatAt: Date.now() - 5_000 }));
+
+        expect(await second.acquire()).toBe(true);
+        expect(await first.acquire()).toBe(false);
+        expect(first.isHeld()).toBe(false);
+
+        // Releasing a lock that was taken over leaves the new holder's file alone
+        await first.release();
+        expect(existsSync(lockPath)).toBe(true);
+    });
+
+    test("takes over a lock whose holder process has exited", async () => {
+        const exited = Bun.spawn([process.execPath, "-e", "void 0"]);
+        await exited.exited;
+        await new PollerLock(lockPath).acquire();
+        const info = JSON.parse(await readFile(lockPath, "utf-8"));
+        await writeFile(lockPath, JSON.stringify({ ...info, pid: exited.pid, token: "gone" }));
+
+        expect(await new PollerLock(lockPath).acquire()).toBe(true);
+    });
+});
@@ -1,6 +1,14 @@
-import { expect, test, describe, beforeEach } from "bun:test";
-import { LinearRegressionPredictionEngine, NullPredictionEngine } from "../../src/services/prediction-engine";
-import { type IHistoryService, type HistoryPoint } from "../../src/interfaces";
+import { expect, test, describe, beforeEach, afterEach, spyOn, mock } from "bun:test";
+import {
+    LinearRegressionPredictionEngine,
+    NullPredictionEngine,
+    EwmaPredictionEngine,
+    HoltPredictionEngine,
+    createPredictionEngine,
+    isLongTermWindow,
+    type PredictionEngineConfig,
+} from "../../src/services/prediction-engine";
+import { type IHistoryService, type HistoryPoint, type IPredictionEngine } from "../../src/interfaces";
 
 describe("LinearRegressionPredictionEngine", () => {
     let mockHistoryService: IHistoryService;
@@ -10,12 +18,15 @@ describe("LinearRegressionPredictionEngine", () => {
         historyData = {};
         mockHistoryService = {
             init: async () => {},
+            reload: async () => {},
             append: async () => {},
             getHistory: (id: string, windowMs: number) => {
                 const now = Date.now();
                 return (historyData[id] || []).filter(p => p.timestamp > now - windowMs);
             },
+            getResetEvents: () => [],
             setMaxAge: () => {},
+            setTiers: () => {},
             setResetThreshold: () => {},
             pruneAll: async () => {}
         };
@@ -189,6 +200,196 @@ describe("LinearRegressionPredictionEngine", () => {
             });
             expect(engine2.predictTimeToLimit("q1")).toBe(Infinity);
         });
+
+        test("requests the whole window of long-term quotas", () => {
+            const requested: number[] = [];
+            const getHistory = mockHistoryService.getHistory;
+            mockHistoryService.getHistory = (id, windowMs) => {
+                requested.push(windowMs);
+                return getHistory(id, windowMs);
+            };
+            const engine = new LinearRegressionPredictionEngine(mockHistoryService);
+            const weekMs = 7 * 24 * 60 * 60 * 1000;
+
+            engine.predictTimeToLimit("q1", 60, 5, { windowMs: weekMs });
+            engine.predictTimeToLimit("q1", 60, 5, { windowMs: 5 * 60 * 60 * 1000 });
+
+            expect(requested).toEqual([weekMs, 60 * 60 * 1000]);
+        });
+
+        test("ignores points from before the last reset", () => {
+            const now = Date.now();
+            const oneDay = 24 * 60 * 60 * 1000;
+            historyData["q1"] = [
+                { timestamp: now - 3 * oneDay, used: 90, limit: 100 },
+                { timestamp: now - 2 * oneDay, used: 95, limit: 100 },
+                { timestamp: now - oneDay, used: 0, limit: 100 },
+                { timestamp: now - oneDay / 2, used: 10, limit: 100 },
+                { timestamp: now, used: 20, limit: 100 },
+            ];
+            mockHistoryService.getResetEvents = () => [
+                { quotaId: "q1", timestamp: now - oneDay, usedBefore: 95, usedAfter: 0, peakUsed: 95, limit: 100 },
+            ];
+            const engine = new LinearRegressionPredictionEngine(mockHistoryService);
+
+            const ttl = engine.predictTimeToLimit("q1", 60, 5, { windowMs: 7 * oneDay });
+            expect(ttl).toBeCloseTo(4 * oneDay, -5);
+        });
+    });
+
+    describe("predictBurnRate", () => {
+        test("returns null without enough history", () => {
+            const engine = new LinearRegressionPredictionEngine(mockHistoryService);
+            expect(engine.predictBurnRate("unknown")).toBeNull();
+        });
+
+        test("reports long and short-window rates per hour", () => {
+            const now = Date.now();
+            // 10 units per hour for 50 minutes, then 10 units in the last 5 minutes
+            historyData["q1"] = [
+                ...Array.from({ length: 6 }, (_, i) => ({ timestamp: now - (60 - i * 10) * 60_000, used: i * 10 / 6, limit: 100 })),
+                { timestamp: now - 5 * 60_000, used: 10, limit: 100 },
+                { timestamp: now, used: 20, limit: 100 },
+            ];
+            const engine = new LinearRegressionPredictionEngine(mockHistoryService);
+            const rate = engine.predictBurnRate("q1", 60, 5);
+
+            expect(rate).not.toBeNull();
+            expect(rate!.perHour).toBeGreaterThan(10);
+            expect(rate!.shortPerHour).toBeCloseTo(120, 5);
+            expect(rate!.shortWindowMinutes).toBe(5);
+        });
+
+        test("omits the short-window rate for long-term quotas", () => {
+            const now = Date.now();
+            historyData["q1"] = [
+                { timestamp: now - 2 * 60 * 60 * 1000, used: 10, limit: 100 },
+                { timestamp: now, used: 14, limit: 100 },
+            ];
+            const engine = new LinearRegressionPredictionEngine(mockHistoryService);
+
+            const rate = engine.predictBurnRate("q1", 60, 5, { windowMs: 7 * 24 * 60 * 60 * 1000 });
+
+            expect(rate!.perHour).toBeCloseTo(2, 5);
+            expect(rate!.shortPerHour).toBeUndefined();
+        });
+
+        test("reports zero once usage is idle", () => {
+            const now = Date.now();
+            historyData["q1"] = [
+                { timestamp: now - 20 * 60 * 1000, used: 0, limit: 100 },
+                { timestamp: now - 10 * 60 * 1000, used: 50, limit: 100 }
+            ];
+            const engine = new LinearRegressionPredictionEngine(mockHistoryService);
+
+            expect(engine.predictBurnRate("q1", 60, 5)).toEqual({ perHour: 0, shortPerHour: 0, shortWindowMinutes: 5 });
+        });
+    });
+
+    describe("predictTimeToLimitRange", () => {
+        const weekly = { windowMs: 7 * 24 * 60 * 60 * 1000 };
+
+        test("returns null without enough history", () => {
+            const engine = new LinearRegressionPredictionEngine(mockHistoryService);
+            expect(engine.predictTimeToLimitRange("unknown")).toBeNull();
+        });
+
+        test("collapses the range of a perfect fit and trusts it fully", () => {
+            const now = Date.now();
+            // 12 units per hour over ten readings
+            historyData["q1"] = Array.from({ length: 10 }, (_, i) => ({
+                timestamp: now - (9 - i) * 5 * 60_000, used: 10 + i, limit: 100
+            }));
+            const engine = new LinearRegressionPredictionEngine(mockHistoryService);
+
+            const prediction = engine.predictTimeToLimitRange("q1", 60, 5, weekly)!;
+
+            expect(prediction.expectedMs).toBeCloseTo(81 / 12 * 60 * 60 * 1000, -3);
+            expect(prediction.optimisticMs).toBeCloseTo(prediction.expectedMs, -3);
+            expect(prediction.pessimisticMs).toBeCloseTo(prediction.expectedMs, -3);
+            expect(prediction.confidence).toBeCloseTo(1, 5);
+            expect(engine.predictTimeToLimit("q1", 60, 5, weekly)).toBeCloseTo(prediction.expectedMs, -2);
+        });
+
+        test("widens the range and lowers confidence for noisy usage", () => {
+            const now = Date.now();
+            historyData["q1"] = Array.from({ length: 10 }, (_, i) => ({
+                timestamp: now - (9 - i) * 5 * 60_000, used: 10 + i + (i % 2 === 0 ? 2 : -2), limit: 100
+            }));
+            const engine = new LinearRegressionPredictionEngine(mockHistoryService);
+
+            const prediction = engine.predictTimeToLimitRange("q1", 60, 5, weekly)!;
+
+            expect(prediction.pessimisticMs).toBeLessThan(prediction.expectedMs);
+            expect(prediction.optimisticMs).toBeGreaterThan(prediction.expectedMs);
+            expect(prediction.confidence).toBeGreaterThan(0);
+            expect(prediction.confidence).toBeLessThan(1);
+        });
+
+        test("has no confidence in a line through two points", () => {
+            const now = Date.now();
+            historyData["q1"] = [
+                { timestamp: now - 10 * 60 * 1000, used: 40, limit: 100 },
+                { timestamp: now, used: 50, limit: 100 }
+            ];
+            const engine = new LinearRegressionPredictionEngine(mockHistoryService);
+
+            const prediction = engine.predictTimeToLimitRange("q1", 60, 5, weekly)!;
+
+            expect(prediction.expectedMs).toBeCloseTo(50 * 60 * 1000, -3);
+            expect(prediction.optimisticMs).toBe(Infinity);
+            expect(prediction.pessimisticMs).toBe(0);
+            expect(prediction.confidence).toBe(0);
+        });
+
+        test("reports the limit as reached with full confidence", () => {
+            const now = Date.now();
+            historyData["q1"] = [
+                { timestamp: now - 10 * 60 * 1000, used: 90, limit: 100 },
+                { timestamp: now, used: 100, limit: 100 }
+            ];
+            const engine = new LinearRegressionPredictionEngine(mockHistoryService);
+
+            expect(engine.predictTimeToLimitRange("q1")).toEqual({ expectedMs: 0, optimisticMs: 0, pessimisticMs: 0, confidence: 1 });
+        });
+
+        describe("with a reset instant", () => {
+            beforeEach(() => {
+                const now = Date.now();
+                // 50 minutes to the limit
+                historyData["q1"] = [
+                    { timestamp: now - 10 * 60 * 1000, used: 40, limit: 100 },
+                    { timestamp: now, used: 50, limit: 100 }
+                ];
+            });
+
+            test("reports the quota as safe when it resets first", () => {
+                const engine = new LinearRegressionPredictionEngine(mockHistoryService);
+                const context = { resetAt: Date.now() + 20 * 60 * 1000 };
+
+                expect(engine.predictTimeToLimitRange("q1", 60, 5, context)!.resetsFirst).toBe(true);
+                expect(engine.predictTimeToLimit("q1", 60, 5, context)).toBe(Infinity);
+            });
+
+            test("reports how long the quota stays blocked until the reset", () => {
+                const engine = new LinearRegressionPredictionEngine(mockHistoryService);
+                const context = { resetAt: Date.now() + 2 * 60 * 60 * 1000 };
+
+                const prediction = engine.predictTimeToLimitRange("q1", 60, 5, context)!;
+
+                expect(prediction.resetsFirst).toBeUndefined();
+                expect(prediction.blockedMs).toBeCloseTo(70 * 60 * 1000, -3);
+                expect(engine.predictTimeToLimit("q1", 60, 5, context)).toBeCloseTo(50 * 60 * 1000, -3);
+            });
+
+            test("ignores a reset instant in the past", () => {
+                const engine = new LinearRegressionPredictionEngine(mockHistoryService);
+                const prediction = engine.predictTimeToLimitRange("q1", 60, 5, { resetAt: Date.now() - 1000 })!;
+
+                expect(prediction.resetsFirst).toBeUndefined();
+                expect(prediction.blockedMs).toBeUndefined();
+            });
+        });
     });
 
     describe("calculateSlope", () => {
@@ -236,6 +437,224 @@ describe("LinearRegressionPredictionEngine", () => {
     });
 });
 
+const SMOOTHING_ENGINES: [string, new (historyService: IHistoryService, config?: PredictionEngineConfig) => IPredictionEngine][] = [
+    ["EwmaPredictionEngine", EwmaPredictionEngine],
+    ["HoltPredictionEngine", HoltPredictionEngine],
+];
+
+for (const [name, Engine] of SMOOTHING_ENGINES) {
+    describe(name, () => {
+        let mockHistoryService: IHistoryService;
+        let historyData: Record<string, HistoryPoint[]> = {};
+
+        beforeEach(() => {
+            historyData = {};
+            mockHistoryService = {
+                init: async () => {},
+                reload: async () => {},
+                append: async () => {},
+                getHistory: (id: string, windowMs: number) => {
+                    const now = Date.now();
+                    return (historyData[id] || []).filter(p => p.timestamp > now - windowMs);
+                },
+                getResetEvents: () => [],
+                setMaxAge: () => {},
+                setTiers: () => {},
+                setResetThreshold: () => {},
+                pruneAll: async () => {}
+            };
+        });
+
+        test("returns Infinity without enough history", () => {
+            const engine = new Engine(mockHistoryService);
+            expect(engine.predictTimeToLimit("unknown")).toBe(Infinity);
+
+            historyData["q1"] = [{ timestamp: Date.now(), used: 50, limit: 100 }];
+            expect(engine.predictTimeToLimit("q1")).toBe(Infinity);
+            expect(engine.predictBurnRate("q1")).toBeNull();
+        });
+
+        test("returns Infinity when usage is stable or decreasing", () => {
+            const now = Date.now();
+            const engine = new Engine(mockHistoryService);
+
+            historyData["stable"] = [
+                { timestamp: now - 60 * 60 * 1000, used: 50, limit: 100 },
+                { timestamp: now, used: 50, limit: 100 }
+            ];
+            historyData["decreasing"] = [
+                { timestamp: now - 10 * 60 * 1000, used: 80, limit: 100 },
+                { timestamp: now, used: 50, limit: 100 }
+            ];
+
+            expect(engine.predictTimeToLimit("stable")).toBe(Infinity);
+            expect(engine.predictTimeToLimit("decreasing")).toBe(Infinity);
+        });
+
+        test("returns Infinity and a zero rate when last point is older than idle timeout", () => {
+            const now = Date.now();
+            historyData["q1"] = [
+                { timestamp: now - 20 * 60 * 1000, used: 0, limit: 100 },
+                { timestamp: now - 10 * 60 * 1000, used: 50, limit: 100 }
+            ];
+            const engine = new Engine(mockHistoryService);
+
+            expect(engine.predictTimeToLimit("q1")).toBe(Infinity);
+            expect(engine.predictBurnRate("q1")).toEqual({ perHour: 0 });
+        });
+
+        test("returns 0 when usage already exceeds limit", () => {
+            const now = Date.now();
+            historyData["q1"] = [
+                { timestamp: now - 1000, used: 90, limit: 100 },
+                { timestamp: now, used: 105, limit: 100 }
+            ];
+            expect(new Engine(mockHistoryService).predictTimeToLimit("q1")).toBe(0);
+        });
+
+        test("returns Infinity for unlimited quotas", () => {
+            const now = Date.now();
+            historyData["q1"] = [
+                { timestamp: now - 1000, used: 50, limit: null },
+                { timestamp: now, used: 60, limit: null }
+            ];
+            historyData["q0"] = [
+                { timestamp: now - 1000, used: 50, limit: 0 },
+                { timestamp: now, used: 60, limit: 0 }
+            ];
+            const engine = new Engine(mockHistoryService);
+
+            expect(engine.predictTimeToLimit("q1")).toBe(Infinity);
+            expect(engine.predictTimeToLimit("q0")).toBe(Infinity);
+        });
+
+        test("predicts time correctly for steady usage", () => {
+            const now = Date.now();
+            // 10 units per minute steady usage
+            const history: HistoryPoint[] = [];
+            for (let i = 30; i >= 0; i--) {
+                history.push({ timestamp: now - i * 60 * 1000, used: (30 - i) * 10, limit: 1000 });
+            }
+            historyData["q1"] = history;
+
+            const engine = new Engine(mockHistoryService);
+
+            // Remaining: 700 units at 10/min = 70 minutes
+            expect(engine.predictTimeToLimit("q1")).toBeGreaterThan(60 * 60 * 1000);
+            expect(engine.predictTimeToLimit("q1")).toBeLessThan(80 * 60 * 1000);
+            expect(engine.predictBurnRate("q1")!.perHour).toBeCloseTo(600, 5);
+        });
+
+        test("brackets its expected time with the range of the same points", () => {
+            const now = Date.now();
+            historyData["q1"] = Array.from({ length: 31 }, (_, i) => ({
+                timestamp: now - (30 - i) * 60 * 1000, used: i * 10 + (i % 2 === 0 ? 5 : -5), limit: 1000
+            }));
+
+            const engine = new Engine(mockHistoryService);
+            const prediction = engine.predictTimeToLimitRange("q1")!;
+
+            expect(prediction.expectedMs).toBeCloseTo(engine.predictTimeToLimit("q1"), -2);
+            expect(prediction.pessimisticMs).toBeLessThanOrEqual(prediction.expectedMs);
+            expect(prediction.optimisticMs).toBeGreaterThanOrEqual(prediction.expectedMs);
+            expect(prediction.confidence).toBeGreaterThan(0.5);
+        });
+
+        test("reacts to a sustained usage spike", () => {
+            const now = Date.now();
+            // 50 mins of slow usage (2 units/min), then 10 mins of fast (50 units/min)
+            const history: HistoryPoint[] = [];
+            for (let i = 60; i > 10; i--) {
+                history.push({ timestamp: now - i * 60 * 1000, used: (60 - i) * 2, limit: 1000 });
+            }
+            const usedAtBurstStart = (60 - 11) * 2;
+            for (let i = 10; i >= 0; i--) {
+                history.push({ timestamp: now - i * 60 * 1000, used: usedAtBurstStart + (10 - i) * 50, limit: 1000 });
+            }
+            historyData["q1"] = history;
+
+            // Slow usage alone would take over 4 hours to reach the limit
+            expect(new Engine(mockHistoryService).predictTimeToLimit("q1")).toBeLessThan(60 * 60 * 1000);
+        });
+
+        test("requests the whole window of long-term quotas", () => {
+            const requested: number[] = [];
+            mockHistoryService.getHistory = (_id, windowMs) => {
+                requested.push(windowMs);
+                return [];
+            };
+            const weekMs = 7 * 24 * 60 * 60 * 1000;
+            const engine = new Engine(mockHistoryService);
+
+            engine.predictTimeToLimit("q1", 60, 5, { windowMs: weekMs });
+            engine.predictTimeToLimit("q1", 60, 5, { windowMs: 5 * 60 * 60 * 1000 });
+
+            expect(requested).toEqual([weekMs, 60 * 60 * 1000]);
+        });
+    });
+}
+
+describe("Bursty sessions", () => {
+    const start = 1_700_000_000_000;
+    let now = start;
+    let points: HistoryPoint[] = [];
+    const historyService: IHistoryService = {
+        init: async () => {},
+        reload: async () => {},
+        append: async () => {},
+        getHistory: (_id: string, windowMs: number) => points.filter(p => p.timestamp <= now && p.timestamp > now - windowMs),
+        getResetEvents: () => [],
+        setMaxAge: () => {},
+        setTiers: () => {},
+        setResetThreshold: () => {},
+        pruneAll: async () => {}
+    };
+
+    beforeEach(() => {
+        spyOn(Date, "now").mockImplementation(() => now);
+        // Two-minute bursts of 40 units/min every five minutes for two hours
+        points = [];
+        let used = 0;
+        for (let minute = 0; minute <= 120; minute++) {
+            if (minute > 0 && minute % 5 < 2) used += 40;
+            points.push({ timestamp: start + minute * 60_000, used, limit: 10_000 });
+        }
+    });
+
+    afterEach(() => {
+        mock.restore();
+    });
+
+    /**
+     * Ratio of the longest to the shortest ETTL predicted once a minute over the last half hour.
+     */
+    function ettlSpread(engine: IPredictionEngine): number {
+        const predictions: number[] = [];
+        for (let minute = 90; minute <= 120; minute++) {
+            now = start + minute * 60_000;
+            predictions.push(engine.predictTimeToLimit("q1"));
+        }
+        return Math.max(...predictions) / Math.min(...predictions);
+    }
+
+    test("smoothing engines keep the ETTL steadier than the max-of-two-slopes regression", () => {
+        const linear = ettlSpread(new LinearRegressionPredictionEngine(historyService));
+
+        expect(linear).toBeGreaterThan(1.4);
+        expect(ettlSpread(new EwmaPredictionEngine(historyService))).toBeLessThan(1.25);
+        expect(ettlSpread(new HoltPredictionEngine(historyService))).toBeLessThan(1.15);
+    });
+});
+
+describe("createPredictionEngine", () => {
+    test("creates the engine for each type", () => {
+        const historyService = {} as IHistoryService;
+        expect(createPredictionEngine("linear", historyService)).toBeInstanceOf(LinearRegressionPredictionEngine);
+        expect(createPredictionEngine("ewma", historyService)).toBeInstanceOf(EwmaPredictionEngine);
+        expect(createPredictionEngine("holt", historyService)).toBeInstanceOf(HoltPredictionEngine);
+    });
+});
+
 describe("NullPredictionEngine", () => {
     test("always returns Infinity", () => {
         const engine = new NullPredictionEngine();
@@ -243,4 +662,25 @@ describe("NullPredictionEngine", () => {
         expect(engine.predictTimeToLimit("another-id", 120)).toBe(Infinity);
         expect(engine.predictTimeToLimit("third-id", 60, 10)).toBe(Infinity);
     });
+
+    test("has no time-to-limit range", () => {
+        expect(new NullPredictionEngine().predictTimeToLimitRange("any-id")).toBeNull();
+    });
+
+    test("has no burn rate", () => {
+        expect(new NullPredictionEngine().predictBurnRate("any-id")).toBeNull();
+    });
+});
+
+describe("isLongTermWindow", () => {
+    test("uses numeric windowMs when available", () => {
+        expect(isLongTermWindow({ windowMs: 7 * 24 * 60 * 60 * 1000 })).toBe(true);
+        expect(isLongTermWindow({ windowMs: 5 * 60 * 60 * 1000, windowInfo: "Weekly" })).toBe(false);
+    });
+
+    test("falls back to window description", () => {
+        expect(isLongTermWindow({ windowInfo: "Monthly" })).toBe(true);
+        expect(isLongTermWindow({ windowInfo: "5h window" })).toBe(false);
+        expect(isLongTermWindow()).toBe(false);
+    });
 });
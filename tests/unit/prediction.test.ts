@@ -10,12 +10,15 @@ describe("ETTL Prediction (Unit)", () => {
         historyData = {};
         mockHistoryService = {
             init: async () => {},
+            reload: async () => {},
             append: async () => {},
             getHistory: (id: string, windowMs: number) => {
                 const now = Date.now();
                 return (historyData[id] || []).filter(p => p.timestamp > now - windowMs);
             },
+            getResetEvents: () => [],
             setMaxAge: () => {},
+            setTiers: () => {},
             setResetThreshold: () => {},
             pruneAll: async () => {}
         };
@@ -1,5 +1,5 @@
 import { expect, test, describe } from "bun:test";
-import { renderQuotaBarParts } from "../../src/ui/progress-bar";
+import { renderQuotaBarParts, renderSparkline } from "../../src/ui/progress-bar";
 
 describe("Progress Bar Rendering", () => {
   test("renders basic bar at 50%", () => {
@@ -86,4 +86,54 @@ describe("Progress Bar Rendering", () => {
     expect(parts.percent).toContain("70%");
     expect(parts.valuePart).toContain("(70/100 GB)");
   });
+
+  test("marks the pace position on the bar", () => {
+    const behind = renderQuotaBarParts(30, 100, { label: "", unit: "%", config: { width: 10 }, paceRatio: 0.6 });
+    const ahead = renderQuotaBarParts(80, 100, { label: "", unit: "%", config: { width: 10 }, paceRatio: 0.25 });
+    const end = renderQuotaBarParts(100, 100, { label: "", unit: "%", config: { width: 10 }, paceRatio: 1 });
+
+    expect(behind.bar).toBe("███░░░│░░░");
+    expect(ahead.bar).toBe("██│█████░░");
+    expect(end.bar).toBe("█████████│");
+  });
+
+  test("mirrors the pace marker in 'available' mode and can hide it", () => {
+    const available = renderQuotaBarParts(30, 100, {
+      label: "", unit: "%", config: { width: 10, show: "available" }, paceRatio: 0.6,
+    });
+    const hidden = renderQuotaBarParts(30, 100, {
+      label: "", unit: "%", config: { width: 10, paceChar: "" }, paceRatio: 0.6,
+    });
+
+    expect(available.bar).toBe("████│██░░░");
+    expect(hidden.bar).toBe("███░░░░░░░");
+  });
+});
+
+describe("Sparkline Rendering", () => {
+  test("scales samples from zero to the limit", () => {
+    expect(renderSparkline([0, 25, 50, 75, 100, 150], 100, { color: false })).toBe("▁▂▃▅▇▇");
+  });
+
+  test("leaves missing samples blank", () => {
+    expect(renderSparkline([null, null, 50, 100], 100, { color: false })).toBe("  ▃▇");
+  });
+
+  test("scales unlimited quotas to their highest sample", () => {
+    expect(renderSparkline([10, 20, 40], null, { color: false })).toBe("▂▃▇");
+  });
+
+  test("colors each sample by its gradient level", () => {
+    process.env.FORCE_COLOR = "1";
+    const line = renderSparkline([30, 90], 100, {
+      color: true,
+      gradients: [
+        { threshold: 0.5, color: "green" },
+        { threshold: 1.0, color: "red" },
+      ],
+    });
+    delete process.env.FORCE_COLOR;
+
+    expect(line).toBe("\x1b[32m▂\x1b[0m\x1b[31m▇\x1b[0m");
+  });
 });
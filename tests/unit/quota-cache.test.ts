@@ -1,6 +1,10 @@
-import { test, expect } from "bun:test";
+import { test, expect, describe, afterEach, spyOn, mock } from "bun:test";
+import { mkdtemp, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import { QuotaCache } from "../../src/quota-cache";
-import { type IQuotaProvider } from "../../src/interfaces";
+import { PollerLock } from "../../src/poller-lock";
+import { type IQuotaProvider, type IHistoryService } from "../../src/interfaces";
 
 test("refresh coalesces concurrent calls into a single provider fetch", async () => {
     let fetchCount = 0;
@@ -51,3 +55,311 @@ test("subsequent refresh after completion triggers another fetch", async () => {
     await cache.refresh();
     expect(fetchCount).toBe(2);
 });
+
+describe("QuotaCache - per-provider scheduling", () => {
+    afterEach(() => {
+        mock.restore();
+    });
+
+    test("keeps the last good data of a failing provider and flags it as stale", async () => {
+        let failing = false;
+        const flaky: IQuotaProvider = {
+            id: "flaky",
+            fetchQuota: async () => {
+                if (failing) throw new Error("boom");
+                return [{ id: "flaky-q", providerName: "Flaky", used: 10, limit: 100, unit: "%" }];
+            },
+        };
+        const healthy: IQuotaProvider = {
+            id: "healthy",
+            fetchQuota: async () => [{ id: "healthy-q", providerName: "Healthy", used: 5, limit: 100, unit: "%" }],
+        };
+        const appended: string[][] = [];
+        const historyService = {
+            append: async (data: { id: string }[]) => { appended.push(data.map(d => d.id)); },
+        } as unknown as IHistoryService;
+
+        const cache = new QuotaCache([flaky, healthy], { historyService });
+        await cache.refresh();
+        failing = true;
+        await cache.refresh();
+
+        const data = cache.getSnapshot().data;
+        expect(data.map(d => d.id)).toEqual(["flaky-q", "healthy-q"]);
+        expect(data[0].stale).toBe(true);
+        expect(data[0].used).toBe(10);
+        expect(data[1].stale).toBeUndefined();
+
+        // Stale rows are not written to history again
+        expect(appended).toEqual([["flaky-q", "healthy-q"], ["healthy-q"]]);
+    });
+
+    test("backs off exponentially while a provider keeps failing", async () => {
+        let fetchCount = 0;
+        const provider: IQuotaProvider = {
+            id: "down",
+            fetchQuota: async () => {
+                fetchCount++;
+                throw new Error("unavailable");
+            },
+        };
+        const t0 = 1_700_000_000_000;
+        const now = spyOn(Date, "now").mockReturnValue(t0);
+        // Upper end of the jitter range, so delays are exactly interval * 2^(failures-1)
+        spyOn(Math, "random").mockReturnValue(1);
+
+        const cache = new QuotaCache([provider], { refreshIntervalMs: 1_000, maxBackoffMs: 4_000 });
+        await cache.refresh(); // failure 1 -> retry after 1s
+        expect(fetchCount).toBe(1);
+
+        now.mockReturnValue(t0 + 1_000);
+        await cache.refreshDue(); // failure 2 -> retry after 2s
+        expect(fetchCount).toBe(2);
+
+        now.mockReturnValue(t0 + 2_500);
+        await cache.refreshDue();
+        expect(fetchCount).toBe(2);
+
+        now.mockReturnValue(t0 + 3_000);
+        await cache.refreshDue(); // failure 3 -> retry after 4s
+        now.mockReturnValue(t0 + 7_000);
+        await cache.refreshDue(); // failure 4 -> capped at 4s
+        expect(fetchCount).toBe(4);
+
+        now.mockReturnValue(t0 + 10_999);
+        await cache.refreshDue();
+        expect(fetchCount).toBe(4);
+
+        now.mockReturnValue(t0 + 11_000);
+        await cache.refreshDue();
+        expect(fetchCount).toBe(5);
+    });
+
+    test("refreshes each provider on its own interval", async () => {
+        const counts: Record<string, number> = { fast: 0, slow: 0 };
+        const makeProvider = (id: string): IQuotaProvider => ({
+            id,
+            fetchQuota: async () => {
+                counts[id]++;
+                return [{ id: `${id}-q`, providerName: id, used: 1, limit: 100, unit: "%" }];
+            },
+        });
+        const t0 = 1_700_000_000_000;
+        const now = spyOn(Date, "now").mockReturnValue(t0);
+
+        const cache = new QuotaCache([makeProvider("fast"), makeProvider("slow")], {
+            refreshIntervalMs: 60_000,
+            providerIntervals: { slow: 600_000 },
+        });
+        expect(cache.getProviderInterval("fast")).toBe(60_000);
+        expect(cache.getProviderInterval("slow")).toBe(600_000);
+
+        await cache.refresh();
+        now.mockReturnValue(t0 + 60_000);
+        await cache.refreshDue();
+        expect(counts).toEqual({ fast: 2, slow: 1 });
+
+        // Providers that were not refreshed keep their rows in the snapshot
+        expect(cache.getSnapshot().data.map(d => d.id)).toEqual(["fast-q", "slow-q"]);
+
+        now.mockReturnValue(t0 + 600_000);
+        await cache.refreshDue();
+        expect(counts).toEqual({ fast: 3, slow: 2 });
+    });
+
+});
+
+describe("QuotaCache - provider status", () => {
+    test("reports a status per provider in the snapshot", async () => {
+        let codexError: Error | null = null;
+        const codex: IQuotaProvider = {
+            id: "codex",
+            name: "Codex",
+            authHint: "run opencode auth login",
+            fetchQuota: async () => {
+                if (codexError) throw codexError;
+                return [{ id: "codex-primary", providerName: "Codex Primary", used: 10, limit: 100, unit: "%" }];
+            },
+        };
+        const broken: IQuotaProvider = {
+            id: "broken",
+            fetchQuota: async () => {
+                throw new Error("broken quota response is not valid JSON");
+            },
+        };
+
+        const cache = new QuotaCache([codex, broken]);
+        await cache.refresh();
+
+        const [codexStatus, brokenStatus] = cache.getSnapshot().providers;
+        expect(codexStatus).toMatchObject({ providerId: "codex", providerName: "Codex", status: "ok" });
+        expect(codexStatus.lastSuccessAt).toBeNumber();
+        expect(brokenStatus).toEqual({
+            providerId: "broken",
+            providerName: "broken",
+            status: "parse_error",
+            message: "broken quota response is not valid JSON",
+            lastSuccessAt: undefined,
+        });
+
+        // Transient failures with last good data degrade to stale
+        codexError = new Error("fetch failed");
+        await cache.refresh();
+        expect(cache.getSnapshot().providers[0]).toMatchObject({ status: "stale", message: "fetch failed" });
+        expect(cache.getSnapshot().providers[0].authHint).toBeUndefined();
+
+        // Auth failures are reported even though the old rows are still served
+        codexError = new Error("quota request failed (401)");
+        codexError.cause = { status: 401 };
+        await cache.refresh();
+        expect(cache.getSnapshot().providers[0]).toMatchObject({
+            status: "auth_error",
+            lastSuccessAt: codexStatus.lastSuccessAt,
+            authHint: "run opencode auth login",
+        });
+        expect(cache.getSnapshot().data[0].stale).toBe(true);
+    });
+});
+
+describe("QuotaCache - persisted snapshot", () => {
+    let tempDir: string | undefined;
+
+    afterEach(async () => {
+        if (tempDir) await rm(tempDir, { recursive: true, force: true });
+        tempDir = undefined;
+    });
+
+    test("persists provider data and serves it as stale after a restart", async () => {
+        tempDir = await mkdtemp(join(tmpdir(), "quota-snapshot-"));
+        const snapshotPath = join(tempDir, "nested", "quota-snapshot.json");
+        let resolveFetch: (() => void) | null = null;
+        let used = 25;
+        const provider: IQuotaProvider = {
+            id: "codex",
+            fetchQuota: async () => {
+                if (resolveFetch === null) {
+                    await new Promise<void>((resolve) => { resolveFetch = resolve; });
+                }
+                return [{ id: "codex-primary", providerName: "Codex Primary", used, limit: 100, unit: "%" }];
+            },
+        };
+
+        // First process: fetch once and persist
+        resolveFetch = () => {};
+        const first = new QuotaCache([provider], { snapshotPath });
+        await first.refresh();
+        const firstFetchedAt = first.getSnapshot().data[0].fetchedAt;
+        await new Promise((r) => setTimeout(r, 10));
+        const persisted = JSON.parse(await readFile(snapshotPath, "utf-8"));
+        expect(persisted.version).toBe(1);
+        expect(persisted.providers.codex.data[0].used).toBe(25);
+
+        // Second process: the persisted rows are available before the slow first refresh finishes
+        resolveFetch = null;
+        used = 30;
+        const second = new QuotaCache([provider], { snapshotPath });
+        await second.start();
+        second.stop();
+
+        const restored = second.getSnapshot();
+        expect(restored.fetchedAt).toBeNull();
+        expect(restored.data).toHaveLength(1);
+        expect(restored.data[0]).toMatchObject({ used: 25, stale: true, fetchedAt: firstFetchedAt });
+        expect(restored.providers[0]).toMatchObject({ providerId: "codex", status: "stale", lastSuccessAt: firstFetchedAt });
+
+        resolveFetch!();
+        await second.refresh();
+        expect(second.getSnapshot().data[0].used).toBe(30);
+        expect(second.getSnapshot().data[0].stale).toBeUndefined();
+        expect(second.getSnapshot().providers[0].status).toBe("ok");
+    });
+
+    test("keeps the newest snapshot when refreshes persist back to back", async () => {
+        tempDir = await mkdtemp(join(tmpdir(), "quota-snapshot-"));
+        const snapshotPath = join(tempDir, "quota-snapshot.json");
+        let used = 0;
+        const provider: IQuotaProvider = {
+            id: "codex",
+            fetchQuota: async () => [{ id: "codex-primary", providerName: "Codex Primary", used: ++used, limit: 100, unit: "%" }],
+        };
+
+        const cache = new QuotaCache([provider], { snapshotPath });
+        for (let i = 0; i < 5; i++) await cache.refresh();
+        await new Promise((r) => setTimeout(r, 50));
+
+        const persisted = JSON.parse(await readFile(snapshotPath, "utf-8"));
+        expect(persisted.providers.codex.data[0].used).toBe(5);
+        expect(await readdir(tempDir)).toEqual(["quota-snapshot.json"]);
+    });
+
+    test("ignores unreadable snapshots and unknown providers", async () => {
+        tempDir = await mkdtemp(join(tmpdir(), "quota-snapshot-"));
+        const snapshotPath = join(tempDir, "quota-snapshot.json");
+        const provider: IQuotaProvider = { id: "codex", fetchQuota: async () => [] };
+
+        await writeFile(snapshotPath, "{ not json");
+        const corrupt = new QuotaCache([provider], { snapshotPath, refreshIntervalMs: 60_000 });
+        await corrupt.start();
+        corrupt.stop();
+        expect(corrupt.getSnapshot().data).toEqual([]);
+
+        await writeFile(snapshotPath, JSON.stringify({
+            version: 1,
+            savedAt: 0,
+            providers: { other: { lastSuccessAt: 1, data: [{ id: "x", providerName: "X", used: 1, limit: 2, unit: "" }] } },
+        }));
+        const unknown = new QuotaCache([provider], { snapshotPath });
+        await unknown.start();
+        unknown.stop();
+        expect(unknown.getSnapshot().data).toEqual([]);
+    });
+
+    test("serves the lock holder's snapshot instead of polling when another cache holds the lock", async () => {
+        tempDir = await mkdtemp(join(tmpdir(), "quota-snapshot-"));
+        const snapshotPath = join(tempDir, "quota-snapshot.json");
+        const lockPath = join(tempDir, "quota-poller.lock");
+        const fetches: string[] = [];
+        const makeProvider = (owner: string): IQuotaProvider => ({
+            id: "codex",
+            fetchQuota: async () => {
+                fetches.push(owner);
+                return [{ id: "codex-primary", providerName: "Codex Primary", used: 10, limit: 100, unit: "%" }];
+            },
+        });
+        let reloads = 0;
+        let inits = 0;
+        const historyService = {
+            append: async () => {},
+            init: async () => { inits++; },
+            reload: async () => { reloads++; },
+        } as unknown as IHistoryService;
+
+        const leader = new QuotaCache([makeProvider("leader")], { snapshotPath, lock: new PollerLock(lockPath) });
+        const follower = new QuotaCache([makeProvider("follower")], {
+            snapshotPath,
+            lock: new PollerLock(lockPath),
+            historyService,
+        });
+
+        await leader.refresh();
+        await new Promise((r) => setTimeout(r, 10));
+        await follower.refresh();
+
+        expect(fetches).toEqual(["leader"]);
+        expect(reloads).toBe(1);
+        expect(inits).toBe(0);
+        expect(follower.getSnapshot().data).toEqual(leader.getSnapshot().data);
+        expect(follower.getSnapshot().providers).toEqual(leader.getSnapshot().providers);
+
+        // Once the leader stops, the follower takes over polling
+        leader.stop();
+        await new Promise((r) => setTimeout(r, 10));
+        await follower.refresh();
+        expect(fetches).toEqual(["leader", "follower"]);
+        // Taking the lock lets the follower repair and migrate the history log
+        expect(inits).toBe(1);
+        await follower.refresh();
+        expect(inits).toBe(1);
+        follower.stop();
+    });
+});
@@ -168,4 +168,71 @@ describe("QuotaService - filterByModel fuzzy matching", () => {
         const filtered: QuotaData[] = (service as any).filterByModel(quotas, "codex", "unknown-model");
         expect(filtered.map(q => q.id)).toEqual(["codex-q"]);
     });
+
+    test("aggregated groups keep their source quotas", () => {
+        const service = new QuotaService({
+            aggregatedGroups: [{ id: "grp", name: "Group", sources: ["s1", "s2"], strategy: "max" }],
+        });
+
+        const quotas: QuotaData[] = [
+            { id: "s1", providerName: "P", used: 1, limit: 10, unit: "u" },
+            { id: "s2", providerName: "P", used: 5, limit: 10, unit: "u" },
+        ];
+
+        const processed = service.processQuotas(quotas);
+        expect(processed).toHaveLength(1);
+        expect(processed[0].id).toBe("grp");
+        expect(processed[0].sources?.map(q => q.id)).toEqual(["s1", "s2"]);
+    });
+});
+
+describe("QuotaService - multi-account quotas", () => {
+    test("aggregates multi-account quotas per account without matching on the account label", () => {
+        const service = new QuotaService({
+            aggregatedGroups: [
+                { id: "ag-flash", name: "Antigravity Flash", patterns: ["flash"], providerId: "antigravity", strategy: "max" },
+                { id: "ag-pro", name: "Antigravity Pro", patterns: ["pro"], providerId: "antigravity", strategy: "max" },
+            ],
+            showUnaggregated: true,
+        });
+
+        const quotas: QuotaData[] = [
+            { id: "ag-raw-gemini-flash@alice-example-com", providerName: "Antigravity Gemini Flash", used: 100, limit: 100, unit: "%", account: "alice@example.com" },
+            { id: "ag-raw-gemini-flash@pro-dev-example-com", providerName: "Antigravity Gemini Flash", used: 20, limit: 100, unit: "%", account: "pro.dev@example.com" },
+            { id: "ag-raw-gemini-pro@alice-example-com", providerName: "Antigravity Gemini Pro", used: 30, limit: 100, unit: "%", account: "alice@example.com" },
+        ];
+
+        const results = service.processQuotas(quotas);
+
+        expect(results.map(q => [q.id, q.account, q.used])).toEqual([
+            ["ag-flash@alice-example-com", "alice@example.com", 100],
+            ["ag-flash@pro-dev-example-com", "pro.dev@example.com", 20],
+            ["ag-pro@alice-example-com", "alice@example.com", 30],
+        ]);
+        expect(results[1].sources?.map(q => q.id)).toEqual(["ag-raw-gemini-flash@pro-dev-example-com"]);
+    });
+
+    test("disabling an ID without account suffix hides it for every account", () => {
+        const service = new QuotaService({ disabled: ["ag-raw-gemini-flash"], aggregatedGroups: [], showUnaggregated: true });
+
+        const results = service.processQuotas([
+            { id: "ag-raw-gemini-flash@alice-example-com", providerName: "Antigravity Gemini Flash", used: 1, limit: 100, unit: "%", account: "alice@example.com" },
+            { id: "ag-raw-gemini-flash@bob-example-com", providerName: "Antigravity Gemini Flash", used: 1, limit: 100, unit: "%", account: "bob@example.com" },
+            { id: "ag-raw-gemini-pro@bob-example-com", providerName: "Antigravity Gemini Pro", used: 1, limit: 100, unit: "%", account: "bob@example.com" },
+        ]);
+
+        expect(results.map(q => q.id)).toEqual(["ag-raw-gemini-pro@bob-example-com"]);
+    });
+
+    test("recommends another account when a quota is exhausted", () => {
+        const service = new QuotaService({ aggregatedGroups: [], showUnaggregated: true });
+
+        const results = service.processQuotas([
+            { id: "ag-raw-gemini-flash@alice-example-com", providerName: "Antigravity Gemini Flash", used: 100, limit: 100, unit: "%", account: "alice@example.com" },
+            { id: "ag-raw-gemini-flash@bob-example-com", providerName: "Antigravity Gemini Flash", used: 28, limit: 100, unit: "%", account: "bob@example.com" },
+        ]);
+
+        expect(results[0].recommendation).toMatchObject({ account: "bob@example.com", remainingPercent: 72 });
+        expect(results[1].recommendation).toBeUndefined();
+    });
 });
@@ -1,5 +1,6 @@
 import { expect, test, describe, beforeEach, afterEach } from "bun:test";
 import { QuotaService } from "../../src/services/quota-service";
+import { type HistoryPoint, type IHistoryService } from "../../src/interfaces";
 import * as fs from "node:fs/promises";
 import * as path from "node:path";
 import { join } from "node:path";
@@ -84,6 +85,46 @@ describe("QuotaService", () => {
         expect(filtered[0].id).toBe("quota-1");
     });
 
+    test("samples recent history into the usage trend", async () => {
+        const now = Date.now();
+        const points: HistoryPoint[] = [
+            { timestamp: now - 45 * 60_000, used: 10, limit: 100 },
+            { timestamp: now - 25 * 60_000, used: 40, limit: 100 },
+            { timestamp: now - 1_000, used: 70, limit: 100 },
+        ];
+        let requestedWindow = 0;
+        const historyService: IHistoryService = {
+            init: async () => {},
+            reload: async () => {},
+            append: async () => {},
+            getHistory: (id: string, windowMs: number) => {
+                requestedWindow = windowMs;
+                return id === "quota-1" ? points : [];
+            },
+            getResetEvents: () => [],
+            setMaxAge: () => {},
+            setTiers: () => {},
+            setResetThreshold: () => {},
+            pruneAll: async () => {}
+        };
+        const service = new QuotaService({
+            showUnaggregated: true,
+            aggregatedGroups: [],
+            table: { trendWindowMinutes: 60, trendWidth: 6 }
+        });
+        await service.init(tempDir, historyService);
+
+        const processed = service.processQuotas([
+            { id: "quota-1", providerName: "A", used: 70, limit: 100, unit: "u" },
+            { id: "quota-2", providerName: "B", used: 20, limit: 100, unit: "u" },
+        ]);
+
+        expect(requestedWindow).toBe(60 * 60_000);
+        // 10-minute buckets: nothing before the first sample, gaps carry the last value forward
+        expect(processed.find(q => q.id === "quota-1")?.usageTrend).toEqual([null, 10, 10, 40, 40, 70]);
+        expect(processed.find(q => q.id === "quota-2")?.usageTrend).toBeUndefined();
+    });
+
     test("invalid pollingInterval in config falls back to default", async () => {
         const opencodeDir = join(tempDir, ".opencode");
         await fs.mkdir(opencodeDir, { recursive: true });
@@ -1,6 +1,6 @@
 import { expect, test, describe } from "bun:test";
-import { renderQuotaTable } from "../../src/ui/quota-table";
-import { type QuotaData } from "../../src/interfaces";
+import { renderQuotaTable, formatRecommendation, formatProviderStatus, formatRate } from "../../src/ui/quota-table";
+import { type ProviderStatus, type QuotaData } from "../../src/interfaces";
 
 describe("Quota Table Rendering", () => {
     test("aligns structured columns", () => {
@@ -136,6 +136,48 @@ describe("Quota Table Rendering", () => {
         expect(rows[2].line).not.toContain("(predicted)");
     });
 
+    test("computes reset cell from resetAt at render time", () => {
+        const quotas: QuotaData[] = [
+            {
+                id: "1",
+                providerName: "P1",
+                used: 50,
+                limit: 100,
+                unit: "%",
+                resetAt: Date.now() + (2 * 60 + 15) * 60 * 1000 + 500,
+                reset: "resets in 9h 0m",
+            },
+        ];
+
+        const rows = renderQuotaTable(quotas, {
+            tableConfig: { columns: ["name", "reset"] }
+        });
+
+        // resetAt takes precedence over the legacy string
+        expect(rows[2].line).toContain("2h 15m");
+        expect(rows[2].line).not.toContain("9h");
+    });
+
+    test("falls back to legacy reset string", () => {
+        const quotas: QuotaData[] = [
+            {
+                id: "1",
+                providerName: "P1",
+                used: 50,
+                limit: 100,
+                unit: "%",
+                reset: "resets in 3h 5m",
+            },
+        ];
+
+        const rows = renderQuotaTable(quotas, {
+            tableConfig: { columns: ["name", "reset"] }
+        });
+
+        expect(rows[2].line).toContain("3h 5m");
+        expect(rows[2].line).not.toContain("resets in");
+    });
+
     test("normalizes names by replacing underscores with spaces", () => {
         const quotas: QuotaData[] = [
             {
@@ -154,4 +196,244 @@ describe("Quota Table Rendering", () => {
         expect(rows[2].line).toContain("Antigravity chat 20706");
         expect(rows[2].line).not.toContain("_");
     });
+
+    test("shows the account label next to the quota name", () => {
+        const quotas: QuotaData[] = [
+            { id: "ag-flash@alice-example-com", providerName: "Antigravity Flash", used: 10, limit: 100, unit: "%", account: "alice@example.com" },
+        ];
+
+        const rows = renderQuotaTable(quotas, { tableConfig: { columns: ["name"] } });
+
+        expect(rows[2].line).toContain("Antigravity Flash (alice@example.com)");
+    });
+
+    test("adds the info column with an account recommendation in simple mode", () => {
+        const quotas: QuotaData[] = [
+            {
+                id: "ag-flash@alice-example-com",
+                providerName: "Antigravity Flash",
+                used: 100,
+                limit: 100,
+                unit: "%",
+                account: "alice@example.com",
+                recommendation: {
+                    familyId: "ag-flash",
+                    name: "Antigravity Flash",
+                    account: "bob@example.com",
+                    quotaId: "ag-flash@bob-example-com",
+                    remainingPercent: 72,
+                },
+            },
+        ];
+
+        const rows = renderQuotaTable(quotas, { displayMode: "simple" });
+
+        expect(rows[0].line).toContain("INFO");
+        expect(rows[2].line).toContain("switch to bob@… (72% left)");
+        expect(formatRecommendation(quotas[0].recommendation!)).toBe("switch to bob@… (72% left)");
+    });
+
+    test("renders placeholder rows for failing providers", () => {
+        const quotas: QuotaData[] = [
+            { id: "ag-flash", providerName: "Antigravity Flash", used: 10, limit: 100, unit: "%" },
+        ];
+        const providerStatuses: ProviderStatus[] = [
+            { providerId: "antigravity", providerName: "Antigravity", status: "ok", lastSuccessAt: 1 },
+            { providerId: "copilot", providerName: "GitHub Copilot", status: "stale", message: "timeout", lastSuccessAt: 1 },
+            { providerId: "codex", providerName: "Codex", status: "auth_error", message: "quota request failed (401)", lastSuccessAt: 1, authHint: "run opencode auth login" },
+        ];
+
+        const rows = renderQuotaTable(quotas, { providerStatuses });
+
+        expect(rows).toHaveLength(4);
+        expect(rows[3]).toEqual({
+            id: "codex",
+            providerName: "Codex",
+            line: "Codex — authentication failed, run opencode auth login",
+        });
+        expect(formatProviderStatus({ providerId: "gateway", providerName: "Gateway", status: "auth_error" }))
+            .toBe("Gateway — authentication failed");
+        expect(formatProviderStatus({ ...providerStatuses[2], status: "network_error" }))
+            .toBe("Codex — unreachable, retrying");
+    });
+
+    test("renders only placeholder rows when no quotas are available", () => {
+        const rows = renderQuotaTable([], {
+            providerStatuses: [{ providerId: "codex", providerName: "Codex", status: "parse_error", message: "bad json" }],
+        });
+
+        expect(rows.map(r => r.line)).toEqual(["Codex — unexpected response, see debug log"]);
+        expect(renderQuotaTable([], { displayMode: "hidden", providerStatuses: [] })).toEqual([]);
+    });
+
+    test("marks rows older than staleAfterMs with their age", () => {
+        const now = Date.now();
+        const quotas: QuotaData[] = [
+            { id: "old", providerName: "Old", used: 10, limit: 100, unit: "%", fetchedAt: now - 14 * 60_000 - 1_000 },
+            { id: "new", providerName: "New", used: 10, limit: 100, unit: "%", fetchedAt: now - 60_000 },
+        ];
+
+        const rows = renderQuotaTable(quotas, { tableConfig: { columns: ["name"] }, staleAfterMs: 10 * 60_000 });
+
+        expect(rows[2].line).toBe("Old (14m ago)");
+        expect(rows[3].line.trim()).toBe("New");
+        expect(renderQuotaTable(quotas, { tableConfig: { columns: ["name"] } })[2].line.trim()).toBe("Old");
+    });
+
+    describe("displayMode", () => {
+        const group: QuotaData = {
+            id: "group",
+            providerName: "Group",
+            used: 80,
+            limit: 100,
+            unit: "%",
+            window: "5h window",
+            sources: [
+                { id: "src-a", providerName: "Source A", used: 80, limit: 100, unit: "%" },
+                { id: "src-b", providerName: "Source B", used: 20, limit: 100, unit: "%" },
+            ],
+        };
+
+        test("simple mode renders compact columns without sources", () => {
+            const rows = renderQuotaTable([group], { displayMode: "simple" });
+
+            expect(rows).toHaveLength(3);
+            expect(rows[0].line).not.toContain("WINDOW");
+            expect(rows[0].line).not.toContain("VALUE");
+        });
+
+        test("detailed mode renders every column and source rows", () => {
+            const rows = renderQuotaTable([group], { displayMode: "detailed" });
+
+            expect(rows[0].line).toContain("VALUE");
+            expect(rows[0].line).toContain("WINDOW");
+            expect(rows[0].line).toContain("INFO");
+            expect(rows.map((r) => r.id)).toEqual(["header", "sep", "group", "src-a", "src-b"]);
+            expect(rows[3].line).toContain("└ Source A");
+            expect(rows[2].line).toContain("5h window");
+        });
+
+        test("detailed mode renders the usage trend", () => {
+            const rows = renderQuotaTable([{ ...group, usageTrend: [null, 10, 50, 90] }], { displayMode: "detailed" });
+
+            expect(rows[0].line).toContain("TREND");
+            expect(rows[2].line).toContain(" ▁▃▇");
+        });
+
+        test("simple rate column shows the long-window rate", () => {
+            const burnRate = { perHour: 12.4, shortPerHour: 40, shortWindowMinutes: 5 };
+            const rows = renderQuotaTable([{ ...group, burnRate }], {
+                displayMode: "simple",
+                tableConfig: { columns: ["name", "rate"] },
+            });
+
+            expect(rows[0].line).toContain("RATE");
+            expect(rows[2].line).toContain("+12%/h");
+            expect(rows[2].line).not.toContain("+40%/h");
+        });
+
+        test("detailed mode adds the short-window rate", () => {
+            const burnRate = { perHour: 12.4, shortPerHour: 40, shortWindowMinutes: 5 };
+            const rows = renderQuotaTable([{ ...group, burnRate }], { displayMode: "detailed" });
+
+            expect(rows[2].line).toContain("+12%/h (5m +40%/h)");
+            // Sources without history show a placeholder
+            expect(rows[3].line).toMatch(/\s-\s/);
+        });
+
+        test("detailed mode shows the ETTL range", () => {
+            const prediction = { expectedMs: 40 * 60_000, optimisticMs: 70 * 60_000, pessimisticMs: 25 * 60_000, confidence: 0.8 };
+            const rows = renderQuotaTable([{ ...group, prediction }], { displayMode: "detailed" });
+
+            expect(rows[2].line).toContain(" 40m (25m–1h 10m)");
+            expect(rows[2].line).not.toContain("~");
+        });
+
+        test("detailed mode leaves out a range without finite bounds", () => {
+            const prediction = { expectedMs: 40 * 60_000, optimisticMs: Infinity, pessimisticMs: 0, confidence: 0.2 };
+            const rows = renderQuotaTable([{ ...group, prediction }], { displayMode: "detailed" });
+
+            expect(rows[2].line).toContain("~40m");
+            expect(rows[2].line).not.toContain("(now");
+            expect(rows[2].line).not.toContain("∞");
+        });
+
+        test("simple mode marks low-confidence ETTL as an estimate", () => {
+            const prediction = { expectedMs: 40 * 60_000, optimisticMs: 70 * 60_000, pessimisticMs: 25 * 60_000, confidence: 0.8 };
+            const columns = { columns: ["name", "ettl"] };
+            const confident = renderQuotaTable([{ ...group, prediction }], { displayMode: "simple", tableConfig: columns });
+            const unsure = renderQuotaTable([{ ...group, prediction: { ...prediction, confidence: 0.3 } }], {
+                displayMode: "simple",
+                tableConfig: columns,
+            });
+
+            expect(confident[2].line).toMatch(/\s40m\s*$/);
+            expect(unsure[2].line).toContain("~40m");
+            expect(unsure[2].line).not.toContain("25m");
+        });
+
+        test("shows a safe state for quotas that reset before their limit", () => {
+            const prediction = { expectedMs: 6 * 60 * 60_000, optimisticMs: Infinity, pessimisticMs: 4 * 60 * 60_000, confidence: 0.9, resetsFirst: true };
+            const rows = renderQuotaTable([{ ...group, prediction }], { displayMode: "detailed" });
+
+            expect(rows[2].line).toContain("safe until reset");
+            expect(rows[2].line).not.toContain("6h");
+        });
+
+        test("shows how long an exhausted quota stays blocked", () => {
+            const prediction = { expectedMs: 40 * 60_000, optimisticMs: 70 * 60_000, pessimisticMs: 25 * 60_000, confidence: 0.8, blockedMs: 80 * 60_000 };
+            const simple = renderQuotaTable([{ ...group, prediction }], {
+                displayMode: "simple",
+                tableConfig: { columns: ["name", "ettl"] },
+            });
+            const detailed = renderQuotaTable([{ ...group, prediction }], { displayMode: "detailed" });
+
+            expect(simple[2].line).toContain("40m, blocked 1h 20m");
+            expect(detailed[2].line).toContain(" 40m (25m–1h 10m), blocked 1h 20m");
+        });
+
+        test("detailed mode shows the pace and marks it on the bar", () => {
+            const windowed = { ...group, used: 58, windowMs: 5 * 60 * 60_000, resetAt: Date.now() + 3 * 60 * 60_000 - 30_000, sources: undefined };
+            const rows = renderQuotaTable([windowed], { displayMode: "detailed" });
+
+            expect(rows[0].line).toContain("PACE");
+            expect(rows[2].line).toContain("ahead +18%");
+            expect(rows[2].line).toContain("████████│███░░░░░░░░");
+        });
+
+        test("pace column shows a placeholder without a known window", () => {
+            const rows = renderQuotaTable([group], { tableConfig: { columns: ["name", "bar", "pace"] } });
+
+            expect(rows[2].line).toContain("████████████████░░░░   -");
+        });
+
+        test("explicit columns apply to simple mode but not detailed mode", () => {
+            const simple = renderQuotaTable([group], {
+                displayMode: "simple",
+                tableConfig: { columns: ["name"] },
+            });
+            const detailed = renderQuotaTable([group], {
+                displayMode: "detailed",
+                tableConfig: { columns: ["name"] },
+            });
+
+            expect(simple[0].line.trim()).toBe("QUOTA NAME");
+            expect(detailed[0].line).toContain("UTILIZATION");
+            expect(detailed).toHaveLength(5);
+        });
+
+        test("hidden mode renders nothing", () => {
+            expect(renderQuotaTable([group], { displayMode: "hidden" })).toEqual([]);
+        });
+    });
+});
+
+describe("formatRate", () => {
+    test("formats percentages and other units per hour", () => {
+        expect(formatRate(12.4, "%")).toBe("+12%/h");
+        expect(formatRate(340, "credits")).toBe("+340 credits/h");
+        expect(formatRate(0.25, "%")).toBe("+0.3%/h");
+        expect(formatRate(-3, "%")).toBe("-3%/h");
+        expect(formatRate(0, "")).toBe("0/h");
+    });
 });
@@ -67,6 +67,37 @@ describe("Schema Validation", () => {
         expect(validate.errors?.[0].message).toContain("must be equal to one of the allowed values");
     });
 
+    test("validates provider definitions", () => {
+        const config = {
+            providers: [
+                {
+                    type: "http",
+                    id: "litellm",
+                    name: "LiteLLM",
+                    url: "https://litellm.example.com/key/info",
+                    headers: { Authorization: "Bearer {env:LITELLM_KEY}" },
+                    fields: { used: "$.info.spend", limit: "$.info.max_budget", unit: "USD" }
+                }
+            ]
+        };
+        expect(validate(config)).toBe(true);
+
+        const commandConfig = {
+            providers: [
+                { type: "command", id: "billing", command: "billing-cli", args: ["usage"], timeoutMs: 5000 }
+            ]
+        };
+        expect(validate(commandConfig)).toBe(true);
+
+        const moduleConfig = {
+            providers: ["opencode-quotas-openrouter", { module: "./providers/billing.js", team: "platform" }]
+        };
+        expect(validate(moduleConfig)).toBe(true);
+
+        const missingFields = { providers: [{ type: "http", id: "x", url: "https://x" }] };
+        expect(validate(missingFields)).toBe(false);
+    });
+
     test("rejects invalid progressBar width", () => {
         const config = {
             progressBar: {
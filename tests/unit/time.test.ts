@@ -1,5 +1,5 @@
 import { expect, test, describe } from "bun:test";
-import { formatRelativeTime, formatDurationMs } from "../../src/utils/time";
+import { formatRelativeTime, formatDurationMs, parseDuration } from "../../src/utils/time";
 
 describe("time utils", () => {
   describe("formatRelativeTime", () => {
@@ -51,4 +51,21 @@ describe("time utils", () => {
       expect(formatDurationMs((3 * 24 + 5) * 60 * 60 * 1000)).toBe("3d 5h");
     });
   });
+
+  describe("parseDuration", () => {
+    test("parses minutes, hours, days and weeks", () => {
+      expect(parseDuration("30m")).toBe(30 * 60 * 1000);
+      expect(parseDuration("12h")).toBe(12 * 60 * 60 * 1000);
+      expect(parseDuration("7d")).toBe(7 * 24 * 60 * 60 * 1000);
+      expect(parseDuration("2W")).toBe(14 * 24 * 60 * 60 * 1000);
+      expect(parseDuration("1.5h")).toBe(90 * 60 * 1000);
+    });
+
+    test("returns null for invalid input", () => {
+      expect(parseDuration("7")).toBeNull();
+      expect(parseDuration("0d")).toBeNull();
+      expect(parseDuration("-1d")).toBeNull();
+      expect(parseDuration("soon")).toBeNull();
+    });
+  });
 });
@@ -88,6 +88,24 @@ describe("validation utils", () => {
       });
     });
 
+    test("keeps valid resetAt and windowMs, drops invalid ones", () => {
+      const valid = validateQuotaData({ id: "q1", providerName: "P1", resetAt: 1000, windowMs: 5000 });
+      expect(valid?.resetAt).toBe(1000);
+      expect(valid?.windowMs).toBe(5000);
+
+      const invalid = validateQuotaData({ id: "q1", providerName: "P1", resetAt: "soon", windowMs: -1 });
+      expect(invalid?.resetAt).toBeUndefined();
+      expect(invalid?.windowMs).toBeUndefined();
+    });
+
+    test("restores an open-ended prediction range after a JSON round trip", () => {
+      const prediction = { expectedMs: 1000, optimisticMs: Infinity, pessimisticMs: 500, confidence: 0.4 };
+      const restored = validateQuotaData(JSON.parse(JSON.stringify({ id: "q1", providerName: "P1", prediction })));
+      expect(restored?.prediction).toEqual(prediction);
+
+      expect(validateQuotaData({ id: "q1", providerName: "P1", prediction: { expectedMs: "soon" } })?.prediction).toBeUndefined();
+    });
+
     test("returns null if id or providerName is missing", () => {
       expect(validateQuotaData({ id: "q1" })).toBe(null);
       expect(validateQuotaData({ providerName: "P1" })).toBe(null);